@@ -4,8 +4,10 @@ import { ChatTab } from './components/ChatTab';
 import { VisionTab } from './components/VisionTab';
 import { VoiceTab } from './components/VoiceTab';
 import { DebugTab } from './components/DebugTab';
+import { ModelsTab } from './components/ModelsTab';
+import { PromptsTab } from './components/PromptsTab';
 
-type Tab = 'chat' | 'vision' | 'voice' | 'debug';
+type Tab = 'chat' | 'vision' | 'voice' | 'debug' | 'prompts' | 'models';
 
 export function App() {
   const [sdkReady, setSdkReady] = useState(false);
@@ -59,6 +61,12 @@ export function App() {
         <button className={activeTab === 'voice' ? 'active' : ''} onClick={() => setActiveTab('voice')}>
           🎙️ Voice
         </button>
+        <button className={activeTab === 'prompts' ? 'active' : ''} onClick={() => setActiveTab('prompts')}>
+          📚 Prompts
+        </button>
+        <button className={activeTab === 'models' ? 'active' : ''} onClick={() => setActiveTab('models')}>
+          📦 Models
+        </button>
       </nav>
 
       <main className="tab-content">
@@ -66,6 +74,8 @@ export function App() {
         {activeTab === 'chat' && <ChatTab />}
         {activeTab === 'vision' && <VisionTab />}
         {activeTab === 'voice' && <VoiceTab />}
+        {activeTab === 'prompts' && <PromptsTab />}
+        {activeTab === 'models' && <ModelsTab />}
       </main>
     </div>
   );
@@ -0,0 +1,194 @@
+import { useState, useRef } from 'react';
+import { ModelCategory } from '@runanywhere/web';
+import { addCustomModel, getCatalogIds } from '../runanywhere';
+import {
+  buildHuggingFaceModel,
+  buildLocalModel,
+  categoriesFor,
+  inferCategory,
+  type CustomModelCategory,
+  type CustomModelSource,
+} from '../lib/customModels';
+import { formatBytes } from '../lib/format';
+
+const CATEGORY_LABELS: Record<CustomModelCategory, string> = {
+  [ModelCategory.Language]: 'LLM (text)',
+  [ModelCategory.Multimodal]: 'VLM (vision + text)',
+  [ModelCategory.SpeechRecognition]: 'STT (speech-to-text)',
+  [ModelCategory.SpeechSynthesis]: 'TTS (text-to-speech)',
+};
+
+interface Props {
+  onAdded: (modelId: string) => void;
+}
+
+export function AddModelForm({ onAdded }: Props) {
+  const [source, setSource] = useState<CustomModelSource>('huggingface');
+  const [url, setUrl] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<CustomModelCategory>(ModelCategory.Language);
+  const [mmprojFile, setMmprojFile] = useState('');
+  const [memoryMB, setMemoryMB] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Filename that drives category inference for the current source
+  const artifactName = source === 'local' ? file?.name ?? '' : url.split('/').pop() ?? '';
+  const allowedCategories = artifactName
+    ? categoriesFor(artifactName)
+    : (Object.keys(CATEGORY_LABELS) as CustomModelCategory[]);
+
+  const updateArtifact = (filename: string) => {
+    if (filename) setCategory(inferCategory(filename));
+  };
+
+  const reset = () => {
+    setUrl('');
+    setFile(null);
+    setName('');
+    setMmprojFile('');
+    setMemoryMB('');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setBusy(true);
+
+    try {
+      const takenIds = getCatalogIds();
+      if (source === 'huggingface') {
+        const def = buildHuggingFaceModel({
+          url,
+          name,
+          category,
+          mmprojFile,
+          memoryRequirement: memoryMB ? Number(memoryMB) * 1_000_000 : undefined,
+        }, takenIds);
+        await addCustomModel({ def, source, addedAt: Date.now() });
+        onAdded(def.id);
+      } else {
+        if (!file) throw new Error('Pick a model file first');
+        const def = buildLocalModel({ file, name, category }, takenIds);
+        await addCustomModel({ def, source, addedAt: Date.now() }, file);
+        onAdded(def.id);
+      }
+      reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form className="add-model-form" onSubmit={handleSubmit}>
+      <div className="segmented">
+        <button
+          type="button"
+          className={`mode-btn ${source === 'huggingface' ? 'active' : ''}`}
+          onClick={() => setSource('huggingface')}
+          disabled={busy}
+        >
+          🤗 Hugging Face
+        </button>
+        <button
+          type="button"
+          className={`mode-btn ${source === 'local' ? 'active' : ''}`}
+          onClick={() => setSource('local')}
+          disabled={busy}
+        >
+          📁 Local file
+        </button>
+      </div>
+
+      {source === 'huggingface' ? (
+        <label className="form-field">
+          <span>File URL</span>
+          <input
+            type="text"
+            placeholder="https://huggingface.co/org/repo/resolve/main/model.gguf"
+            value={url}
+            onChange={(e) => { setUrl(e.target.value); updateArtifact(e.target.value.split('/').pop() ?? ''); }}
+            disabled={busy}
+          />
+        </label>
+      ) : (
+        <div className="form-field">
+          <span>Model file (.gguf or .tar.gz)</span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".gguf,.tar.gz,.tgz"
+            onChange={(e) => {
+              const picked = e.target.files?.[0] ?? null;
+              setFile(picked);
+              updateArtifact(picked?.name ?? '');
+            }}
+            disabled={busy}
+          />
+          {file && <small>{file.name} · {formatBytes(file.size)}</small>}
+        </div>
+      )}
+
+      <label className="form-field">
+        <span>Display name (optional)</span>
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} disabled={busy} />
+      </label>
+
+      <label className="form-field">
+        <span>Type</span>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value as CustomModelCategory)}
+          disabled={busy}
+        >
+          {allowedCategories.map((c) => (
+            <option key={c} value={c}>{CATEGORY_LABELS[c]}</option>
+          ))}
+        </select>
+      </label>
+
+      {source === 'huggingface' && category === ModelCategory.Multimodal && (
+        <label className="form-field">
+          <span>mmproj file (same repo)</span>
+          <input
+            type="text"
+            placeholder="mmproj-model-f16.gguf"
+            value={mmprojFile}
+            onChange={(e) => setMmprojFile(e.target.value)}
+            disabled={busy}
+          />
+        </label>
+      )}
+
+      {source === 'huggingface' && (
+        <label className="form-field">
+          <span>Memory requirement in MB (optional)</span>
+          <input
+            type="number"
+            min={0}
+            value={memoryMB}
+            onChange={(e) => setMemoryMB(e.target.value)}
+            disabled={busy}
+          />
+        </label>
+      )}
+
+      {error && <p className="error-text">{error}</p>}
+
+      <div className="form-actions">
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={busy || (source === 'huggingface' ? !url.trim() : !file)}
+        >
+          {busy ? (source === 'local' ? 'Importing...' : 'Adding...') : 'Add model'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,54 @@
+import { useRef } from 'react';
+import type { SourceMap } from '../lib/sourceMap';
+import type { SourceFile } from '../lib/sourceContext';
+
+interface Props {
+  maps: SourceMap[];
+  sourceFiles: SourceFile[];
+  onAdd: (files: File[]) => void;
+  onRemoveMap: (fileName: string) => void;
+  onClearSources: () => void;
+  disabled?: boolean;
+}
+
+/** Source maps and source files attached to Debug analyses. */
+export function AttachmentBar({ maps, sourceFiles, onAdd, onRemoveMap, onClearSources, disabled }: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="attachment-bar">
+      <button type="button" className="btn btn-sm" onClick={() => fileRef.current?.click()} disabled={disabled}>
+        📎 Attach files
+      </button>
+      {maps.length === 0 && sourceFiles.length === 0 && (
+        <span className="panel-hint">Drop source files, a .zip of your project or .map files here</span>
+      )}
+      {maps.map((m) => (
+        <span key={m.fileName} className="attachment-chip" title={`Maps ${m.generatedFile} (${m.sources.length} sources)`}>
+          🗺️ {m.fileName}
+          <button type="button" onClick={() => onRemoveMap(m.fileName)} disabled={disabled} title="Remove">✕</button>
+        </span>
+      ))}
+      {sourceFiles.length > 0 && (
+        <span
+          className="attachment-chip"
+          title={sourceFiles.slice(0, 30).map((f) => f.path).join('\n') + (sourceFiles.length > 30 ? '\n…' : '')}
+        >
+          📄 {sourceFiles.length} source file{sourceFiles.length === 1 ? '' : 's'}
+          <button type="button" onClick={onClearSources} disabled={disabled} title="Remove all">✕</button>
+        </span>
+      )}
+      <input
+        ref={fileRef}
+        type="file"
+        multiple
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const files = [...(e.target.files ?? [])];
+          e.target.value = '';
+          if (files.length) onAdd(files);
+        }}
+      />
+    </div>
+  );
+}
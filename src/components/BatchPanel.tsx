@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { LOG_FORMAT_LABELS } from '../lib/logExtract';
+import {
+  BATCH_STATUS_LABELS, blockSummary, downloadBatchSummary, sortBatchItems, type BatchSortKey, type LogBatch,
+} from '../lib/logBatch';
+
+interface Props {
+  batch: LogBatch;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const COLUMNS: { key: BatchSortKey; label: string }[] = [
+  { key: 'severity', label: 'Severity' },
+  { key: 'errorType', label: 'Error' },
+  { key: 'count', label: 'Count' },
+  { key: 'line', label: 'Line' },
+];
+
+/** Progress and sortable summary of a log file's errors. */
+export function BatchPanel({ batch, onCancel, onClose }: Props) {
+  const [sortKey, setSortKey] = useState<BatchSortKey>('severity');
+  const [reversed, setReversed] = useState(false);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const finished = batch.items.filter((it) => it.status !== 'pending' && it.status !== 'running').length;
+  const analyzed = batch.items.filter((it) => it.analysis).length;
+  const rows = sortBatchItems(batch.items, sortKey, reversed);
+
+  const sortBy = (key: BatchSortKey) => {
+    setReversed(key === sortKey ? !reversed : false);
+    setSortKey(key);
+  };
+
+  return (
+    <div className="batch-panel">
+      <div className="batch-header">
+        <span className="batch-title" title={batch.fileName}>
+          📄 {batch.fileName} · {LOG_FORMAT_LABELS[batch.format]}
+        </span>
+        <span className="batch-progress-label">
+          {!batch.running
+            ? `${analyzed} of ${batch.items.length} analyzed`
+            : batch.cancelling
+              ? 'Stopping after the current error...'
+              : `Analyzing ${Math.min(finished + 1, batch.items.length)} of ${batch.items.length}...`}
+        </span>
+        {batch.running ? (
+          <button type="button" className="btn btn-sm" onClick={onCancel} disabled={batch.cancelling}>Cancel</button>
+        ) : (
+          <>
+            <button type="button" className="btn btn-sm" onClick={() => downloadBatchSummary('csv', batch, rows)}>
+              CSV
+            </button>
+            <button type="button" className="btn btn-sm" onClick={() => downloadBatchSummary('markdown', batch, rows)}>
+              Markdown
+            </button>
+            <button type="button" className="btn btn-sm" onClick={onClose} title="Close summary">✕</button>
+          </>
+        )}
+      </div>
+
+      <div className="progress-bar">
+        <div className="progress-fill" style={{ width: `${(finished / Math.max(1, batch.items.length)) * 100}%` }} />
+      </div>
+
+      {batch.truncated > 0 && (
+        <p className="panel-hint">
+          Only the first {batch.items.length} distinct errors are analyzed; {batch.truncated} more were skipped.
+        </p>
+      )}
+
+      <table className="batch-table">
+        <thead>
+          <tr>
+            {COLUMNS.map((c) => (
+              <th key={c.key} aria-sort={sortKey === c.key ? (reversed ? 'ascending' : 'descending') : undefined}>
+                <button type="button" className="batch-sort" onClick={() => sortBy(c.key)}>
+                  {c.label}{sortKey === c.key && (reversed ? ' ▴' : ' ▾')}
+                </button>
+              </th>
+            ))}
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((item) => {
+            const index = batch.items.indexOf(item);
+            return (
+              <tr
+                key={index}
+                className={`batch-row batch-${item.status}`}
+                onClick={() => setExpanded(expanded === index ? null : index)}
+              >
+                <td>
+                  {item.analysis
+                    ? <span className={`severity-badge severity-${item.analysis.severity}`}>{item.analysis.severity.toUpperCase()}</span>
+                    : '—'}
+                </td>
+                <td className="batch-error">
+                  {item.analysis && <strong>{item.analysis.errorType}</strong>}
+                  <code>{blockSummary(item.block)}</code>
+                  {expanded === index && (
+                    <div className="batch-details">
+                      {item.analysis ? item.analysis.rootCause : item.error}
+                      {item.block.timestamp && <div>First logged {item.block.timestamp}</div>}
+                    </div>
+                  )}
+                </td>
+                <td>×{item.block.count}</td>
+                <td>{item.block.line}</td>
+                <td>{item.reused ? '♻️ Reused' : BATCH_STATUS_LABELS[item.status]}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,20 +1,45 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { ModelCategory } from '@runanywhere/web';
+import { ModelCategory, ModelManager } from '@runanywhere/web';
 import { TextGeneration } from '@runanywhere/web-llamacpp';
 import { useModelLoader } from '../hooks/useModelLoader';
+import { useSession } from '../hooks/useSession';
+import { useGenerationSettings } from '../hooks/useGenerationSettings';
+import { buildChatPrompt, resolveChatTemplate } from '../lib/chatPrompt';
+import { applyStopSequences } from '../lib/generationSettings';
+import { resolveSystemPrompt } from '../lib/promptLibrary';
+import { addVariant, selectVariant, updateVariant, type Branched } from '../lib/branches';
+import { Markdown } from './Markdown';
+import { MessageActions } from './MessageActions';
+import { MessageEditor } from './MessageEditor';
 import { ModelBanner } from './ModelBanner';
+import { SessionBar } from './SessionBar';
+import { SettingsDrawer } from './SettingsDrawer';
 
-interface Message {
-  role: 'user' | 'assistant';
+/** Fields that differ between alternative replies to the same turn. */
+interface Reply {
   text: string;
   stats?: { tokens: number; tokPerSec: number; latencyMs: number };
+  /** Set when generation failed; the text is an error, not model output. */
+  failed?: boolean;
+}
+
+interface Message extends Reply, Branched<Reply> {
+  role: 'user' | 'assistant';
 }
 
+const messageText = (m: Message) => m.text;
+
+const replyOf = ({ text, stats, failed }: Message): Reply => ({ text, stats, failed });
+
 export function ChatTab() {
   const loader = useModelLoader(ModelCategory.Language);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const session = useSession<Message>('chat', messageText);
+  const { messages, setMessages } = session;
+  const generation = useGenerationSettings('chat');
+  const { settings } = generation;
   const [input, setInput] = useState('');
   const [generating, setGenerating] = useState(false);
+  const [editingIdx, setEditingIdx] = useState<number | null>(null);
   const cancelRef = useRef<(() => void) | null>(null);
   const listRef = useRef<HTMLDivElement>(null);
 
@@ -23,67 +48,133 @@ export function ChatTab() {
     listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
   }, [messages]);
 
-  const send = useCallback(async () => {
-    const text = input.trim();
-    if (!text || generating) return;
-
-    // Ensure model is loaded
-    if (loader.state !== 'ready') {
-      const ok = await loader.ensure();
-      if (!ok) return;
-    }
+  /**
+   * Stream a reply to `history` (which ends with the user turn being
+   * answered) into the assistant message at `assistantIdx`.
+   */
+  const streamReply = useCallback(async (history: Message[], assistantIdx: number) => {
+    const patchReply = (patch: Partial<Reply>) => {
+      setMessages((prev) => {
+        const updated = [...prev];
+        updated[assistantIdx] = updateVariant<Reply, Message>(prev[assistantIdx], patch);
+        return updated;
+      });
+    };
 
-    setInput('');
-    setMessages((prev) => [...prev, { role: 'user', text }]);
     setGenerating(true);
-
-    // Add empty assistant message for streaming
-    const assistantIdx = messages.length + 1;
-    setMessages((prev) => [...prev, { role: 'assistant', text: '' }]);
-
     try {
-      const { stream, result: resultPromise, cancel } = await TextGeneration.generateStream(text, {
-        maxTokens: 512,
-        temperature: 0.7,
+      // Replay the conversation so far through the model's chat template
+      const turns = history
+        .filter((m) => !m.failed)
+        .map((m) => ({ role: m.role, text: m.text }));
+      const loadedModel = ModelManager.getLoadedModel(ModelCategory.Language);
+      const template = resolveChatTemplate(loadedModel);
+      const systemPrompt = resolveSystemPrompt('chat', { model: loadedModel?.name });
+      const { prompt } = buildChatPrompt(turns, template, { reserveTokens: settings.maxTokens, systemPrompt });
+
+      const { stream, result: resultPromise, cancel } = await TextGeneration.generateStream(prompt, {
+        maxTokens: settings.maxTokens,
+        temperature: settings.temperature,
+        topP: settings.topP,
+        topK: settings.topK,
+        stopSequences: settings.stopSequences,
+        systemPrompt: systemPrompt || undefined,
       });
       cancelRef.current = cancel;
 
+      // The engine doesn't apply stopSequences yet, so enforce them here
       let accumulated = '';
+      let stopped = false;
       for await (const token of stream) {
-        accumulated += token;
-        setMessages((prev) => {
-          const updated = [...prev];
-          updated[assistantIdx] = { role: 'assistant', text: accumulated };
-          return updated;
-        });
+        const cut = applyStopSequences(accumulated + token, settings.stopSequences);
+        accumulated = cut.text;
+        stopped = cut.stopped;
+        patchReply({ text: accumulated });
+        if (stopped) {
+          cancel();
+          break;
+        }
       }
 
-      const result = await resultPromise;
-      setMessages((prev) => {
-        const updated = [...prev];
-        updated[assistantIdx] = {
-          role: 'assistant',
-          text: result.text || accumulated,
-          stats: {
-            tokens: result.tokensUsed,
-            tokPerSec: result.tokensPerSecond,
-            latencyMs: result.latencyMs,
-          },
-        };
-        return updated;
+      // A cancel we issued for a stop sequence isn't a failure
+      const result = await resultPromise.catch((err) => {
+        if (stopped) return null;
+        throw err;
+      });
+      patchReply({
+        text: stopped || !result ? accumulated : result.text || accumulated,
+        stats: result ? {
+          tokens: result.tokensUsed,
+          tokPerSec: result.tokensPerSecond,
+          latencyMs: result.latencyMs,
+        } : undefined,
       });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
-      setMessages((prev) => {
-        const updated = [...prev];
-        updated[assistantIdx] = { role: 'assistant', text: `Error: ${msg}` };
-        return updated;
-      });
+      patchReply({ text: `Error: ${msg}`, stats: undefined, failed: true });
     } finally {
       cancelRef.current = null;
       setGenerating(false);
     }
-  }, [input, generating, messages.length, loader]);
+  }, [setMessages, settings]);
+
+  const ensureModel = useCallback(async () => {
+    if (loader.state === 'ready') return true;
+    return loader.ensure();
+  }, [loader]);
+
+  const send = useCallback(async () => {
+    const text = input.trim();
+    if (!text || generating) return;
+    if (!(await ensureModel())) return;
+
+    setInput('');
+    // Add the user turn and an empty assistant message for streaming
+    const history: Message[] = [...messages, { role: 'user', text }];
+    setMessages([...history, { role: 'assistant', text: '' }]);
+    await streamReply(history, history.length);
+  }, [input, generating, messages, setMessages, ensureModel, streamReply]);
+
+  /** Replace a user message and re-run the conversation from there. */
+  const editAndRerun = useCallback(async (index: number, text: string) => {
+    setEditingIdx(null);
+    if (generating || !(await ensureModel())) return;
+
+    const history: Message[] = [...messages.slice(0, index), { role: 'user', text }];
+    setMessages([...history, { role: 'assistant', text: '' }]);
+    await streamReply(history, history.length);
+  }, [generating, messages, setMessages, ensureModel, streamReply]);
+
+  /** Generate another reply for an assistant message, keeping the old one as a branch. */
+  const regenerate = useCallback(async (index: number) => {
+    if (generating || !(await ensureModel())) return;
+
+    setMessages((prev) => {
+      const updated = [...prev];
+      updated[index] = addVariant<Reply, Message>(prev[index], replyOf(prev[index]), {
+        text: '',
+        stats: undefined,
+        failed: undefined,
+      });
+      return updated;
+    });
+    await streamReply(messages.slice(0, index), index);
+  }, [generating, messages, setMessages, ensureModel, streamReply]);
+
+  const switchVariant = (index: number, variant: number) => {
+    setMessages((prev) => {
+      const updated = [...prev];
+      updated[index] = selectVariant<Reply, Message>(prev[index], variant);
+      return updated;
+    });
+  };
+
+  /** Delete one message; deleting a user turn also removes the reply to it. */
+  const deleteTurn = (index: number) => {
+    const withReply = messages[index].role === 'user' && messages[index + 1]?.role === 'assistant';
+    if (!confirm(withReply ? 'Delete this message and its reply?' : 'Delete this message?')) return;
+    setMessages((prev) => prev.filter((_, i) => i !== index && !(withReply && i === index + 1)));
+  };
 
   const handleCancel = () => {
     cancelRef.current?.();
@@ -94,11 +185,31 @@ export function ChatTab() {
       <ModelBanner
         state={loader.state}
         progress={loader.progress}
+        download={loader.download}
+        onPause={loader.pause}
+        onCancel={loader.cancel}
         error={loader.error}
         onLoad={loader.ensure}
         label="LLM"
+        models={loader.models}
+        selectedId={loader.selectedId}
+        onSelect={loader.select}
+      />
+
+      <SessionBar
+        sessionId={session.sessionId}
+        sessionName={session.sessionName}
+        sessions={session.sessions}
+        onNew={session.newSession}
+        onOpen={session.openSession}
+        onRename={session.rename}
+        onDelete={session.remove}
+        onSearch={session.search}
+        disabled={generating}
       />
 
+      <SettingsDrawer scope="chat" {...generation} disabled={generating} />
+
       <div className="message-list" ref={listRef}>
         {messages.length === 0 && (
           <div className="empty-state">
@@ -109,12 +220,30 @@ export function ChatTab() {
         {messages.map((msg, i) => (
           <div key={i} className={`message message-${msg.role}`}>
             <div className="message-bubble">
-              <p>{msg.text || '...'}</p>
+              {editingIdx === i ? (
+                <MessageEditor
+                  initialText={msg.text}
+                  onSave={(text) => editAndRerun(i, text)}
+                  onCancel={() => setEditingIdx(null)}
+                />
+              ) : msg.role === 'assistant' && msg.text && !msg.failed
+                ? <Markdown text={msg.text} />
+                : <p>{msg.text || '...'}</p>}
               {msg.stats && (
                 <div className="message-stats">
                   {msg.stats.tokens} tokens · {msg.stats.tokPerSec.toFixed(1)} tok/s · {msg.stats.latencyMs.toFixed(0)}ms
                 </div>
               )}
+              {!generating && editingIdx !== i && (
+                <MessageActions
+                  onEdit={msg.role === 'user' ? () => setEditingIdx(i) : undefined}
+                  onRegenerate={msg.role === 'assistant' && i === messages.length - 1 ? () => regenerate(i) : undefined}
+                  onDelete={() => deleteTurn(i)}
+                  variantIndex={msg.variantIndex}
+                  variantCount={msg.variants?.length}
+                  onSelectVariant={(v) => switchVariant(i, v)}
+                />
+              )}
             </div>
           </div>
         ))}
@@ -0,0 +1,22 @@
+import { passageTitle, type Passage } from '../lib/knowledgeBase';
+
+interface Props {
+  citations: Passage[];
+}
+
+/** Knowledge-base passages a Debug analysis was given, numbered as the model cites them. */
+export function CitationList({ citations }: Props) {
+  return (
+    <div className="source-context-list">
+      {citations.map((c, i) => (
+        <details key={i} className="source-context">
+          <summary>
+            <span className="citation-ref">[{i + 1}]</span>
+            <span className="stack-frame-fn">{passageTitle(c)}</span>
+          </summary>
+          <p className="citation-text">{c.text}</p>
+        </details>
+      ))}
+    </div>
+  );
+}
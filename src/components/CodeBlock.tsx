@@ -0,0 +1,46 @@
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { highlight } from '../lib/highlight';
+
+interface Props {
+  code: string;
+  lang?: string;
+}
+
+export function CodeBlock({ code, lang = '' }: Props) {
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const resetTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const tokens = useMemo(() => highlight(code, lang), [code, lang]);
+
+  useEffect(() => () => {
+    if (resetTimer.current) clearTimeout(resetTimer.current);
+  }, []);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopyState('copied');
+    } catch {
+      setCopyState('failed');
+    }
+    if (resetTimer.current) clearTimeout(resetTimer.current);
+    resetTimer.current = setTimeout(() => setCopyState('idle'), 1500);
+  };
+
+  return (
+    <div className="code-block-wrapper">
+      <div className="code-block-toolbar">
+        <span>{lang || 'code'}</span>
+        <button type="button" className="code-copy-btn" onClick={handleCopy}>
+          {copyState === 'copied' ? '✓ Copied' : copyState === 'failed' ? 'Copy failed' : 'Copy'}
+        </button>
+      </div>
+      <pre className="code-block">
+        <code>
+          {tokens.map((t, i) => (
+            t.type === 'plain' ? t.text : <span key={i} className={`tok-${t.type}`}>{t.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+}
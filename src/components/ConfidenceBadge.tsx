@@ -0,0 +1,22 @@
+import { confidenceLevel, type AnalysisConfidence } from '../lib/analysisConfidence';
+
+interface Props {
+  confidence: AnalysisConfidence;
+}
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+/** Self-consistency score of an analysis, with the per-aspect agreement on hover. */
+export function ConfidenceBadge({ confidence }: Props) {
+  const level = confidenceLevel(confidence.score);
+  const { errorType, severity, rootCause } = confidence.agreement;
+  const title = `Agreement over ${confidence.samples} extra sample${confidence.samples === 1 ? '' : 's'} `
+    + `(${confidence.validSamples} valid): error type ${pct(errorType)}, severity ${pct(severity)}, `
+    + `root cause ${pct(rootCause)}`;
+
+  return (
+    <span className={`confidence-badge confidence-${level.toLowerCase()}`} title={title}>
+      {level} confidence · {pct(confidence.score)}
+    </span>
+  );
+}
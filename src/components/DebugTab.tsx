@@ -1,177 +1,477 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { ModelCategory, VoicePipeline, ModelManager } from '@runanywhere/web';
-import { TextGeneration, ToolCalling, toToolValue, getStringArg } from '@runanywhere/web-llamacpp';
-import { VLMWorkerBridge } from '@runanywhere/web-llamacpp';
-import { AudioCapture, VAD, SpeechActivity } from '@runanywhere/web-onnx';
+import { flushSync } from 'react-dom';
+import { ModelCategory, ModelManager } from '@runanywhere/web';
+import { TextGeneration } from '@runanywhere/web-llamacpp';
+import { AudioCapture, AudioPlayback, STT, TTS, VAD, SpeechActivity } from '@runanywhere/web-onnx';
 import { useModelLoader } from '../hooks/useModelLoader';
+import { useSession } from '../hooks/useSession';
+import { useGenerationSettings } from '../hooks/useGenerationSettings';
+import { useKnowledgeBase } from '../hooks/useKnowledgeBase';
+import { useErrorClusters } from '../hooks/useErrorClusters';
+import { usePushToTalk } from '../hooks/usePushToTalk';
+import { useVoiceInput } from '../hooks/useVoiceInput';
+import { resolveSystemPrompt, type PromptSlot } from '../lib/promptLibrary';
+import { addVariant, selectVariant, updateVariant, type Branched } from '../lib/branches';
+import { downloadReport, parseJSONReport, type DebugAnalysis, type ReportFormat } from '../lib/debugReport';
+import { formatTraceForPrompt, parseStackTrace, type ParsedTrace } from '../lib/stackTrace';
+import { parseSourceMap, resolveFrames, type SourceMap } from '../lib/sourceMap';
+import {
+  collectSnippets, formatSnippetsForPrompt, readSourceFiles, type ContextSnippet, type SourceFile,
+} from '../lib/sourceContext';
+import { DEFAULT_CONTEXT_TOKENS, estimateTokens } from '../lib/chatPrompt';
+import {
+  AGENT_PROMPT_RESERVE_TOKENS, MAX_ANALYSIS_RETRIES, MAX_TOOL_CALLS, registerDebugTools, runDebugAgent, type ToolStep,
+} from '../lib/debugTools';
+import {
+  CONFIDENCE_SAMPLE_OPTIONS, estimateConfidence, loadConfidenceSamples, saveConfidenceSamples, type AnalysisConfidence,
+} from '../lib/analysisConfidence';
+import { formatPassagesForPrompt, searchKnowledge, type Passage } from '../lib/knowledgeBase';
+import { findCluster, fingerprintError, isReusable } from '../lib/errorClusters';
+import { extractErrors, type ExtractedLog } from '../lib/logExtract';
+import type { BatchItem, LogBatch } from '../lib/logBatch';
+import { firstSentences, speakableText, spokenAnalysis } from '../lib/speech';
+import { cropCanvas, readScreenshot, screenshotPrompt, type ImageRegion } from '../lib/screenshotText';
+import { applyVADThreshold, minSegmentSamples, VOICE_SAMPLE_RATE } from '../lib/voiceInput';
+import { AttachmentBar } from './AttachmentBar';
+import { BatchPanel } from './BatchPanel';
+import { CitationList } from './CitationList';
+import { CodeBlock } from './CodeBlock';
+import { ConfidenceBadge } from './ConfidenceBadge';
+import { KnowledgeDrawer } from './KnowledgeDrawer';
+import { Markdown } from './Markdown';
+import { MessageActions } from './MessageActions';
+import { MessageEditor } from './MessageEditor';
 import { ModelBanner } from './ModelBanner';
+import { RecurringErrors } from './RecurringErrors';
+import { ReportMenu } from './ReportMenu';
+import { ScreenshotCropper } from './ScreenshotCropper';
+import { ScreenshotReview, type PendingScreenshot } from './ScreenshotReview';
+import { SessionBar } from './SessionBar';
+import { SettingsDrawer } from './SettingsDrawer';
+import { SourceContextList } from './SourceContextList';
+import { StackFrameList } from './StackFrameList';
+import { ToolTrace } from './ToolTrace';
+import { VoiceInputControls } from './VoiceInputControls';
 
 type DebugMode = 'text' | 'vision' | 'voice';
-
-interface DebugAnalysis {
-  errorType: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  rootCause: string;
-  suggestedFix: string;
-  codeExample: string;
-  additionalNotes: string;
-}
-
-interface Message {
-  role: 'user' | 'assistant';
+type VoiceState = 'idle' | 'loading-models' | 'listening' | 'recording' | 'transcribing' | 'analyzing' | 'speaking';
+
+const VOICE_STATE_LABELS: Record<Exclude<VoiceState, 'idle'>, string> = {
+  'loading-models': 'Loading voice models...',
+  listening: 'Listening... Speak your error or issue.',
+  recording: 'Recording... Release to analyze.',
+  transcribing: 'Transcribing...',
+  analyzing: 'Analyzing error...',
+  speaking: 'Speaking the analysis...',
+};
+
+/** Fields that differ between alternative analyses of the same error. */
+interface Reply {
   content: string;
   analysis?: DebugAnalysis;
   timestamp: number;
+  /** Model that produced this reply. */
+  modelId?: string;
+  /** Attached source snippets that were included in the prompt. */
+  context?: ContextSnippet[];
+  /** Tools the model called while producing this reply. */
+  toolTrace?: ToolStep[];
+  /** Knowledge-base passages included in the prompt, cited as [1], [2], … */
+  citations?: Passage[];
+  /** Set when this is an earlier analysis of the same error, shown without running the model. */
+  reusedFrom?: { sessionId: string; sessionName: string; timestamp: number };
+  /** Set when no valid analysis came back, even after re-prompting. */
+  unstructured?: { reason: string; attempts: number };
+  /** Self-consistency of `analysis` across extra samples. */
+  confidence?: AnalysisConfidence;
 }
 
+interface Message extends Reply, Branched<Reply> {
+  role: 'user' | 'assistant';
+  /** Stack trace parsed from a user message, resolved against the loaded source maps. */
+  trace?: ParsedTrace;
+}
+
+/** Appended to the persona so analyses stay parseable whatever the user writes. */
+const TOOL_INSTRUCTION = 'Use the helper tools when they help (look up error codes, check JSON, explain regexes, '
+  + 'diff code, search past analyses), then always finish by calling the analyze_error tool to structure your '
+  + 'response. Be concise but thorough.';
+
+const messageText = (m: Message) =>
+  m.analysis ? `${m.content}\n${m.analysis.errorType}\n${m.analysis.rootCause}` : m.content;
+
 export function DebugTab() {
   const llmLoader = useModelLoader(ModelCategory.Language);
   const vlmLoader = useModelLoader(ModelCategory.Multimodal);
+  // Voice debugging keeps STT, LLM, TTS and VAD loaded side by side
+  const voiceLlmLoader = useModelLoader(ModelCategory.Language, true);
+  const sttLoader = useModelLoader(ModelCategory.SpeechRecognition, true);
+  const ttsLoader = useModelLoader(ModelCategory.SpeechSynthesis, true);
+  const vadLoader = useModelLoader(ModelCategory.Audio, true);
   const [mode, setMode] = useState<DebugMode>('text');
-  const [messages, setMessages] = useState<Message[]>([]);
+  const session = useSession<Message>('debug', messageText);
+  const { messages, setMessages } = session;
+  const generation = useGenerationSettings('debug');
+  const { settings } = generation;
+  const knowledge = useKnowledgeBase();
+  const errorClusters = useErrorClusters(session.sessionId, session.sessionName, messages);
   const [input, setInput] = useState('');
   const [processing, setProcessing] = useState(false);
+  const [editingIdx, setEditingIdx] = useState<number | null>(null);
+  const [sourceMaps, setSourceMaps] = useState<SourceMap[]>([]);
+  const [sourceFiles, setSourceFiles] = useState<SourceFile[]>([]);
+  const [confidenceSamples, setConfidenceSamples] = useState(loadConfidenceSamples);
+  const [confidenceStatus, setConfidenceStatus] = useState('');
+  const [batch, setBatch] = useState<LogBatch | null>(null);
+  const batchCancelRef = useRef(false);
+  const [voiceState, setVoiceState] = useState<VoiceState>('idle');
   const [voiceStatus, setVoiceStatus] = useState<string>('');
   const listRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const logInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pasteRef = useRef<(e: ClipboardEvent) => void>(() => {});
   const [cameraActive, setCameraActive] = useState(false);
+  const [pendingShot, setPendingShot] = useState<PendingScreenshot | null>(null);
+  const [visionStatus, setVisionStatus] = useState('');
+  const [cropShot, setCropShot] = useState<{ source: string; imageUrl: string } | null>(null);
+  const [dropActive, setDropActive] = useState(false);
   const streamRef = useRef<MediaStream | null>(null);
-  const voicePipelineRef = useRef<VoicePipeline | null>(null);
   const micRef = useRef<AudioCapture | null>(null);
   const vadUnsubRef = useRef<(() => void) | null>(null);
+  const playbackRef = useRef<AudioPlayback | null>(null);
+  /** Set by Stop so a voice turn already under way doesn't go on to speak. */
+  const voiceStoppedRef = useRef(false);
+  /** Push-to-talk is held. */
+  const recordingRef = useRef(false);
+  const voiceInput = useVoiceInput();
+  const pushToTalk = voiceInput.settings.mode === 'push-to-talk';
+  // Between the errors of a log batch `processing` is briefly false
+  const busy = processing || !!batch?.running || voiceState !== 'idle';
 
   // Auto-scroll to bottom
   useEffect(() => {
     listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
   }, [messages]);
 
-  // Register debug analysis tool
-  useEffect(() => {
-    ToolCalling.registerTool(
-      {
-        name: 'analyze_error',
-        description: 'Analyzes a programming error or bug and provides structured debugging information',
-        parameters: [
-          { name: 'errorType', type: 'string', description: 'Type of error (e.g., TypeError, ReferenceError, SyntaxError)', required: true },
-          { name: 'severity', type: 'string', description: 'Severity level: low, medium, high, or critical', required: true, enumValues: ['low', 'medium', 'high', 'critical'] },
-          { name: 'rootCause', type: 'string', description: 'Root cause explanation of the error', required: true },
-          { name: 'suggestedFix', type: 'string', description: 'Detailed steps to fix the error', required: true },
-          { name: 'codeExample', type: 'string', description: 'Code example showing the fix', required: true },
-          { name: 'additionalNotes', type: 'string', description: 'Additional debugging tips or related issues', required: false },
-        ],
-        category: 'Debug',
-      },
-      async (args) => {
-        return {
-          errorType: args.errorType || toToolValue('Unknown'),
-          severity: args.severity || toToolValue('medium'),
-          rootCause: args.rootCause || toToolValue(''),
-          suggestedFix: args.suggestedFix || toToolValue(''),
-          codeExample: args.codeExample || toToolValue(''),
-          additionalNotes: args.additionalNotes || toToolValue(''),
-        };
-      }
-    );
+  // Register the Debug tools (analyze_error + helpers) while the tab is mounted
+  useEffect(() => registerDebugTools(), []);
 
+  // Release the mic and stop speaking on unmount
+  useEffect(() => {
     return () => {
-      ToolCalling.unregisterTool('analyze_error');
+      micRef.current?.stop();
+      vadUnsubRef.current?.();
+      playbackRef.current?.stop();
     };
   }, []);
 
-  const analyzeError = useCallback(async (errorText: string) => {
-    if (!errorText.trim() || processing) return;
-
-    // Ensure model is loaded
-    if (llmLoader.state !== 'ready') {
-      const ok = await llmLoader.ensure();
-      if (!ok) return;
-    }
+  // A screenshot pasted anywhere opens in Vision mode
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => pasteRef.current(e);
+    document.addEventListener('paste', onPaste);
+    return () => document.removeEventListener('paste', onPaste);
+  }, []);
 
-    const userMessage: Message = {
-      role: 'user',
-      content: errorText,
-      timestamp: Date.now(),
+  /** Analyze `errorText`, write the result into the assistant message at `assistantIdx` and return it. */
+  const runAnalysis = useCallback(async (
+    errorText: string,
+    assistantIdx: number,
+    trace?: ParsedTrace,
+    slot: PromptSlot = 'debug',
+  ): Promise<Reply> => {
+    const patchReply = (patch: Partial<Reply>) => {
+      setMessages((prev) => {
+        const updated = [...prev];
+        updated[assistantIdx] = updateVariant<Reply, Message>(prev[assistantIdx], patch);
+        return updated;
+      });
     };
 
-    setMessages((prev) => [...prev, userMessage]);
     setProcessing(true);
-
-    const assistantIdx = messages.length + 1;
-    const tempMessage: Message = {
-      role: 'assistant',
-      content: 'Analyzing error...',
-      timestamp: Date.now(),
-    };
-    setMessages((prev) => [...prev, tempMessage]);
-
+    const model = ModelManager.getLoadedModel(ModelCategory.Language);
+    let context: ContextSnippet[] = [];
+    let toolTrace: ToolStep[] = [];
+    let citations: Passage[] = [];
+    let reply: Reply;
     try {
-      const systemPrompt = `You are an expert debugging assistant. Analyze programming errors and bugs with precision.
-When given an error message, stack trace, or code issue:
-1. Identify the error type
-2. Assess severity
-3. Explain the root cause
-4. Provide a clear fix
-5. Give a code example
-
-Always use the analyze_error tool to structure your response. Be concise but thorough.`;
-
-      const result = await ToolCalling.generateWithTools(
-        `Analyze this error and provide debugging help:\n\n${errorText}`,
-        {
-          maxToolCalls: 1,
-          autoExecute: true,
-          temperature: 0.3,
-          maxTokens: 800,
-          systemPrompt,
-          replaceSystemPrompt: true,
-        }
-      );
-
-      let analysis: DebugAnalysis | undefined;
-
-      // Extract analysis from tool results
-      if (result.toolResults && result.toolResults.length > 0) {
-        const toolResult = result.toolResults[0];
-        if (toolResult.success && toolResult.result) {
-          const res = toolResult.result as Record<string, any>;
-          analysis = {
-            errorType: getStringArg(res, 'errorType') || 'Unknown Error',
-            severity: (getStringArg(res, 'severity') as any) || 'medium',
-            rootCause: getStringArg(res, 'rootCause') || '',
-            suggestedFix: getStringArg(res, 'suggestedFix') || '',
-            codeExample: getStringArg(res, 'codeExample') || '',
-            additionalNotes: getStringArg(res, 'additionalNotes') || '',
-          };
+      const persona = resolveSystemPrompt(slot, { model: model?.name });
+      const systemPrompt = [persona, TOOL_INSTRUCTION].filter(Boolean).join('\n\n');
+
+      let prompt = `Analyze this error and provide debugging help:\n\n${errorText}`;
+      if (trace) prompt += `\n\n${formatTraceForPrompt(trace)}`;
+
+      // Matching passages from the local knowledge base, numbered for citation
+      if (knowledge.active) {
+        try {
+          citations = await searchKnowledge(errorText);
+        } catch (err) {
+          console.warn('[DebugTab] Knowledge search failed:', err);
         }
+        if (citations.length > 0) prompt += `\n\n${formatPassagesForPrompt(citations)}`;
       }
 
-      setMessages((prev) => {
-        const updated = [...prev];
-        updated[assistantIdx] = {
-          role: 'assistant',
-          content: result.text || 'Analysis complete.',
-          analysis,
-          timestamp: Date.now(),
-        };
-        return updated;
+      // Attached source around the stack frames, in whatever context is left
+      const budget = DEFAULT_CONTEXT_TOKENS - settings.maxTokens - AGENT_PROMPT_RESERVE_TOKENS
+        - estimateTokens(systemPrompt + prompt);
+      context = trace ? collectSnippets(trace, sourceFiles, budget) : [];
+      if (context.length > 0) prompt += `\n\n${formatSnippetsForPrompt(context)}`;
+
+      const result = await runDebugAgent(prompt, {
+        systemPrompt,
+        temperature: settings.temperature,
+        maxTokens: settings.maxTokens,
+        maxToolCalls: MAX_TOOL_CALLS,
+        maxRetries: MAX_ANALYSIS_RETRIES,
+        onStep: (steps) => { toolTrace = steps; patchReply({ toolTrace: steps }); },
       });
+
+      const { analysis } = result;
+      reply = {
+        content: result.text || (analysis ? 'Analysis complete.' : 'The model returned no text.'),
+        analysis,
+        unstructured: analysis
+          ? undefined
+          : { reason: result.failure ?? 'No analysis was returned.', attempts: result.retries + 1 },
+        timestamp: Date.now(),
+        modelId: model?.id,
+        context: context.length > 0 ? context : undefined,
+        toolTrace: toolTrace.length > 0 ? toolTrace : undefined,
+        citations: citations.length > 0 ? citations : undefined,
+      };
+      patchReply(reply);
+
+      // Re-ask a few times and score how well the answers agree
+      if (analysis && confidenceSamples > 0) {
+        setConfidenceStatus(`Checking consistency (0/${confidenceSamples})...`);
+        try {
+          const confidence = await estimateConfidence(prompt, analysis, {
+            systemPrompt,
+            temperature: settings.temperature,
+            maxTokens: settings.maxTokens,
+            samples: confidenceSamples,
+            onProgress: (done) => setConfidenceStatus(`Checking consistency (${done}/${confidenceSamples})...`),
+          });
+          reply = { ...reply, confidence };
+          patchReply({ confidence });
+        } catch (err) {
+          console.warn('[DebugTab] Confidence check failed:', err);
+        } finally {
+          setConfidenceStatus('');
+        }
+      }
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
-      setMessages((prev) => {
-        const updated = [...prev];
-        updated[assistantIdx] = {
-          role: 'assistant',
-          content: `Error during analysis: ${msg}`,
-          timestamp: Date.now(),
-        };
-        return updated;
-      });
+      reply = {
+        content: `Error during analysis: ${msg}`,
+        analysis: undefined,
+        timestamp: Date.now(),
+        modelId: model?.id,
+        context: context.length > 0 ? context : undefined,
+        toolTrace: toolTrace.length > 0 ? toolTrace : undefined,
+        citations: citations.length > 0 ? citations : undefined,
+      };
+      patchReply(reply);
     } finally {
       setProcessing(false);
     }
-  }, [processing, messages.length, llmLoader]);
+    return reply;
+  }, [setMessages, settings, sourceFiles, knowledge.active, confidenceSamples]);
+
+  const ensureLLM = useCallback(async () => {
+    if (llmLoader.state === 'ready') return true;
+    return llmLoader.ensure();
+  }, [llmLoader]);
+
+  const traceFor = useCallback((text: string) => {
+    const trace = parseStackTrace(text);
+    return trace ? resolveFrames(trace, sourceMaps) : undefined;
+  }, [sourceMaps]);
+
+  /**
+   * Append `errorText` and its analysis to the session. Resolves with the
+   * reply, or null if no model could be loaded. Voice mode analyzes with
+   * the persona assigned to `debugVoice`.
+   */
+  const analyzeError = useCallback(async (errorText: string, slot: PromptSlot = 'debug'): Promise<Reply | null> => {
+    if (!errorText.trim() || processing) return null;
+
+    const trace = traceFor(errorText);
+    const question: Message = { role: 'user', content: errorText, timestamp: Date.now(), trace };
+    // Applied synchronously, so back-to-back batch analyses get the right index
+    const append = (reply: Message) => {
+      let replyIdx = 0;
+      flushSync(() => setMessages((prev) => {
+        replyIdx = prev.length + 1;
+        return [...prev, question, reply];
+      }));
+      return replyIdx;
+    };
+
+    // A known error gets its latest analysis straight away; "Analyze anyway" regenerates
+    const fingerprint = fingerprintError(errorText, trace);
+    const clusters = fingerprint && isReusable(fingerprint) ? await errorClusters.refresh().catch(() => []) : [];
+    const known = findCluster(clusters, fingerprint);
+    if (known) {
+      const { sessionId, sessionName, timestamp, analysis, modelId } = known.latest;
+      const reply: Message = {
+        role: 'assistant',
+        content: `Seen ${known.count} time${known.count === 1 ? '' : 's'} before, so the latest analysis is shown.`,
+        analysis,
+        timestamp: Date.now(),
+        modelId,
+        reusedFrom: { sessionId, sessionName, timestamp },
+      };
+      append(reply);
+      return reply;
+    }
+
+    if (!(await ensureLLM())) return null;
+    const replyIdx = append({ role: 'assistant', content: 'Analyzing error...', timestamp: Date.now() });
+    return runAnalysis(errorText, replyIdx, trace, slot);
+  }, [processing, setMessages, ensureLLM, runAnalysis, traceFor, errorClusters]);
+
+  /**
+   * Queue every distinct error in a log file through `analyzeError`, one at
+   * a time. Cancelling skips the errors still queued.
+   */
+  const analyzeLog = async (file: File) => {
+    let extracted: ExtractedLog;
+    try {
+      extracted = extractErrors(await file.text(), file.name);
+    } catch (err) {
+      alert('Could not read the log: ' + (err instanceof Error ? err.message : String(err)));
+      return;
+    }
+    if (extracted.blocks.length === 0) {
+      alert(`No errors or exceptions were found in ${file.name}.`);
+      return;
+    }
+    if (!(await ensureLLM())) return;
+
+    const items: BatchItem[] = extracted.blocks.map((block) => ({ block, status: 'pending' }));
+    const update = (index: number, patch: Partial<BatchItem>) => {
+      items[index] = { ...items[index], ...patch };
+      setBatch((prev) => prev && { ...prev, items: [...items] });
+    };
+    batchCancelRef.current = false;
+    setBatch({ fileName: file.name, format: extracted.format, items: [...items], truncated: extracted.truncated, running: true });
+
+    // The queue keeps the analyzeError from when it started, whose
+    // `processing` guard saw the tab idle
+    for (let i = 0; i < items.length; i++) {
+      if (batchCancelRef.current) {
+        update(i, { status: 'cancelled' });
+        continue;
+      }
+      update(i, { status: 'running' });
+      const { text, line, count } = items[i].block;
+      const reply = await analyzeError(`[From ${file.name}, line ${line}${count > 1 ? `, logged ${count} times` : ''}]\n${text}`);
+      update(i, reply?.analysis
+        ? { status: 'done', analysis: reply.analysis, reused: !!reply.reusedFrom }
+        : { status: 'failed', error: reply?.unstructured?.reason ?? reply?.content ?? 'No model is loaded.' });
+    }
+    setBatch((prev) => prev && { ...prev, running: false, cancelling: false });
+  };
+
+  const cancelBatch = () => {
+    batchCancelRef.current = true;
+    setBatch((prev) => prev && { ...prev, cancelling: true });
+  };
+
+  /** Replace a user message and re-run the analysis from there. */
+  const editAndRerun = useCallback(async (index: number, text: string) => {
+    setEditingIdx(null);
+    if (processing || !(await ensureLLM())) return;
+
+    const trace = traceFor(text);
+    const history: Message[] = [...messages.slice(0, index), { role: 'user', content: text, timestamp: Date.now(), trace }];
+    setMessages([...history, { role: 'assistant', content: 'Analyzing error...', timestamp: Date.now() }]);
+    await runAnalysis(text, history.length, trace);
+  }, [processing, messages, setMessages, ensureLLM, runAnalysis, traceFor]);
+
+  /** Analyze the same input again, keeping the previous analysis as a branch. */
+  const regenerate = useCallback(async (index: number) => {
+    const source = messages[index - 1];
+    if (processing || source?.role !== 'user' || !(await ensureLLM())) return;
+
+    setMessages((prev) => {
+      const updated = [...prev];
+      const {
+        content, analysis, timestamp, modelId, context, toolTrace, citations, reusedFrom, unstructured, confidence,
+      } = prev[index];
+      const current = {
+        content, analysis, timestamp, modelId, context, toolTrace, citations, reusedFrom, unstructured, confidence,
+      };
+      updated[index] = addVariant<Reply, Message>(prev[index], current, {
+        content: 'Analyzing error...',
+        analysis: undefined,
+        timestamp: Date.now(),
+        modelId: undefined,
+        context: undefined,
+        toolTrace: undefined,
+        citations: undefined,
+        reusedFrom: undefined,
+        unstructured: undefined,
+        confidence: undefined,
+      });
+      return updated;
+    });
+    await runAnalysis(source.content, index, source.trace);
+  }, [processing, messages, setMessages, ensureLLM, runAnalysis]);
+
+  const switchVariant = (index: number, variant: number) => {
+    setMessages((prev) => {
+      const updated = [...prev];
+      updated[index] = selectVariant<Reply, Message>(prev[index], variant);
+      return updated;
+    });
+  };
+
+  /** Delete one message; deleting a user turn also removes the reply to it. */
+  const deleteTurn = (index: number) => {
+    const withReply = messages[index].role === 'user' && messages[index + 1]?.role === 'assistant';
+    if (!confirm(withReply ? 'Delete this message and its analysis?' : 'Delete this message?')) return;
+    setMessages((prev) => prev.filter((_, i) => i !== index && !(withReply && i === index + 1)));
+  };
+
+  /**
+   * Load dropped or picked files: `.map` files become source maps, anything
+   * else (including `.zip` archives) is read as source. Re-adding a file
+   * replaces the earlier copy.
+   */
+  const addAttachments = async (files: File[]) => {
+    const maps: SourceMap[] = [];
+    const failures: string[] = [];
+    for (const file of files.filter((f) => /\.map$/i.test(f.name))) {
+      try {
+        maps.push(parseSourceMap(await file.text(), file.name));
+      } catch (err) {
+        failures.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+    let sources: SourceFile[] = [];
+    try {
+      sources = await readSourceFiles(files.filter((f) => !/\.map$/i.test(f.name)));
+    } catch (err) {
+      failures.push(err instanceof Error ? err.message : String(err));
+    }
+
+    if (maps.length > 0) {
+      setSourceMaps((prev) => [...prev.filter((m) => !maps.some((l) => l.fileName === m.fileName)), ...maps]);
+    }
+    if (sources.length > 0) {
+      setSourceFiles((prev) => [...prev.filter((f) => !sources.some((s) => s.path === f.path)), ...sources]);
+    }
+    if (failures.length > 0) alert('Some files could not be attached:\n' + failures.join('\n'));
+  };
+
+  const handleTextDrop = (e: React.DragEvent) => {
+    if (e.dataTransfer.files.length === 0) return; // plain text drops go into the textarea
+    e.preventDefault();
+    addAttachments([...e.dataTransfer.files]);
+  };
 
   const handleTextSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -208,8 +508,24 @@ Always use the analyze_error tool to structure your response. Be concise but tho
     setCameraActive(false);
   };
 
-  const captureAndAnalyze = async () => {
-    if (!videoRef.current || !canvasRef.current) return;
+  /** Read the text on the canvas and describe it, then hold it for the user to check. */
+  const reviewCanvas = async (canvas: HTMLCanvasElement, source: string) => {
+    const shot = await readScreenshot(canvas, setVisionStatus);
+    setPendingShot({ ...shot, source, imageUrl: canvas.toDataURL('image/png') });
+  };
+
+  /** Show the image on the canvas for cropping before it is read. */
+  const offerCrop = (canvas: HTMLCanvasElement, source: string) => {
+    stopCamera();
+    setPendingShot(null);
+    setMode('vision');
+    setCropShot({ source, imageUrl: canvas.toDataURL('image/png') });
+  };
+
+  /** Crop the canvas to the selected region, if any, and read it. */
+  const confirmCrop = async (region: ImageRegion | null) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !cropShot) return;
 
     // Ensure VLM model is loaded
     if (vlmLoader.state !== 'ready') {
@@ -217,64 +533,58 @@ Always use the analyze_error tool to structure your response. Be concise but tho
       if (!ok) return;
     }
 
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.drawImage(video, 0, 0);
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-
+    const { source } = cropShot;
+    setCropShot(null);
+    if (region) cropCanvas(canvas, region);
     setProcessing(true);
-    stopCamera();
 
     try {
-      const uint8Data = new Uint8Array(imageData.data.buffer);
-      const result = await VLMWorkerBridge.shared.process(
-        uint8Data,
-        canvas.width,
-        canvas.height,
-        'Analyze this screenshot of a programming error or console output. Describe what you see and identify any errors or issues visible in the image.'
-      );
-
-      if (result.text) {
-        await analyzeError(`[From Screenshot]\n${result.text}`);
-      }
+      await reviewCanvas(canvas, source);
     } catch (err) {
       alert('Vision analysis failed: ' + (err instanceof Error ? err.message : String(err)));
     } finally {
+      setVisionStatus('');
       setProcessing(false);
     }
   };
 
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  /** Analyze the reviewed screenshot text together with its description. */
+  const analyzeScreenshot = async () => {
+    if (!pendingShot) return;
+    const errorText = screenshotPrompt(pendingShot.source, pendingShot);
+    setPendingShot(null);
+    await analyzeError(errorText);
+  };
 
-    // Ensure VLM model is loaded
-    if (vlmLoader.state !== 'ready') {
-      const ok = await vlmLoader.ensure();
-      if (!ok) return;
-    }
+  const captureAndAnalyze = () => {
+    if (!videoRef.current || !canvasRef.current) return;
 
-    setProcessing(true);
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.drawImage(video, 0, 0);
+    offerCrop(canvas, 'Screenshot');
+  };
+
+  /** Draw a picked, pasted or dropped image onto the canvas and offer it for cropping. */
+  const openImage = async (file: Blob, source: string) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const url = URL.createObjectURL(file);
 
     try {
       const img = new Image();
-      const url = URL.createObjectURL(file);
-
       await new Promise((resolve, reject) => {
         img.onload = resolve;
-        img.onerror = reject;
+        img.onerror = () => reject(new Error('the file is not a readable image'));
         img.src = url;
       });
 
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-
       canvas.width = img.width;
       canvas.height = img.height;
 
@@ -282,175 +592,234 @@ Always use the analyze_error tool to structure your response. Be concise but tho
       if (!ctx) return;
 
       ctx.drawImage(img, 0, 0);
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      URL.revokeObjectURL(url);
-
-      const uint8Data = new Uint8Array(imageData.data.buffer);
-      const result = await VLMWorkerBridge.shared.process(
-        uint8Data,
-        canvas.width,
-        canvas.height,
-        'Analyze this screenshot of a programming error or console output. Describe what you see and identify any errors or issues visible in the image.'
-      );
-
-      if (result.text) {
-        await analyzeError(`[From Uploaded Image]\n${result.text}`);
-      }
+      offerCrop(canvas, source);
     } catch (err) {
-      alert('Image analysis failed: ' + (err instanceof Error ? err.message : String(err)));
+      alert('Image could not be opened: ' + (err instanceof Error ? err.message : String(err)));
     } finally {
-      setProcessing(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+      URL.revokeObjectURL(url);
     }
   };
 
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) await openImage(file, 'Uploaded Image');
+  };
+
+  /** Images dropped on the message list are opened for Vision; other files are attached as source. */
+  const handleListDrop = (e: React.DragEvent) => {
+    setDropActive(false);
+    if (e.dataTransfer.files.length === 0) return;
+    e.preventDefault();
+    if (busy) return;
+    const files = [...e.dataTransfer.files];
+    const image = files.find((f) => f.type.startsWith('image/'));
+    if (image) openImage(image, 'Dropped Image');
+    else addAttachments(files);
+  };
+
+  pasteRef.current = (e: ClipboardEvent) => {
+    const image = [...(e.clipboardData?.files ?? [])].find((f) => f.type.startsWith('image/'));
+    if (!image || busy) return;
+    e.preventDefault();
+    openImage(image, 'Pasted Image');
+  };
+
   // Voice mode
+  const ensureVoiceModels = async (): Promise<boolean> => {
+    setVoiceState('loading-models');
+    const results = await Promise.all([
+      vadLoader.ensure(),
+      sttLoader.ensure(),
+      voiceLlmLoader.ensure(),
+      ttsLoader.ensure(),
+    ]);
+    setVoiceState('idle');
+    if (results.every(Boolean)) return true;
+    setVoiceStatus('Failed to load one or more voice models.');
+    return false;
+  };
+
+  const voiceModelsMissing = () => !ModelManager.getLoadedModel(ModelCategory.Audio)
+    || !ModelManager.getLoadedModel(ModelCategory.SpeechRecognition)
+    || !ModelManager.getLoadedModel(ModelCategory.Language)
+    || !ModelManager.getLoadedModel(ModelCategory.SpeechSynthesis);
+
   const startVoiceDebugging = async () => {
-    try {
-      // Ensure all models are loaded
-      const anyMissing = !ModelManager.getLoadedModel(ModelCategory.Audio)
-        || !ModelManager.getLoadedModel(ModelCategory.SpeechRecognition)
-        || !ModelManager.getLoadedModel(ModelCategory.Language)
-        || !ModelManager.getLoadedModel(ModelCategory.SpeechSynthesis);
-
-      if (anyMissing) {
-        setVoiceStatus('Loading voice models...');
-        // Load the essential models
-        await llmLoader.ensure();
-        // Note: VAD, STT, TTS loaders would need to be added similar to VoiceTab
-        setVoiceStatus('Models loaded. Click Start again.');
-        return;
-      }
+    setVoiceStatus('');
+    voiceStoppedRef.current = false;
 
-      setVoiceStatus('Initializing voice pipeline...');
-      setProcessing(true);
+    // Load models if needed
+    if (voiceModelsMissing() && !(await ensureVoiceModels())) return;
+    if (voiceStoppedRef.current) return;
 
-      const mic = new AudioCapture({ sampleRate: 16000 });
+    try {
+      const mic = new AudioCapture({ sampleRate: VOICE_SAMPLE_RATE });
       micRef.current = mic;
 
-      if (!voicePipelineRef.current) {
-        voicePipelineRef.current = new VoicePipeline();
-      }
-
+      await applyVADThreshold(voiceInput.settings.vadThreshold);
       VAD.reset();
 
       vadUnsubRef.current = VAD.onSpeechActivity((activity: SpeechActivity) => {
         if (activity === SpeechActivity.Ended) {
           const segment = VAD.popSpeechSegment();
-          if (segment && segment.samples.length > 1600) {
+          if (segment && segment.samples.length >= minSegmentSamples(voiceInput.settings)) {
             processVoiceSpeech(segment.samples);
           }
         }
       });
 
+      setVoiceState('listening');
       await mic.start(
         (chunk: Float32Array) => { VAD.processSamples(chunk); },
         (_level: number) => { /* audio level */ },
       );
-
-      setVoiceStatus('Listening... Speak your error or issue.');
-      setProcessing(false);
     } catch (err) {
       setVoiceStatus('Failed to start: ' + (err instanceof Error ? err.message : String(err)));
-      setProcessing(false);
+      setVoiceState('idle');
     }
   };
 
+  /** Transcribe a spoken error, analyze it like typed text and read a summary aloud. */
   const processVoiceSpeech = async (audioData: Float32Array) => {
-    const pipeline = voicePipelineRef.current;
-    if (!pipeline) return;
-
     micRef.current?.stop();
     vadUnsubRef.current?.();
-    setVoiceStatus('Processing...');
 
     try {
-      const result = await pipeline.processTurn(audioData, {
-        maxTokens: 150,
-        temperature: 0.7,
-        systemPrompt: 'You are a debugging assistant. Analyze errors and provide concise debugging help.',
-      }, {
-        onTranscription: (text: string) => {
-          setVoiceStatus(`You said: "${text}"`);
-          setMessages((prev) => [
-            ...prev,
-            { role: 'user', content: text, timestamp: Date.now() },
-          ]);
-        },
-        onResponseToken: (_token: string, accumulated: string) => {
-          setMessages((prev) => {
-            const lastMsg = prev[prev.length - 1];
-            if (lastMsg && lastMsg.role === 'assistant') {
-              const updated = [...prev];
-              updated[updated.length - 1] = {
-                ...lastMsg,
-                content: accumulated,
-              };
-              return updated;
-            } else {
-              return [...prev, { role: 'assistant', content: accumulated, timestamp: Date.now() }];
-            }
-          });
-        },
-        onResponseComplete: (text: string) => {
-          setMessages((prev) => {
-            const lastMsg = prev[prev.length - 1];
-            if (lastMsg && lastMsg.role === 'assistant') {
-              const updated = [...prev];
-              updated[updated.length - 1] = {
-                ...lastMsg,
-                content: text,
-              };
-              return updated;
-            }
-            return prev;
-          });
-          setVoiceStatus('Speaking response...');
-        },
-        onSynthesisComplete: async () => {
-          setVoiceStatus('Response complete. Stopped.');
-          setProcessing(false);
-        },
-      });
-
-      if (result) {
-        setVoiceStatus('Turn complete');
+      setVoiceState('transcribing');
+      const transcript = (await STT.transcribe(audioData)).text.trim();
+      if (!transcript) {
+        setVoiceStatus(`No speech was recognized. ${pushToTalk ? 'Hold to talk' : 'Click Start'} to try again.`);
+        return;
+      }
+      if (voiceStoppedRef.current) return;
+
+      setVoiceState('analyzing');
+      setVoiceStatus(`You said: "${transcript}"`);
+      const reply = await analyzeError(transcript, 'debugVoice');
+      if (!reply || voiceStoppedRef.current) return;
+
+      setVoiceState('speaking');
+      const speech = reply.analysis
+        ? spokenAnalysis(reply.analysis)
+        : firstSentences(speakableText(reply.content), 3);
+      const { audioData: audio, sampleRate } = await TTS.synthesize(speech);
+      if (voiceStoppedRef.current) return;
+
+      const player = new AudioPlayback({ sampleRate });
+      playbackRef.current = player;
+      try {
+        await player.play(audio, sampleRate);
+      } finally {
+        player.dispose();
+        playbackRef.current = null;
       }
     } catch (err) {
       setVoiceStatus('Error: ' + (err instanceof Error ? err.message : String(err)));
-      setProcessing(false);
+    } finally {
+      setVoiceState('idle');
+    }
+  };
+
+  /** Push-to-talk pressed: record until it is released. */
+  const beginTalk = async () => {
+    recordingRef.current = true;
+    setVoiceStatus('');
+    voiceStoppedRef.current = false;
+    if (voiceModelsMissing()) {
+      recordingRef.current = false;
+      await ensureVoiceModels();
+      return;
+    }
+
+    try {
+      const mic = new AudioCapture({ sampleRate: VOICE_SAMPLE_RATE });
+      micRef.current = mic;
+      setVoiceState('recording');
+      await mic.start();
+      // Released while the mic was opening
+      if (!recordingRef.current) mic.stop();
+    } catch (err) {
+      recordingRef.current = false;
+      setVoiceStatus('Failed to start: ' + (err instanceof Error ? err.message : String(err)));
+      setVoiceState('idle');
     }
   };
 
-  const stopVoiceDebugging = async () => {
+  /** Push-to-talk released: analyze what was recorded. */
+  const endTalk = () => {
+    if (!recordingRef.current) return;
+    recordingRef.current = false;
+    const samples = micRef.current?.drainBuffer() ?? new Float32Array(0);
+    micRef.current?.stop();
+    if (samples.length > 0 && samples.length >= minSegmentSamples(voiceInput.settings)) {
+      processVoiceSpeech(samples);
+    } else {
+      setVoiceStatus('Too short: keep holding while you speak.');
+      setVoiceState('idle');
+    }
+  };
+
+  const talkButton = usePushToTalk(
+    mode === 'voice' && pushToTalk && (!busy || voiceState === 'recording'),
+    beginTalk,
+    endTalk,
+  );
+
+  const stopVoiceDebugging = () => {
+    voiceStoppedRef.current = true;
+    recordingRef.current = false;
     micRef.current?.stop();
     vadUnsubRef.current?.();
-    setVoiceStatus('');
-    setProcessing(false);
+    playbackRef.current?.stop();
+    setVoiceState('idle');
   };
 
-  const exportReport = () => {
-    const report = messages
-      .map((msg) => {
-        let text = `[${new Date(msg.timestamp).toLocaleString()}] ${msg.role.toUpperCase()}:\n${msg.content}`;
-        if (msg.analysis) {
-          text += `\n\n--- ANALYSIS ---\nError Type: ${msg.analysis.errorType}\nSeverity: ${msg.analysis.severity}\nRoot Cause: ${msg.analysis.rootCause}\nSuggested Fix: ${msg.analysis.suggestedFix}\nCode Example:\n${msg.analysis.codeExample}\nNotes: ${msg.analysis.additionalNotes}`;
-        }
-        return text;
-      })
-      .join('\n\n---\n\n');
-
-    const blob = new Blob([report], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `debug-report-${Date.now()}.txt`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const exportReport = (format: ReportFormat) => {
+    downloadReport(format, messages, {
+      sessionName: session.sessionName,
+      modelId: ModelManager.getLoadedModel(ModelCategory.Language)?.id,
+    });
   };
 
+  /** Append the messages of a previously exported JSON report to this session. */
+  const importReport = async (file: File) => {
+    try {
+      const report = parseJSONReport(await file.text());
+      if (report.messages.length === 0) {
+        alert('The report has no messages to import.');
+        return;
+      }
+      setMessages((prev) => [...prev, ...report.messages]);
+    } catch (err) {
+      alert('Import failed: ' + (err instanceof Error ? err.message : String(err)));
+    }
+  };
+
+  /** "seen ×N" for an analysis whose error has been analyzed more than once. */
+  const recurrenceBadge = (index: number) => {
+    const question = messages[index - 1];
+    if (question?.role !== 'user') return null;
+    const cluster = findCluster(errorClusters.clusters, fingerprintError(question.content, question.trace));
+    if (!cluster || cluster.count < 2) return null;
+    return (
+      <span
+        className="cluster-badge"
+        title={`First seen ${new Date(cluster.firstSeen).toLocaleString()}, last seen ${new Date(cluster.lastSeen).toLocaleString()}`}
+      >
+        seen ×{cluster.count}
+      </span>
+    );
+  };
+
+  // Which voice models still need loading?
+  const pendingVoiceLoaders = [
+    { label: 'VAD', loader: vadLoader },
+    { label: 'STT', loader: sttLoader },
+    { label: 'LLM', loader: voiceLlmLoader },
+    { label: 'TTS', loader: ttsLoader },
+  ].filter((l) => l.loader.state !== 'ready');
+
   const clearHistory = () => {
     if (confirm('Clear all messages?')) {
       setMessages([]);
@@ -464,26 +833,48 @@ Always use the analyze_error tool to structure your response. Be concise but tho
         <p className="debug-subtitle">Analyze errors with AI - Text, Vision, or Voice</p>
       </div>
 
+      <SessionBar
+        sessionId={session.sessionId}
+        sessionName={session.sessionName}
+        sessions={session.sessions}
+        onNew={session.newSession}
+        onOpen={session.openSession}
+        onRename={session.rename}
+        onDelete={session.remove}
+        onSearch={session.search}
+        disabled={busy}
+      />
+
+      <SettingsDrawer scope="debug" {...generation} disabled={busy} />
+      <KnowledgeDrawer {...knowledge} disabled={busy} />
+      <RecurringErrors
+        clusters={errorClusters.clusters}
+        currentSessionId={session.sessionId}
+        onRefresh={() => errorClusters.refresh().catch((err) => console.warn('[DebugTab] Cluster refresh failed:', err))}
+        onOpenSession={session.openSession}
+        disabled={busy}
+      />
+
       {/* Mode Selector */}
       <div className="mode-selector">
         <button
           className={`mode-btn ${mode === 'text' ? 'active' : ''}`}
           onClick={() => setMode('text')}
-          disabled={processing}
+          disabled={busy}
         >
           📝 Text
         </button>
         <button
           className={`mode-btn ${mode === 'vision' ? 'active' : ''}`}
           onClick={() => setMode('vision')}
-          disabled={processing}
+          disabled={busy}
         >
           📷 Vision
         </button>
         <button
           className={`mode-btn ${mode === 'voice' ? 'active' : ''}`}
           onClick={() => setMode('voice')}
-          disabled={processing}
+          disabled={busy}
         >
           🎤 Voice
         </button>
@@ -494,9 +885,15 @@ Always use the analyze_error tool to structure your response. Be concise but tho
         <ModelBanner
           state={llmLoader.state}
           progress={llmLoader.progress}
+          download={llmLoader.download}
+          onPause={llmLoader.pause}
+          onCancel={llmLoader.cancel}
           error={llmLoader.error}
           onLoad={llmLoader.ensure}
           label="LLM for Debug Analysis"
+          models={llmLoader.models}
+          selectedId={llmLoader.selectedId}
+          onSelect={llmLoader.select}
         />
       )}
 
@@ -505,39 +902,70 @@ Always use the analyze_error tool to structure your response. Be concise but tho
           <ModelBanner
             state={vlmLoader.state}
             progress={vlmLoader.progress}
+            download={vlmLoader.download}
+            onPause={vlmLoader.pause}
+            onCancel={vlmLoader.cancel}
             error={vlmLoader.error}
             onLoad={vlmLoader.ensure}
             label="VLM for Screenshot Analysis"
+            models={vlmLoader.models}
+            selectedId={vlmLoader.selectedId}
+            onSelect={vlmLoader.select}
           />
           <ModelBanner
             state={llmLoader.state}
             progress={llmLoader.progress}
+            download={llmLoader.download}
+            onPause={llmLoader.pause}
+            onCancel={llmLoader.cancel}
             error={llmLoader.error}
             onLoad={llmLoader.ensure}
             label="LLM for Debug Analysis"
+            models={llmLoader.models}
+            selectedId={llmLoader.selectedId}
+            onSelect={llmLoader.select}
           />
         </>
       )}
 
-      {mode === 'voice' && (
+      {mode === 'voice' && pendingVoiceLoaders.length > 0 && voiceState === 'idle' && (
         <ModelBanner
-          state={llmLoader.state}
-          progress={llmLoader.progress}
-          error={llmLoader.error}
-          onLoad={llmLoader.ensure}
-          label="Voice Pipeline"
+          state={pendingVoiceLoaders[0].loader.state}
+          progress={pendingVoiceLoaders[0].loader.progress}
+          download={pendingVoiceLoaders[0].loader.download}
+          onPause={pendingVoiceLoaders[0].loader.pause}
+          onCancel={pendingVoiceLoaders[0].loader.cancel}
+          error={pendingVoiceLoaders[0].loader.error}
+          onLoad={ensureVoiceModels}
+          label={`Voice Debugging (${pendingVoiceLoaders.map((l) => l.label).join(', ')})`}
         />
       )}
 
+      {batch && (
+        <BatchPanel batch={batch} onCancel={cancelBatch} onClose={() => setBatch(null)} />
+      )}
+
       {/* Messages Display */}
-      <div className="message-list debug-message-list" ref={listRef}>
+      <div
+        className={`message-list debug-message-list${dropActive ? ' drop-active' : ''}`}
+        ref={listRef}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setDropActive(true);
+        }}
+        onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropActive(false); }}
+        onDrop={handleListDrop}
+      >
         {messages.length === 0 && (
           <div className="empty-state">
             <h3>Debug Assistant Ready</h3>
             <p>
               {mode === 'text' && 'Paste your error message or stack trace below'}
-              {mode === 'vision' && 'Upload a screenshot or use camera to capture errors'}
-              {mode === 'voice' && 'Click Start to describe your error verbally'}
+              {mode === 'vision' && 'Upload, paste or drop a screenshot, or use the camera to capture errors'}
+              {mode === 'voice' && (pushToTalk
+                ? 'Hold Space or the button and describe your error verbally'
+                : 'Click Start to describe your error verbally')}
             </p>
           </div>
         )}
@@ -551,42 +979,126 @@ Always use the analyze_error tool to structure your response. Be concise but tho
                   {new Date(msg.timestamp).toLocaleTimeString()}
                 </span>
               </div>
-              <p className="message-content">{msg.content}</p>
+              {editingIdx === i ? (
+                <MessageEditor
+                  initialText={msg.content}
+                  onSave={(text) => editAndRerun(i, text)}
+                  onCancel={() => setEditingIdx(null)}
+                />
+              ) : msg.role === 'assistant'
+                ? <Markdown text={msg.content} className="message-content" />
+                : <p className="message-content">{msg.content}</p>}
+
+              {msg.reusedFrom && (
+                <div className="reuse-banner">
+                  <span>
+                    ♻️ Known error · analysis from <strong>{msg.reusedFrom.sessionName}</strong>,{' '}
+                    {new Date(msg.reusedFrom.timestamp).toLocaleString()}
+                  </span>
+                  {!busy && i === messages.length - 1 && (
+                    <button type="button" className="btn btn-sm" onClick={() => regenerate(i)}>
+                      Analyze anyway
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {msg.toolTrace && (
+                <ToolTrace steps={msg.toolTrace} live={processing && i === messages.length - 1} />
+              )}
 
               {msg.analysis && (
                 <div className="debug-analysis">
                   <div className="analysis-header">
                     <span className="error-type">{msg.analysis.errorType}</span>
+                    {recurrenceBadge(i)}
+                    {msg.confidence && <ConfidenceBadge confidence={msg.confidence} />}
                     <span className={`severity-badge severity-${msg.analysis.severity}`}>
                       {msg.analysis.severity.toUpperCase()}
                     </span>
                   </div>
 
+                  {processing && i === messages.length - 1 && confidenceStatus && (
+                    <p className="panel-hint">🎲 {confidenceStatus}</p>
+                  )}
+
                   <div className="analysis-section">
                     <strong>Root Cause:</strong>
-                    <p>{msg.analysis.rootCause}</p>
+                    <Markdown text={msg.analysis.rootCause} />
                   </div>
 
                   <div className="analysis-section">
                     <strong>Suggested Fix:</strong>
-                    <p>{msg.analysis.suggestedFix}</p>
+                    <Markdown text={msg.analysis.suggestedFix} />
                   </div>
 
                   {msg.analysis.codeExample && (
                     <div className="analysis-section">
                       <strong>Code Example:</strong>
-                      <pre className="code-block">{msg.analysis.codeExample}</pre>
+                      {/* Models sometimes fence the example themselves */}
+                      {msg.analysis.codeExample.includes('```')
+                        ? <Markdown text={msg.analysis.codeExample} />
+                        : <CodeBlock code={msg.analysis.codeExample} />}
                     </div>
                   )}
 
                   {msg.analysis.additionalNotes && (
                     <div className="analysis-section">
                       <strong>Additional Notes:</strong>
-                      <p>{msg.analysis.additionalNotes}</p>
+                      <Markdown text={msg.analysis.additionalNotes} />
+                    </div>
+                  )}
+
+                  {msg.citations && (
+                    <div className="analysis-section">
+                      <strong>Sources:</strong>
+                      <CitationList citations={msg.citations} />
+                    </div>
+                  )}
+
+                  {msg.context && (
+                    <div className="analysis-section">
+                      <strong>Source Context:</strong>
+                      <SourceContextList snippets={msg.context} />
+                    </div>
+                  )}
+
+                  {messages[i - 1]?.trace && (
+                    <div className="analysis-section">
+                      <strong>Stack Frames:</strong>
+                      <StackFrameList trace={messages[i - 1].trace!} />
                     </div>
                   )}
                 </div>
               )}
+
+              {msg.unstructured && (
+                <div className="debug-analysis analysis-unstructured">
+                  <div className="analysis-header">
+                    <span className="error-type">⚠️ Unstructured answer</span>
+                  </div>
+                  <p>
+                    {msg.unstructured.reason} No valid analysis after {msg.unstructured.attempts} attempt
+                    {msg.unstructured.attempts === 1 ? '' : 's'}, so only the model's plain answer is shown above.
+                    Regenerate to try again.
+                  </p>
+                </div>
+              )}
+
+              {!busy && editingIdx !== i && (
+                <MessageActions
+                  onEdit={msg.role === 'user' ? () => setEditingIdx(i) : undefined}
+                  onRegenerate={
+                    msg.role === 'assistant' && i === messages.length - 1 && messages[i - 1]?.role === 'user'
+                      ? () => regenerate(i)
+                      : undefined
+                  }
+                  onDelete={() => deleteTurn(i)}
+                  variantIndex={msg.variantIndex}
+                  variantCount={msg.variants?.length}
+                  onSelectVariant={(v) => switchVariant(i, v)}
+                />
+              )}
             </div>
           </div>
         ))}
@@ -601,22 +1113,72 @@ Always use the analyze_error tool to structure your response. Be concise but tho
               placeholder="Paste your error message, stack trace, or describe the bug..."
               value={input}
               onChange={(e) => setInput(e.target.value)}
-              disabled={processing}
+              onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) e.preventDefault(); }}
+              onDrop={handleTextDrop}
+              disabled={busy}
               rows={4}
             />
+            <AttachmentBar
+              maps={sourceMaps}
+              sourceFiles={sourceFiles}
+              onAdd={addAttachments}
+              onRemoveMap={(name) => setSourceMaps((prev) => prev.filter((m) => m.fileName !== name))}
+              onClearSources={() => setSourceFiles([])}
+              disabled={busy}
+            />
             <div className="form-actions">
-              <button type="submit" className="btn btn-primary" disabled={!input.trim() || processing}>
-                {processing ? 'Analyzing...' : 'Analyze Error'}
+              <button type="submit" className="btn btn-primary" disabled={!input.trim() || busy}>
+                {busy ? 'Analyzing...' : 'Analyze Error'}
               </button>
+              <button
+                type="button"
+                className="btn"
+                onClick={() => logInputRef.current?.click()}
+                disabled={busy}
+                title="Analyze every distinct error in a plain text, JSON-lines or DevTools console log"
+              >
+                📄 Analyze Log File
+              </button>
+              <input
+                ref={logInputRef}
+                type="file"
+                accept=".log,.txt,.json,.jsonl,.ndjson,text/*"
+                style={{ display: 'none' }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) analyzeLog(file);
+                }}
+              />
+              <label
+                className="confidence-select"
+                title="Ask the model this many more times and score how well the answers agree"
+              >
+                Confidence check
+                <select
+                  value={confidenceSamples}
+                  onChange={(e) => {
+                    const samples = Number(e.target.value);
+                    saveConfidenceSamples(samples);
+                    setConfidenceSamples(samples);
+                  }}
+                  disabled={busy}
+                >
+                  {CONFIDENCE_SAMPLE_OPTIONS.map((n) => (
+                    <option key={n} value={n}>{n === 0 ? 'Off' : `${n} samples`}</option>
+                  ))}
+                </select>
+              </label>
+              <ReportMenu
+                onExport={exportReport}
+                onImport={importReport}
+                canExport={messages.length > 0}
+                disabled={busy}
+              />
               {messages.length > 0 && (
-                <>
-                  <button type="button" className="btn" onClick={exportReport}>
-                    Export Report
-                  </button>
-                  <button type="button" className="btn btn-secondary" onClick={clearHistory}>
-                    Clear
-                  </button>
-                </>
+                <button type="button" className="btn btn-secondary" onClick={clearHistory}>
+                  Clear
+                </button>
               )}
             </div>
           </form>
@@ -632,34 +1194,56 @@ Always use the analyze_error tool to structure your response. Be concise but tho
               style={{ display: 'none' }}
             />
 
+            {visionStatus && <p className="panel-hint">🔎 {visionStatus}</p>}
+
+            {cropShot && (
+              <ScreenshotCropper
+                imageUrl={cropShot.imageUrl}
+                onConfirm={confirmCrop}
+                onCancel={() => setCropShot(null)}
+                disabled={busy}
+              />
+            )}
+
+            {pendingShot && (
+              <ScreenshotReview
+                shot={pendingShot}
+                onChangeText={(text) => setPendingShot((prev) => prev && { ...prev, text })}
+                onAnalyze={analyzeScreenshot}
+                onDiscard={() => setPendingShot(null)}
+                disabled={busy}
+              />
+            )}
+
             {!cameraActive ? (
               <div className="vision-buttons">
                 <button
                   className="btn btn-primary"
                   onClick={() => fileInputRef.current?.click()}
-                  disabled={processing}
+                  disabled={busy}
                 >
                   📁 Upload Screenshot
                 </button>
-                <button className="btn" onClick={startCamera} disabled={processing}>
+                <button className="btn" onClick={startCamera} disabled={busy}>
                   📷 Use Camera
                 </button>
+                <ReportMenu
+                  onExport={exportReport}
+                  onImport={importReport}
+                  canExport={messages.length > 0}
+                  disabled={busy}
+                />
                 {messages.length > 0 && (
-                  <>
-                    <button className="btn" onClick={exportReport}>
-                      Export Report
-                    </button>
-                    <button className="btn btn-secondary" onClick={clearHistory}>
-                      Clear
-                    </button>
-                  </>
+                  <button className="btn btn-secondary" onClick={clearHistory}>
+                    Clear
+                  </button>
                 )}
               </div>
             ) : (
               <div className="camera-preview">
                 <video ref={videoRef} className="video-preview" />
                 <div className="camera-actions">
-                  <button className="btn btn-primary" onClick={captureAndAnalyze} disabled={processing}>
+                  <button className="btn btn-primary" onClick={captureAndAnalyze} disabled={busy}>
                     📸 Capture & Analyze
                   </button>
                   <button className="btn btn-secondary" onClick={stopCamera}>
@@ -668,23 +1252,32 @@ Always use the analyze_error tool to structure your response. Be concise but tho
                 </div>
               </div>
             )}
-
-            <canvas ref={canvasRef} style={{ display: 'none' }} />
           </div>
         )}
 
         {mode === 'voice' && (
           <div className="debug-voice-controls">
-            {voiceStatus && (
+            {voiceState !== 'idle' && (
               <div className="voice-status">
                 <span className="status-indicator" />
-                {voiceStatus}
+                {VOICE_STATE_LABELS[voiceState]}
               </div>
             )}
+            {voiceStatus && <p className="panel-hint">{voiceStatus}</p>}
+            <VoiceInputControls {...voiceInput} disabled={voiceState !== 'idle'} />
 
             <div className="voice-buttons">
-              {!processing && !voiceStatus ? (
-                <button className="btn btn-primary btn-large" onClick={startVoiceDebugging}>
+              {pushToTalk && (voiceState === 'idle' || voiceState === 'recording') ? (
+                <button
+                  className="btn btn-primary btn-large"
+                  {...talkButton}
+                  disabled={busy && voiceState !== 'recording'}
+                  title="Or hold Space"
+                >
+                  🎤 Hold to Describe Error
+                </button>
+              ) : voiceState === 'idle' ? (
+                <button className="btn btn-primary btn-large" onClick={startVoiceDebugging} disabled={busy}>
                   🎤 Start Voice Debugging
                 </button>
               ) : (
@@ -693,20 +1286,24 @@ Always use the analyze_error tool to structure your response. Be concise but tho
                 </button>
               )}
 
+              <ReportMenu
+                onExport={exportReport}
+                onImport={importReport}
+                canExport={messages.length > 0}
+                disabled={busy}
+              />
               {messages.length > 0 && (
-                <>
-                  <button className="btn" onClick={exportReport}>
-                    Export Report
-                  </button>
-                  <button className="btn btn-secondary" onClick={clearHistory}>
-                    Clear
-                  </button>
-                </>
+                <button className="btn btn-secondary" onClick={clearHistory}>
+                  Clear
+                </button>
               )}
             </div>
           </div>
         )}
       </div>
+
+      {/* Screenshots are drawn here before cropping and reading */}
+      <canvas ref={canvasRef} style={{ display: 'none' }} />
     </div>
   );
 }
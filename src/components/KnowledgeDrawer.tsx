@@ -0,0 +1,93 @@
+import { useRef, useState } from 'react';
+import type { KnowledgeBaseResult } from '../hooks/useKnowledgeBase';
+import type { KnowledgeDocKind } from '../lib/knowledgeBase';
+import { formatBytes } from '../lib/format';
+
+interface Props extends KnowledgeBaseResult {
+  disabled?: boolean;
+}
+
+const KIND_ICONS: Record<KnowledgeDocKind, string> = {
+  markdown: '📝',
+  text: '📄',
+  report: '🐞',
+};
+
+/** Collapsible manager for the documents Debug analyses can cite. */
+export function KnowledgeDrawer({
+  docs, enabled, setEnabled, busy, add, remove, refresh, disabled,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const off = disabled || busy;
+  const passages = docs.reduce((sum, d) => sum + d.chunkCount, 0);
+
+  const toggle = () => {
+    if (!open) refresh().catch(() => {});
+    setOpen((o) => !o);
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (confirm(`Remove "${name}" from the knowledge base?`)) remove(id);
+  };
+
+  return (
+    <div className="settings-drawer knowledge-drawer">
+      <button className="btn btn-sm settings-toggle" onClick={toggle} aria-expanded={open}>
+        📚 Knowledge base{docs.length > 0 && ` (${docs.length})`} {open ? '▴' : '▾'}
+      </button>
+
+      {open && (
+        <div className="settings-body">
+          <div className="knowledge-actions">
+            <label className="drawer-check">
+              <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} disabled={disabled} />
+              Use in analyses
+            </label>
+            <button className="btn btn-sm" onClick={() => fileRef.current?.click()} disabled={off}>
+              {busy ? 'Indexing...' : '➕ Add documents'}
+            </button>
+            <span className="knowledge-mode" title="Passages are ranked by keyword match (BM25)">Search: BM25</span>
+          </div>
+
+          {docs.length === 0 ? (
+            <p className="panel-hint">
+              Add Markdown runbooks, FAQs, text notes or debug reports exported as JSON. The most relevant passages are
+              added to each analysis and cited in its card.
+            </p>
+          ) : (
+            <>
+              <ul className="knowledge-docs">
+                {docs.map((d) => (
+                  <li key={d.id}>
+                    <span className="knowledge-doc-name" title={d.name}>{KIND_ICONS[d.kind]} {d.name}</span>
+                    <span className="knowledge-doc-meta">
+                      {d.chunkCount} passage{d.chunkCount === 1 ? '' : 's'} · {formatBytes(d.size)}
+                    </span>
+                    <button className="btn btn-sm" onClick={() => handleDelete(d.id, d.name)} disabled={off} title="Remove">
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <p className="panel-hint">{passages} passages indexed. Adding a file with the same name replaces it.</p>
+            </>
+          )}
+
+          <input
+            ref={fileRef}
+            type="file"
+            multiple
+            accept=".md,.markdown,.mdx,.txt,.json,text/*"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const files = [...(e.target.files ?? [])];
+              e.target.value = '';
+              if (files.length) add(files);
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useMemo, type ReactNode } from 'react';
+import { parseMarkdown, type Block, type Inline } from '../lib/markdown';
+import { CodeBlock } from './CodeBlock';
+
+interface Props {
+  text: string;
+  className?: string;
+}
+
+function renderInline(nodes: Inline[]): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': return node.text;
+      case 'code': return <code key={i} className="inline-code">{node.text}</code>;
+      case 'strong': return <strong key={i}>{renderInline(node.children)}</strong>;
+      case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+      case 'del': return <del key={i}>{renderInline(node.children)}</del>;
+      case 'break': return <br key={i} />;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlocks(blocks: Block[]): ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph': return <p key={i}>{renderInline(block.children)}</p>;
+      case 'heading': {
+        const Tag = `h${Math.min(6, block.level + 2)}` as 'h3';
+        return <Tag key={i} className="md-heading">{renderInline(block.children)}</Tag>;
+      }
+      case 'code': return <CodeBlock key={i} code={block.code} lang={block.lang} />;
+      case 'rule': return <hr key={i} />;
+      case 'quote': return <blockquote key={i}>{renderBlocks(block.children)}</blockquote>;
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j}>{renderBlocks(item)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start}>{items}</ol>
+          : <ul key={i}>{items}</ul>;
+      }
+      case 'table':
+        return (
+          <div key={i} className="md-table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  {block.head.map((cell, c) => (
+                    <th key={c} style={{ textAlign: block.align[c] ?? undefined }}>{renderInline(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, c) => (
+                      <td key={c} style={{ textAlign: block.align[c] ?? undefined }}>{renderInline(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  });
+}
+
+/**
+ * Render untrusted Markdown (model output) as React elements. No HTML is
+ * ever injected; see `lib/markdown.ts` for what is supported.
+ */
+export function Markdown({ text, className }: Props) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={`markdown ${className ?? ''}`.trim()}>{renderBlocks(blocks)}</div>;
+}
@@ -0,0 +1,48 @@
+interface Props {
+  /** Present for user messages: edit and re-run from here. */
+  onEdit?: () => void;
+  /** Present for the latest assistant reply. */
+  onRegenerate?: () => void;
+  onDelete: () => void;
+  variantIndex?: number;
+  variantCount?: number;
+  onSelectVariant?: (index: number) => void;
+  disabled?: boolean;
+}
+
+export function MessageActions({
+  onEdit, onRegenerate, onDelete, variantIndex = 0, variantCount = 0, onSelectVariant, disabled,
+}: Props) {
+  return (
+    <div className="message-actions">
+      {variantCount > 1 && onSelectVariant && (
+        <span className="variant-switch">
+          <button
+            type="button"
+            onClick={() => onSelectVariant(variantIndex - 1)}
+            disabled={disabled || variantIndex === 0}
+            title="Previous reply"
+          >
+            ‹
+          </button>
+          {variantIndex + 1}/{variantCount}
+          <button
+            type="button"
+            onClick={() => onSelectVariant(variantIndex + 1)}
+            disabled={disabled || variantIndex === variantCount - 1}
+            title="Next reply"
+          >
+            ›
+          </button>
+        </span>
+      )}
+      {onEdit && (
+        <button type="button" onClick={onEdit} disabled={disabled} title="Edit and re-run from here">✏️ Edit</button>
+      )}
+      {onRegenerate && (
+        <button type="button" onClick={onRegenerate} disabled={disabled} title="Generate another reply">↻ Regenerate</button>
+      )}
+      <button type="button" onClick={onDelete} disabled={disabled} title="Delete this turn">🗑️</button>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { useState } from 'react';
+
+interface Props {
+  initialText: string;
+  /** Called with the edited text; the caller re-runs from this message. */
+  onSave: (text: string) => void;
+  onCancel: () => void;
+}
+
+export function MessageEditor({ initialText, onSave, onCancel }: Props) {
+  const [text, setText] = useState(initialText);
+
+  return (
+    <form
+      className="message-editor"
+      onSubmit={(e) => { e.preventDefault(); if (text.trim()) onSave(text.trim()); }}
+    >
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Escape') onCancel(); }}
+        rows={Math.min(10, text.split('\n').length + 1)}
+        autoFocus
+      />
+      <div className="message-editor-actions">
+        <button type="button" className="btn btn-sm" onClick={onCancel}>Cancel</button>
+        <button type="submit" className="btn btn-sm btn-primary" disabled={!text.trim()}>Save & re-run</button>
+      </div>
+    </form>
+  );
+}
@@ -1,4 +1,7 @@
+import type { ManagedModel } from '@runanywhere/web';
 import type { LoaderState } from '../hooks/useModelLoader';
+import type { DownloadStats } from '../lib/resumableDownload';
+import { formatBytes, formatDuration } from '../lib/format';
 
 interface Props {
   state: LoaderState;
@@ -6,16 +9,71 @@ interface Props {
   error: string | null;
   onLoad: () => void;
   label: string;
+  download?: DownloadStats | null;
+  onPause?: () => void;
+  onCancel?: () => void;
+  /** Registered models for this category; a picker is shown when there's a choice. */
+  models?: ManagedModel[];
+  selectedId?: string | null;
+  onSelect?: (modelId: string) => void;
 }
 
-export function ModelBanner({ state, progress, error, onLoad, label }: Props) {
-  if (state === 'ready') return null;
+function ModelPicker({ models, selectedId, onSelect }: {
+  models: ManagedModel[];
+  selectedId: string | null;
+  onSelect: (modelId: string) => void;
+}) {
+  return (
+    <select
+      className="model-select"
+      value={selectedId ?? ''}
+      onChange={(e) => onSelect(e.target.value)}
+    >
+      {models.map((m) => (
+        <option key={m.id} value={m.id}>
+          {m.name} · {formatBytes(m.sizeBytes)} · {formatBytes(m.memoryRequirement)} RAM
+          {m.status === 'downloaded' || m.status === 'loaded' ? ' ✓' : ''}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function describeDownload(download: DownloadStats): string {
+  const parts = [
+    download.totalBytes > 0
+      ? `${formatBytes(download.bytesDownloaded)} / ${formatBytes(download.totalBytes)}`
+      : formatBytes(download.bytesDownloaded),
+  ];
+  if (download.bytesPerSecond > 0) parts.push(`${formatBytes(download.bytesPerSecond)}/s`);
+  if (download.etaSeconds !== null) parts.push(`${formatDuration(download.etaSeconds)} left`);
+  if (download.attempt > 1) parts.push(`retry ${download.attempt - 1}`);
+  return parts.join(' · ');
+}
+
+export function ModelBanner({
+  state, progress, error, onLoad, label, download, onPause, onCancel, models, selectedId, onSelect,
+}: Props) {
+  const picker = models && models.length > 1 && onSelect
+    ? <ModelPicker models={models} selectedId={selectedId ?? null} onSelect={onSelect} />
+    : null;
+
+  if (state === 'ready') {
+    if (!picker) return null;
+    return (
+      <div className="model-banner">
+        <span>{label}:</span>
+        {picker}
+      </div>
+    );
+  }
 
   return (
     <div className="model-banner">
       {state === 'idle' && (
         <>
           <span>No {label} model loaded.</span>
+          {picker}
           <button className="btn btn-sm" onClick={onLoad}>Download &amp; Load</button>
         </>
       )}
@@ -25,12 +83,26 @@ export function ModelBanner({ state, progress, error, onLoad, label }: Props) {
           <div className="progress-bar">
             <div className="progress-fill" style={{ width: `${progress * 100}%` }} />
           </div>
+          {onPause && <button className="btn btn-sm" onClick={onPause}>Pause</button>}
+          {onCancel && <button className="btn btn-sm" onClick={onCancel}>Cancel</button>}
+          {download && <span className="download-stats">{describeDownload(download)}</span>}
+        </>
+      )}
+      {state === 'paused' && (
+        <>
+          <span>
+            {label} download paused
+            {download && download.bytesDownloaded > 0 && ` at ${formatBytes(download.bytesDownloaded)}`}.
+          </span>
+          <button className="btn btn-sm" onClick={onLoad}>Resume</button>
+          {onCancel && <button className="btn btn-sm" onClick={onCancel}>Cancel</button>}
         </>
       )}
       {state === 'loading' && <span>Loading {label} model into engine...</span>}
       {state === 'error' && (
         <>
           <span className="error-text">Error: {error}</span>
+          {picker}
           <button className="btn btn-sm" onClick={onLoad}>Retry</button>
         </>
       )}
@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ModelManager } from '@runanywhere/web';
+import { deleteCustomModel } from '../runanywhere';
+import { loadCustomModels, type CustomModelRecord } from '../lib/customModels';
+import { formatBytes } from '../lib/format';
+import { AddModelForm } from './AddModelForm';
+import { StoragePanel } from './StoragePanel';
+
+export function ModelsTab() {
+  const [customModels, setCustomModels] = useState<CustomModelRecord[]>(() => loadCustomModels());
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const refresh = useCallback(() => setCustomModels(loadCustomModels()), []);
+
+  // Re-read on catalog changes so statuses stay current
+  useEffect(() => ModelManager.onChange(refresh), [refresh]);
+
+  const handleAdded = (modelId: string) => {
+    refresh();
+    setNotice(`Added ${modelId}. Pick it from the model selector in the matching tab.`);
+  };
+
+  const handleRemove = async (record: CustomModelRecord) => {
+    if (!confirm(`Remove "${record.def.name}" and its stored files?`)) return;
+    try {
+      await deleteCustomModel(record.def.id);
+      setNotice(null);
+    } catch (err) {
+      setNotice('Remove failed: ' + (err instanceof Error ? err.message : String(err)));
+    }
+    refresh();
+  };
+
+  return (
+    <div className="tab-panel models-panel">
+      <section className="panel-section">
+        <h3>Add model</h3>
+        <p className="panel-hint">
+          Register a GGUF from Hugging Face or import a local .gguf / .tar.gz file.
+          Custom models are remembered and registered on every startup.
+        </p>
+        <AddModelForm onAdded={handleAdded} />
+        {notice && <p className="panel-hint">{notice}</p>}
+      </section>
+
+      <section className="panel-section">
+        <h3>Custom models</h3>
+        {customModels.length === 0 ? (
+          <p className="panel-hint">No custom models yet.</p>
+        ) : (
+          <ul className="model-list">
+            {customModels.map((record) => {
+              const managed = ModelManager.getModels().find((m) => m.id === record.def.id);
+              return (
+                <li key={record.def.id} className="model-row">
+                  <div className="model-row-info">
+                    <strong>{record.def.name}</strong>
+                    <small>
+                      {record.def.modality} · {record.source === 'local' ? 'local file' : record.def.repo ?? 'Hugging Face'}
+                      {' · '}{managed?.status ?? 'unregistered'}
+                      {managed?.sizeBytes ? ` · ${formatBytes(managed.sizeBytes)}` : ''}
+                    </small>
+                  </div>
+                  <button className="btn btn-sm" onClick={() => handleRemove(record)}>Remove</button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      <StoragePanel />
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState, useRef, useCallback } from 'react';
+import {
+  LANGUAGES,
+  SLOT_LABELS,
+  TEMPLATE_VARIABLES,
+  assignPersona,
+  deletePersona,
+  exportPersonas,
+  getAssignments,
+  getLanguage,
+  importPersonas,
+  listPersonas,
+  resolveSystemPrompt,
+  savePersona,
+  setLanguage,
+  type Persona,
+  type PromptSlot,
+} from '../lib/promptLibrary';
+
+interface Draft {
+  id?: string;
+  name: string;
+  prompt: string;
+}
+
+export function PromptsTab() {
+  const [personas, setPersonas] = useState<Persona[]>(() => listPersonas());
+  const [assignments, setAssignments] = useState(() => getAssignments());
+  const [language, setLanguageState] = useState(() => getLanguage());
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(() => {
+    setPersonas(listPersonas());
+    setAssignments(getAssignments());
+  }, []);
+
+  const handleAssign = (slot: PromptSlot, id: string) => {
+    assignPersona(slot, id || null);
+    refresh();
+  };
+
+  const handleLanguage = (value: string) => {
+    setLanguage(value);
+    setLanguageState(value);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setError(null);
+    try {
+      savePersona(draft);
+      setDraft(null);
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDelete = (persona: Persona) => {
+    if (!confirm(`Delete "${persona.name}"? Features using it go back to their default prompt.`)) return;
+    deletePersona(persona.id);
+    if (draft?.id === persona.id) setDraft(null);
+    refresh();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPersonas()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `prompt-library-${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const added = importPersonas(await file.text());
+      setNotice(`Imported ${added} persona${added === 1 ? '' : 's'}.`);
+      refresh();
+    } catch (err) {
+      setError('Import failed: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      if (importRef.current) importRef.current.value = '';
+    }
+  };
+
+  const userPersonaCount = personas.filter((p) => !p.builtIn).length;
+
+  return (
+    <div className="tab-panel prompts-panel">
+      <section className="panel-section">
+        <h3>Assignments</h3>
+        <p className="panel-hint">Choose which persona each feature uses as its system prompt.</p>
+        {(Object.keys(SLOT_LABELS) as PromptSlot[]).map((slot) => (
+          <label key={slot} className="form-field">
+            <span>{SLOT_LABELS[slot]}</span>
+            <select value={assignments[slot] ?? ''} onChange={(e) => handleAssign(slot, e.target.value)}>
+              <option value="">No system prompt</option>
+              {personas.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}{p.builtIn ? ' (built-in)' : ''}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <label className="form-field">
+          <span>Response language <small>{'{{language}}'}</small></span>
+          <select value={language} onChange={(e) => handleLanguage(e.target.value)}>
+            {LANGUAGES.map((l) => <option key={l} value={l}>{l}</option>)}
+          </select>
+        </label>
+      </section>
+
+      <section className="panel-section">
+        <h3>Personas</h3>
+        <div className="segmented">
+          <button className="btn btn-sm" onClick={() => setDraft({ name: '', prompt: '' })}>New persona</button>
+          <button className="btn btn-sm" onClick={() => importRef.current?.click()}>Import</button>
+          <button className="btn btn-sm" onClick={handleExport} disabled={userPersonaCount === 0}>Export</button>
+          <input
+            ref={importRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+        </div>
+        {notice && <p className="panel-hint">{notice}</p>}
+        {error && <p className="error-text">{error}</p>}
+
+        {draft && (
+          <form className="add-model-form persona-editor" onSubmit={handleSave}>
+            <label className="form-field">
+              <span>Name</span>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                autoFocus
+              />
+            </label>
+            <label className="form-field">
+              <span>System prompt</span>
+              <textarea
+                rows={6}
+                value={draft.prompt}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+              />
+            </label>
+            <p className="panel-hint">
+              Variables: {Object.entries(TEMPLATE_VARIABLES).map(([name, desc]) => (
+                <code key={name} title={desc}>{`{{${name}}}`} </code>
+              ))}
+            </p>
+            <div className="segmented">
+              <button type="submit" className="btn btn-primary btn-sm" disabled={!draft.prompt.trim()}>Save</button>
+              <button type="button" className="btn btn-sm" onClick={() => setDraft(null)}>Cancel</button>
+            </div>
+          </form>
+        )}
+
+        <ul className="model-list">
+          {personas.map((persona) => {
+            const usedBy = (Object.keys(SLOT_LABELS) as PromptSlot[]).filter((s) => assignments[s] === persona.id);
+            return (
+              <li key={persona.id} className="model-row">
+                <div className="model-row-info">
+                  <strong>{persona.name}</strong>
+                  <small>
+                    {persona.builtIn ? 'built-in' : `edited ${new Date(persona.updatedAt).toLocaleDateString()}`}
+                    {usedBy.length > 0 && ` · used by ${usedBy.map((s) => SLOT_LABELS[s]).join(', ')}`}
+                  </small>
+                  <small className="persona-preview">{persona.prompt}</small>
+                </div>
+                {!persona.builtIn && (
+                  <button
+                    className="btn btn-sm"
+                    onClick={() => setDraft({ id: persona.id, name: persona.name, prompt: persona.prompt })}
+                  >
+                    Edit
+                  </button>
+                )}
+                <button
+                  className="btn btn-sm"
+                  onClick={() => setDraft({ name: `${persona.name} (copy)`, prompt: persona.prompt })}
+                >
+                  Duplicate
+                </button>
+                {!persona.builtIn && (
+                  <button className="btn btn-sm" onClick={() => handleDelete(persona)}>Delete</button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      <section className="panel-section">
+        <h3>Preview</h3>
+        <p className="panel-hint">What each feature sends right now, with variables filled in.</p>
+        {(Object.keys(SLOT_LABELS) as PromptSlot[]).map((slot) => (
+          <div key={slot} className="form-field">
+            <span>{SLOT_LABELS[slot]}</span>
+            <pre className="persona-rendered">{resolveSystemPrompt(slot) || '(none)'}</pre>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
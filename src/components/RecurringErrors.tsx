@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import type { ErrorCluster } from '../lib/errorClusters';
+
+interface Props {
+  clusters: ErrorCluster[];
+  currentSessionId: string | null;
+  onRefresh: () => void;
+  onOpenSession: (id: string) => void;
+  disabled?: boolean;
+}
+
+const date = (ms: number) => new Date(ms).toLocaleString();
+
+/** Collapsible list of errors grouped by fingerprint across Debug sessions. */
+export function RecurringErrors({ clusters, currentSessionId, onRefresh, onOpenSession, disabled }: Props) {
+  const [open, setOpen] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const recurring = clusters.filter((c) => c.count > 1);
+  const shown = showAll ? clusters : recurring;
+
+  const toggle = () => {
+    if (!open) onRefresh();
+    setOpen((o) => !o);
+  };
+
+  return (
+    <div className="settings-drawer error-clusters">
+      <button className="btn btn-sm settings-toggle" onClick={toggle} aria-expanded={open}>
+        🧩 Recurring errors{recurring.length > 0 && ` (${recurring.length})`} {open ? '▴' : '▾'}
+      </button>
+
+      {open && (
+        <div className="settings-body">
+          <label className="drawer-check">
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+            Include errors seen once ({clusters.length} distinct)
+          </label>
+
+          {shown.length === 0 ? (
+            <p className="panel-hint">
+              {clusters.length === 0
+                ? 'No analyzed errors yet.'
+                : 'No error has been analyzed more than once yet.'} Errors with the same type, message pattern and top
+              stack frames are grouped here, and pasting a known one shows its earlier analysis straight away.
+            </p>
+          ) : (
+            <ul className="cluster-list">
+              {shown.map((c) => (
+                <li key={c.key} className="cluster">
+                  <button
+                    type="button"
+                    className="cluster-row"
+                    onClick={() => setExpanded(expanded === c.key ? null : c.key)}
+                    aria-expanded={expanded === c.key}
+                  >
+                    <span className="cluster-count">×{c.count}</span>
+                    <span className="cluster-type">{c.errorType || c.latest.analysis.errorType}</span>
+                    <span className="cluster-template">{c.template}</span>
+                    <span className="cluster-seen">{new Date(c.lastSeen).toLocaleDateString()}</span>
+                  </button>
+                  {expanded === c.key && (
+                    <div className="cluster-details">
+                      <div>First seen {date(c.firstSeen)} · last seen {date(c.lastSeen)}</div>
+                      {c.topFrames.length > 0 && <code>{c.topFrames.join(' ← ')}</code>}
+                      <div>
+                        <strong>Latest analysis:</strong> {c.latest.analysis.errorType} ({c.latest.analysis.severity}) —{' '}
+                        {c.latest.analysis.rootCause}
+                      </div>
+                      <div className="cluster-sessions">
+                        {c.sessions.map((s) => (
+                          <button
+                            key={s.id}
+                            type="button"
+                            className="btn btn-sm"
+                            onClick={() => onOpenSession(s.id)}
+                            disabled={disabled || s.id === currentSessionId}
+                            title={s.id === currentSessionId ? 'Current session' : 'Open session'}
+                          >
+                            {s.name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useRef } from 'react';
+import type { ReportFormat } from '../lib/debugReport';
+
+interface Props {
+  onExport: (format: ReportFormat) => void;
+  onImport: (file: File) => void;
+  canExport: boolean;
+  disabled?: boolean;
+}
+
+export function ReportMenu({ onExport, onImport, canExport, disabled }: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <select
+        className="btn report-select"
+        value=""
+        onChange={(e) => { if (e.target.value) onExport(e.target.value as ReportFormat); }}
+        disabled={disabled || !canExport}
+      >
+        <option value="">Export Report...</option>
+        <option value="markdown">Markdown (.md)</option>
+        <option value="json">JSON (.json)</option>
+        <option value="sarif">SARIF (.sarif)</option>
+      </select>
+      <button type="button" className="btn" onClick={() => fileRef.current?.click()} disabled={disabled}>
+        Import
+      </button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".json,application/json"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onImport(file);
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,120 @@
+import { useRef, useState } from 'react';
+import type { ImageRegion } from '../lib/screenshotText';
+
+interface Props {
+  imageUrl: string;
+  /** Called with the selected region in image pixels, or null for the whole image. */
+  onConfirm: (region: ImageRegion | null) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+const ZOOM_LEVELS = [1, 1.5, 2, 3, 4];
+/** Selections smaller than this (in image pixels) are treated as a click. */
+const MIN_SELECTION = 8;
+
+/**
+ * Zoomable preview of a screenshot where a region can be dragged out.
+ * The VLM downsamples whatever it gets, so cropping to the error dialog
+ * leaves more of its resolution for the text that matters.
+ */
+export function ScreenshotCropper({ imageUrl, onConfirm, onCancel, disabled }: Props) {
+  const imgRef = useRef<HTMLImageElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [selection, setSelection] = useState<ImageRegion | null>(null);
+
+  /** Pointer position in image pixels, clamped to the image. */
+  const toImage = (e: React.PointerEvent) => {
+    const img = imgRef.current!;
+    const rect = img.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * img.naturalWidth;
+    const y = ((e.clientY - rect.top) / rect.height) * img.naturalHeight;
+    return {
+      x: Math.round(Math.min(img.naturalWidth, Math.max(0, x))),
+      y: Math.round(Math.min(img.naturalHeight, Math.max(0, y))),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (disabled || e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = toImage(e);
+    setSelection(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const end = toImage(e);
+    setSelection({
+      x: Math.min(start.x, end.x),
+      y: Math.min(start.y, end.y),
+      width: Math.abs(end.x - start.x),
+      height: Math.abs(end.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    setSelection((s) => (s && s.width >= MIN_SELECTION && s.height >= MIN_SELECTION ? s : null));
+  };
+
+  /** The selection as percentages of the image, for the overlay. */
+  const overlayStyle = (s: ImageRegion): React.CSSProperties => {
+    const img = imgRef.current;
+    if (!img?.naturalWidth) return { display: 'none' };
+    return {
+      left: `${(s.x / img.naturalWidth) * 100}%`,
+      top: `${(s.y / img.naturalHeight) * 100}%`,
+      width: `${(s.width / img.naturalWidth) * 100}%`,
+      height: `${(s.height / img.naturalHeight) * 100}%`,
+    };
+  };
+
+  return (
+    <div className="screenshot-cropper">
+      <div className="cropper-toolbar">
+        <span className="panel-hint">Drag to select the error, or analyze the whole image.</span>
+        <label className="cropper-zoom">
+          Zoom
+          <select value={zoom} onChange={(e) => setZoom(Number(e.target.value))} disabled={disabled}>
+            {ZOOM_LEVELS.map((z) => <option key={z} value={z}>{z * 100}%</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="cropper-viewport">
+        <div
+          className="cropper-stage"
+          style={{ width: `${zoom * 100}%` }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <img ref={imgRef} src={imageUrl} alt="Screenshot to crop" draggable={false} />
+          {selection && <div className="cropper-selection" style={overlayStyle(selection)} />}
+        </div>
+      </div>
+
+      <div className="form-actions">
+        <button
+          type="button"
+          className="btn btn-primary"
+          onClick={() => onConfirm(selection)}
+          disabled={disabled || !selection}
+        >
+          Use Selection{selection && ` (${selection.width}×${selection.height})`}
+        </button>
+        <button type="button" className="btn" onClick={() => onConfirm(null)} disabled={disabled}>
+          Use Whole Image
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={onCancel} disabled={disabled}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
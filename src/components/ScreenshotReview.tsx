@@ -0,0 +1,57 @@
+import { OCR_ENGINE_LABELS, type ScreenshotText } from '../lib/screenshotText';
+
+export interface PendingScreenshot extends ScreenshotText {
+  /** "Screenshot" or "Uploaded Image", used in the analyzed message. */
+  source: string;
+  /** Preview of the image the text was read from. */
+  imageUrl: string;
+}
+
+interface Props {
+  shot: PendingScreenshot;
+  onChangeText: (text: string) => void;
+  onAnalyze: () => void;
+  onDiscard: () => void;
+  disabled?: boolean;
+}
+
+/** Text read from a screenshot, editable before it is analyzed. */
+export function ScreenshotReview({ shot, onChangeText, onAnalyze, onDiscard, disabled }: Props) {
+  return (
+    <div className="screenshot-review">
+      <img className="screenshot-preview" src={shot.imageUrl} alt="Screenshot being analyzed" />
+      <div className="screenshot-fields">
+        <label className="screenshot-label" htmlFor="screenshot-text">
+          Extracted text <span className="screenshot-engine">via {OCR_ENGINE_LABELS[shot.engine]}</span>
+        </label>
+        <textarea
+          id="screenshot-text"
+          className="debug-textarea"
+          value={shot.text}
+          onChange={(e) => onChangeText(e.target.value)}
+          placeholder="No text was found. Type the error message here, or analyze the description alone."
+          disabled={disabled}
+          rows={6}
+        />
+        {shot.description && (
+          <p className="screenshot-description">
+            <strong>VLM description:</strong> {shot.description}
+          </p>
+        )}
+        <div className="form-actions">
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={onAnalyze}
+            disabled={disabled || (!shot.text.trim() && !shot.description)}
+          >
+            Analyze Error
+          </button>
+          <button type="button" className="btn btn-secondary" onClick={onDiscard} disabled={disabled}>
+            Discard
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
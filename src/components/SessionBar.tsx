@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import type { SessionSummary } from '../lib/sessionStore';
+
+interface Props {
+  sessionId: string | null;
+  sessionName: string;
+  sessions: SessionSummary[];
+  onNew: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onSearch: (query: string) => void;
+  disabled?: boolean;
+}
+
+export function SessionBar({
+  sessionId, sessionName, sessions, onNew, onOpen, onRename, onDelete, onSearch, disabled,
+}: Props) {
+  const [query, setQuery] = useState('');
+
+  const handleRename = () => {
+    if (!sessionId) return;
+    const name = prompt('Rename session', sessionName);
+    if (name !== null) onRename(sessionId, name);
+  };
+
+  const handleDelete = () => {
+    if (!sessionId) return;
+    if (confirm(`Delete "${sessionName}"? This cannot be undone.`)) onDelete(sessionId);
+  };
+
+  // Keep the active session selectable even when a search filters it out
+  const options = sessionId && !sessions.some((s) => s.id === sessionId)
+    ? [{ id: sessionId, name: sessionName, messageCount: 0 } as SessionSummary, ...sessions]
+    : sessions;
+
+  return (
+    <div className="session-bar">
+      <select
+        className="session-select"
+        value={sessionId ?? ''}
+        onChange={(e) => onOpen(e.target.value)}
+        disabled={disabled || !sessionId}
+      >
+        {options.map((s) => (
+          <option key={s.id} value={s.id}>
+            {s.name}{s.messageCount ? ` (${s.messageCount})` : ''}
+          </option>
+        ))}
+      </select>
+      <input
+        className="session-search"
+        type="search"
+        placeholder="Search sessions..."
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); onSearch(e.target.value); }}
+      />
+      <button className="btn btn-sm" onClick={onNew} disabled={disabled}>New</button>
+      <button className="btn btn-sm" onClick={handleRename} disabled={disabled || !sessionId}>Rename</button>
+      <button className="btn btn-sm" onClick={handleDelete} disabled={disabled || !sessionId}>Delete</button>
+    </div>
+  );
+}
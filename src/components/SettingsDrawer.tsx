@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react';
+import type { GenerationSettingsResult } from '../hooks/useGenerationSettings';
+import {
+  SUPPORTED_FIELDS,
+  type GenerationSettings,
+  type SettingsField,
+  type SettingsScope,
+} from '../lib/generationSettings';
+
+interface Props extends GenerationSettingsResult {
+  scope: SettingsScope;
+  disabled?: boolean;
+}
+
+const FIELD_LABELS: Record<SettingsField, string> = {
+  temperature: 'Temperature',
+  topP: 'Top-p',
+  topK: 'Top-k',
+  repeatPenalty: 'Repeat penalty',
+  maxTokens: 'Max tokens',
+  liveMaxTokens: 'Live max tokens',
+  stopSequences: 'Stop sequences',
+  seed: 'Seed',
+};
+
+export function SettingsDrawer({
+  scope, settings, update, reset, presets, applyPreset, savePreset, deletePreset, disabled,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  // Drafts so partially typed values aren't normalized away mid-edit
+  const [stopDraft, setStopDraft] = useState(settings.stopSequences.join('\n'));
+  const [seedDraft, setSeedDraft] = useState(settings.seed === null ? '' : String(settings.seed));
+
+  useEffect(() => { setStopDraft(settings.stopSequences.join('\n')); }, [settings.stopSequences]);
+  useEffect(() => { setSeedDraft(settings.seed === null ? '' : String(settings.seed)); }, [settings.seed]);
+
+  const supported = SUPPORTED_FIELDS[scope];
+  const unsupported = (Object.keys(FIELD_LABELS) as SettingsField[])
+    .filter((f) => !supported.includes(f) && (f !== 'liveMaxTokens' || scope === 'vision'));
+  const isOff = (field: SettingsField) => disabled || !supported.includes(field);
+  const selectedPreset = presets.find((p) => p.name === presetName);
+
+  const slider = (field: 'temperature' | 'topP' | 'repeatPenalty', min: number, max: number, step: number) => (
+    <label className="form-field settings-field" title={isOff(field) ? 'Not applied in this tab' : undefined}>
+      <span>{FIELD_LABELS[field]} <strong>{settings[field].toFixed(2)}</strong></span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={settings[field]}
+        disabled={isOff(field)}
+        onChange={(e) => update({ [field]: Number(e.target.value) } as Partial<GenerationSettings>)}
+      />
+    </label>
+  );
+
+  const integer = (field: 'topK' | 'maxTokens' | 'liveMaxTokens', min: number, max: number) => (
+    <label className="form-field settings-field" title={isOff(field) ? 'Not applied in this tab' : undefined}>
+      <span>{FIELD_LABELS[field]}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={settings[field]}
+        disabled={isOff(field)}
+        onChange={(e) => e.target.value !== '' && update({ [field]: Number(e.target.value) } as Partial<GenerationSettings>)}
+      />
+    </label>
+  );
+
+  const handleSavePreset = () => {
+    const name = prompt('Preset name', presetName && !selectedPreset?.builtIn ? presetName : '');
+    if (!name?.trim()) return;
+    if (presets.some((p) => p.builtIn && p.name === name.trim())) {
+      alert(`"${name.trim()}" is a built-in preset — pick another name.`);
+      return;
+    }
+    savePreset(name.trim());
+    setPresetName(name.trim());
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    if (!confirm(`Delete preset "${selectedPreset.name}"?`)) return;
+    deletePreset(selectedPreset.name);
+    setPresetName('');
+  };
+
+  const handleReset = () => {
+    if (confirm('Reset this tab\'s generation settings to their defaults?')) reset();
+  };
+
+  return (
+    <div className="settings-drawer">
+      <button className="btn btn-sm settings-toggle" onClick={() => setOpen((o) => !o)} aria-expanded={open}>
+        ⚙️ Generation settings {open ? '▴' : '▾'}
+      </button>
+
+      {open && (
+        <div className="settings-body">
+          <div className="settings-presets">
+            <select value={presetName} onChange={(e) => setPresetName(e.target.value)} disabled={disabled}>
+              <option value="">Presets...</option>
+              {presets.map((p) => (
+                <option key={p.name} value={p.name}>{p.name}{p.builtIn ? '' : ' (saved)'}</option>
+              ))}
+            </select>
+            <button className="btn btn-sm" onClick={() => applyPreset(presetName)} disabled={disabled || !selectedPreset}>
+              Apply
+            </button>
+            <button className="btn btn-sm" onClick={handleSavePreset} disabled={disabled}>Save as...</button>
+            <button
+              className="btn btn-sm"
+              onClick={handleDeletePreset}
+              disabled={disabled || !selectedPreset || selectedPreset.builtIn}
+            >
+              Delete
+            </button>
+            <button className="btn btn-sm" onClick={handleReset} disabled={disabled}>Reset to defaults</button>
+          </div>
+
+          <div className="settings-grid">
+            {slider('temperature', 0, 2, 0.05)}
+            {slider('topP', 0, 1, 0.05)}
+            {integer('topK', 0, 200)}
+            {slider('repeatPenalty', 1, 2, 0.05)}
+            {integer('maxTokens', 1, 4096)}
+            {scope === 'vision' && integer('liveMaxTokens', 1, 256)}
+            <label className="form-field settings-field" title={isOff('seed') ? 'Not applied in this tab' : undefined}>
+              <span>{FIELD_LABELS.seed}</span>
+              <input
+                type="number"
+                placeholder="Random"
+                value={seedDraft}
+                disabled={isOff('seed')}
+                onChange={(e) => setSeedDraft(e.target.value)}
+                onBlur={() => update({ seed: seedDraft.trim() === '' ? null : Math.trunc(Number(seedDraft)) })}
+              />
+            </label>
+            <label
+              className="form-field settings-field settings-field-wide"
+              title={isOff('stopSequences') ? 'Not applied in this tab' : undefined}
+            >
+              <span>{FIELD_LABELS.stopSequences} <small>(one per line)</small></span>
+              <textarea
+                rows={2}
+                value={stopDraft}
+                disabled={isOff('stopSequences')}
+                onChange={(e) => setStopDraft(e.target.value)}
+                onBlur={() => update({ stopSequences: stopDraft.split('\n') })}
+              />
+            </label>
+          </div>
+
+          {unsupported.length > 0 && (
+            <p className="panel-hint">
+              Not applied by this tab's engine: {unsupported.map((f) => FIELD_LABELS[f]).join(', ')}.
+              Values are kept for when it supports them.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
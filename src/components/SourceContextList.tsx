@@ -0,0 +1,31 @@
+import type { ContextSnippet } from '../lib/sourceContext';
+
+interface Props {
+  snippets: ContextSnippet[];
+}
+
+/** The attached source snippets a Debug analysis was given. */
+export function SourceContextList({ snippets }: Props) {
+  return (
+    <div className="source-context-list">
+      {snippets.map((s) => (
+        <details key={`${s.path}:${s.startLine}`} className="source-context">
+          <summary>
+            <span className="stack-frame-fn">{s.path}</span>
+            <span className="stack-frame-loc">lines {s.startLine}–{s.startLine + s.lines.length - 1}</span>
+          </summary>
+          <pre className="frame-snippet">
+            {s.lines.map((text, i) => {
+              const n = s.startLine + i;
+              return (
+                <div key={n} className={s.frameLines.includes(n) ? 'frame-snippet-current' : undefined}>
+                  <span className="frame-snippet-line">{n}</span>{text}
+                </div>
+              );
+            })}
+          </pre>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { TRACE_FORMAT_LABELS, frameLocation, type ParsedTrace, type StackFrame } from '../lib/stackTrace';
+
+interface Props {
+  trace: ParsedTrace;
+}
+
+function FrameDetails({ frame }: { frame: StackFrame }) {
+  const [copied, setCopied] = useState(false);
+  const snippet = frame.original?.snippet;
+
+  const copyLocation = async () => {
+    try {
+      await navigator.clipboard.writeText(frameLocation(frame));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Clipboard unavailable (e.g. insecure context); the location is visible anyway
+    }
+  };
+
+  return (
+    <div className="frame-details">
+      {frame.original && (
+        <div className="frame-minified">Minified: {frameLocation(frame, { preferOriginal: false })}</div>
+      )}
+      {snippet && (
+        <pre className="frame-snippet">
+          {snippet.lines.map((text, i) => {
+            const n = snippet.startLine + i;
+            return (
+              <div key={n} className={n === frame.original?.line ? 'frame-snippet-current' : undefined}>
+                <span className="frame-snippet-line">{n}</span>{text}
+              </div>
+            );
+          })}
+        </pre>
+      )}
+      <button type="button" className="code-copy-btn" onClick={copyLocation}>
+        {copied ? '✓ Copied' : 'Copy location'}
+      </button>
+    </div>
+  );
+}
+
+export function StackFrameList({ trace }: Props) {
+  const [openIdx, setOpenIdx] = useState<number | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const libraryCount = trace.frames.filter((f) => f.library).length;
+  const resolvedCount = trace.frames.filter((f) => f.original).length;
+
+  return (
+    <div className="stack-frames">
+      <div className="stack-frames-meta">
+        {TRACE_FORMAT_LABELS[trace.format]} · {trace.frames.length} frame{trace.frames.length === 1 ? '' : 's'}
+        {resolvedCount > 0 && ` · ${resolvedCount} source-mapped`}
+        {libraryCount > 0 && (
+          <button type="button" className="stack-frames-toggle" onClick={() => setShowLibrary(!showLibrary)}>
+            {showLibrary ? 'Hide' : 'Show'} {libraryCount} library frame{libraryCount === 1 ? '' : 's'}
+          </button>
+        )}
+      </div>
+      <ol className="stack-frame-list">
+        {trace.frames.map((f, i) => (!f.library || showLibrary) && (
+          <li key={i} className={`stack-frame ${f.library ? 'stack-frame-library' : ''}`}>
+            <button
+              type="button"
+              className="stack-frame-row"
+              onClick={() => setOpenIdx(openIdx === i ? null : i)}
+              aria-expanded={openIdx === i}
+            >
+              <span className="stack-frame-fn">{f.original?.fn ?? f.fn ?? '<anonymous>'}</span>
+              <span className="stack-frame-loc">{frameLocation(f)}</span>
+              {f.original && <span className="stack-frame-mapped" title="Resolved through a source map">🗺️</span>}
+            </button>
+            {openIdx === i && <FrameDetails frame={f} />}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ModelManager, EventBus, type ManagedModel } from '@runanywhere/web';
+import { LOCAL_URL_PREFIX } from '../lib/customModels';
+import { formatBytes } from '../lib/format';
+import { downloadModelResumable, supportsResumableDownloads } from '../lib/resumableDownload';
+import {
+  getStorageEstimate,
+  getModelDiskUsage,
+  requestPersistentStorage,
+  confirmDownloadFits,
+  type StorageEstimate,
+} from '../lib/storage';
+
+interface CachedModel {
+  model: ManagedModel;
+  diskBytes: number;
+  lastUsedAt: number;
+}
+
+const isCached = (m: ManagedModel) => m.status === 'downloaded' || m.status === 'loaded';
+
+export function StoragePanel() {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [cached, setCached] = useState<CachedModel[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refresh = useCallback(async () => {
+    const models = ModelManager.getModels().filter(isCached);
+    const usage = await Promise.all(models.map(async (model) => ({
+      model,
+      diskBytes: await getModelDiskUsage(model),
+      lastUsedAt: ModelManager.getModelLastUsedAt(model.id),
+    })));
+    setCached(usage.sort((a, b) => b.diskBytes - a.diskBytes));
+    setEstimate(await getStorageEstimate());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return ModelManager.onChange(() => { refresh(); });
+  }, [refresh]);
+
+  // Stop a re-download in progress on unmount; its partial files are kept
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handlePersist = async () => {
+    const granted = await requestPersistentStorage();
+    if (!granted) setError('The browser declined persistent storage. Bookmarking or installing the app usually helps.');
+    await refresh();
+  };
+
+  const handleDelete = async (model: ManagedModel) => {
+    if (!confirm(`Delete the cached files for ${model.name}?`)) return;
+    setError(null);
+    setBusyId(model.id);
+    try {
+      await ModelManager.deleteModel(model.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+      await refresh();
+    }
+  };
+
+  /**
+   * Download a fresh copy of a cached model. With resumable downloads the
+   * new files are written beside the cached copy, which is only replaced
+   * once they are complete, so a failed download keeps the working model
+   * and retrying resumes it. Without them the SDK has to download into the
+   * model's own slot, so the cached copy is deleted first.
+   */
+  const handleRedownload = async (model: ManagedModel) => {
+    const resumable = supportsResumableDownloads();
+    if (!confirm(resumable
+      ? `Re-download ${model.name}? The cached copy is kept until the new one is complete.`
+      : `Delete and re-download ${model.name}? If the download fails, the model has to be downloaded again.`)) return;
+    setError(null);
+    setBusyId(model.id);
+    setProgress(0);
+
+    const unsub = EventBus.shared.on('model.downloadProgress', (evt) => {
+      if (evt.modelId === model.id) setProgress(evt.progress ?? 0);
+    });
+
+    try {
+      if (resumable) {
+        // Both copies are stored until the new one replaces the old
+        if (!(await confirmDownloadFits(model.id))) return;
+        setDownloading(model.name);
+        const controller = new AbortController();
+        abortRef.current = controller;
+        await downloadModelResumable(model, {
+          signal: controller.signal,
+          onProgress: (stats) => setProgress(stats.progress),
+        });
+        // Importing marks the model downloaded, so reload one that was in use from the new copy
+        if (model.status === 'loaded') {
+          await ModelManager.unloadModel(model.id);
+          await ModelManager.loadModel(model.id, { coexist: true });
+        }
+      } else {
+        // Check the fit before deleting, so declining keeps the cached copy
+        const cachedBytes = cached.find((c) => c.model.id === model.id)?.diskBytes ?? await getModelDiskUsage(model);
+        if (!(await confirmDownloadFits(model.id, cachedBytes))) return;
+        await ModelManager.deleteModel(model.id);
+        setDownloading(model.name);
+        await ModelManager.downloadModel(model.id);
+        // downloadModel records failures on the model instead of throwing
+        const after = ModelManager.getModels().find((m) => m.id === model.id);
+        if (after?.status === 'error') {
+          throw new Error(`${after.error ?? 'Download failed'}. Download ${model.name} again from its tab.`);
+        }
+      }
+    } catch (err) {
+      if (abortRef.current?.signal.aborted) return;
+      const msg = err instanceof Error ? err.message : String(err);
+      setError(resumable ? `${msg}. The cached copy was kept; re-download again to resume.` : msg);
+    } finally {
+      abortRef.current = null;
+      unsub();
+      setBusyId(null);
+      setDownloading(null);
+      await refresh();
+    }
+  };
+
+  const usedPct = estimate && estimate.quotaBytes > 0
+    ? Math.min(1, estimate.usedBytes / estimate.quotaBytes)
+    : 0;
+  const modelsTotal = cached.reduce((sum, c) => sum + c.diskBytes, 0);
+
+  return (
+    <section className="panel-section">
+      <h3>Storage</h3>
+
+      {estimate && (
+        <div className="storage-quota">
+          <div className="storage-quota-row">
+            <span>{formatBytes(estimate.usedBytes)} of {formatBytes(estimate.quotaBytes)} used</span>
+            <span className="panel-hint">Models: {formatBytes(modelsTotal)}</span>
+          </div>
+          <div className="progress-bar">
+            <div className="progress-fill" style={{ width: `${usedPct * 100}%` }} />
+          </div>
+          <div className="storage-quota-row">
+            <span className="panel-hint">
+              {estimate.persisted
+                ? '🔒 Persistent — the browser won\'t evict cached models'
+                : 'Best-effort — the browser may evict models under storage pressure'}
+            </span>
+            {!estimate.persisted && (
+              <button className="btn btn-sm" onClick={handlePersist}>Make persistent</button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="error-text">{error}</p>}
+
+      {downloading && (
+        <div className="storage-quota-row">
+          <span>Re-downloading {downloading}... {(progress * 100).toFixed(0)}%</span>
+          <div className="progress-bar">
+            <div className="progress-fill" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {cached.length === 0 ? (
+        <p className="panel-hint">No models cached yet.</p>
+      ) : (
+        <ul className="model-list">
+          {cached.map(({ model, diskBytes, lastUsedAt }) => {
+            const isLocal = model.url.startsWith(LOCAL_URL_PREFIX);
+            return (
+              <li key={model.id} className="model-row">
+                <div className="model-row-info">
+                  <strong>{model.name}</strong>
+                  <small>
+                    {formatBytes(diskBytes)} · {model.status}
+                    {lastUsedAt > 0 && ` · last used ${new Date(lastUsedAt).toLocaleDateString()}`}
+                  </small>
+                </div>
+                <button
+                  className="btn btn-sm"
+                  onClick={() => handleRedownload(model)}
+                  disabled={busyId !== null || isLocal}
+                  title={isLocal ? 'Imported from a local file — import it again instead' : undefined}
+                >
+                  Re-download
+                </button>
+                <button className="btn btn-sm" onClick={() => handleDelete(model)} disabled={busyId !== null}>
+                  Delete
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import type { ToolStep } from '../lib/debugTools';
+import { CodeBlock } from './CodeBlock';
+
+interface Props {
+  steps: ToolStep[];
+  /** The analysis is still running, so more steps may follow. */
+  live?: boolean;
+}
+
+/** One-line summary of a call's arguments, e.g. `query: "ENOENT"`. */
+function argSummary(args: Record<string, unknown>): string {
+  return Object.entries(args)
+    .map(([k, v]) => {
+      const text = typeof v === 'string' ? JSON.stringify(v) : String(JSON.stringify(v));
+      return `${k}: ${text.length > 40 ? `${text.slice(0, 40)}…` : text}`;
+    })
+    .join(', ');
+}
+
+/** The tools the model called while producing a Debug reply. */
+export function ToolTrace({ steps, live }: Props) {
+  const [openIdx, setOpenIdx] = useState<number | null>(null);
+
+  return (
+    <div className="tool-trace">
+      <div className="tool-trace-title">
+        🔧 {steps.length} tool call{steps.length === 1 ? '' : 's'}{live && ' · working…'}
+      </div>
+      <ol className="tool-trace-list">
+        {steps.map((step, i) => (
+          <li key={i} className={step.success ? '' : 'tool-step-failed'}>
+            <button
+              type="button"
+              className="tool-step-row"
+              onClick={() => setOpenIdx(openIdx === i ? null : i)}
+              aria-expanded={openIdx === i}
+            >
+              <span className="tool-step-status">{step.success ? '✓' : '✗'}</span>
+              <span className="tool-step-name">{step.tool}</span>
+              <span className="tool-step-args">({argSummary(step.args)})</span>
+              <span className="tool-step-time">{step.durationMs} ms</span>
+            </button>
+            {openIdx === i && (
+              <div className="tool-step-details">
+                <CodeBlock code={JSON.stringify(step.args, null, 2)} lang="json" />
+                {step.success
+                  ? <CodeBlock code={JSON.stringify(step.result, null, 2) ?? 'null'} lang="json" />
+                  : <p className="tool-step-error">{step.error}</p>}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -2,11 +2,11 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { ModelCategory } from '@runanywhere/web';
 import { VideoCapture, VLMWorkerBridge } from '@runanywhere/web-llamacpp';
 import { useModelLoader } from '../hooks/useModelLoader';
+import { useGenerationSettings } from '../hooks/useGenerationSettings';
 import { ModelBanner } from './ModelBanner';
+import { SettingsDrawer } from './SettingsDrawer';
 
 const LIVE_INTERVAL_MS = 2500;
-const LIVE_MAX_TOKENS = 30;
-const SINGLE_MAX_TOKENS = 80;
 const CAPTURE_DIM = 256; // CLIP resizes internally; larger is wasted work
 
 interface VisionResult {
@@ -29,6 +29,11 @@ export function VisionTab() {
   const liveIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const liveModeRef = useRef(false);
 
+  const generation = useGenerationSettings('vision');
+  // The live-mode interval keeps its first closure, so read settings through a ref
+  const settingsRef = useRef(generation.settings);
+  settingsRef.current = generation.settings;
+
   // Keep refs in sync with state so interval callbacks see latest values
   processingRef.current = processing;
   liveModeRef.current = liveMode;
@@ -102,7 +107,7 @@ export function VisionTab() {
         frame.width,
         frame.height,
         prompt,
-        { maxTokens, temperature: 0.6 },
+        { maxTokens, temperature: settingsRef.current.temperature },
       );
 
       setResult({ text: res.text, totalMs: performance.now() - t0 });
@@ -131,7 +136,7 @@ export function VisionTab() {
       await startCamera();
       return;
     }
-    await describeFrame(SINGLE_MAX_TOKENS);
+    await describeFrame(settingsRef.current.maxTokens);
   }, [startCamera, describeFrame]);
 
   // ------------------------------------------------------------------
@@ -146,12 +151,12 @@ export function VisionTab() {
     liveModeRef.current = true;
 
     // Immediately describe first frame
-    describeFrame(LIVE_MAX_TOKENS);
+    describeFrame(settingsRef.current.liveMaxTokens);
 
     // Then poll every 2.5s — skips ticks while inference is running
     liveIntervalRef.current = setInterval(() => {
       if (!processingRef.current && liveModeRef.current) {
-        describeFrame(LIVE_MAX_TOKENS);
+        describeFrame(settingsRef.current.liveMaxTokens);
       }
     }, LIVE_INTERVAL_MS);
   }, [startCamera, describeFrame]);
@@ -181,11 +186,19 @@ export function VisionTab() {
       <ModelBanner
         state={loader.state}
         progress={loader.progress}
+        download={loader.download}
+        onPause={loader.pause}
+        onCancel={loader.cancel}
         error={loader.error}
         onLoad={loader.ensure}
         label="VLM"
+        models={loader.models}
+        selectedId={loader.selectedId}
+        onSelect={loader.select}
       />
 
+      <SettingsDrawer scope="vision" {...generation} />
+
       <div className="vision-camera">
         {!cameraActive && (
           <div className="empty-state">
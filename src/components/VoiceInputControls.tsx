@@ -0,0 +1,52 @@
+import type { VoiceInputResult } from '../hooks/useVoiceInput';
+import { VOICE_INPUT_MODE_LABELS, type VoiceInputMode } from '../lib/voiceInput';
+
+interface Props extends VoiceInputResult {
+  disabled?: boolean;
+}
+
+/** Input mode, VAD threshold and minimum utterance length for voice input. */
+export function VoiceInputControls({ settings, update, disabled }: Props) {
+  return (
+    <div className="voice-input-controls">
+      <label className="form-field">
+        <span>Input</span>
+        <select
+          value={settings.mode}
+          onChange={(e) => update({ mode: e.target.value as VoiceInputMode })}
+          disabled={disabled}
+        >
+          {(Object.keys(VOICE_INPUT_MODE_LABELS) as VoiceInputMode[]).map((mode) => (
+            <option key={mode} value={mode}>{VOICE_INPUT_MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+      </label>
+      {settings.mode === 'vad' && (
+        <label className="form-field settings-field" title="Higher ignores more background noise but may miss quiet speech">
+          <span>VAD threshold <strong>{settings.vadThreshold.toFixed(2)}</strong></span>
+          <input
+            type="range"
+            min={0.05}
+            max={0.95}
+            step={0.05}
+            value={settings.vadThreshold}
+            onChange={(e) => update({ vadThreshold: Number(e.target.value) })}
+            disabled={disabled}
+          />
+        </label>
+      )}
+      <label className="form-field" title="Shorter utterances are ignored as noise">
+        <span>Min. utterance (ms)</span>
+        <input
+          type="number"
+          min={0}
+          max={3000}
+          step={50}
+          value={settings.minSegmentMs}
+          onChange={(e) => e.target.value !== '' && update({ minSegmentMs: Number(e.target.value) })}
+          disabled={disabled}
+        />
+      </label>
+    </div>
+  );
+}
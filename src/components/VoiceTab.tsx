@@ -1,20 +1,62 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import {
-  VoicePipeline,
   ModelCategory,
   ModelManager,
 } from '@runanywhere/web';
+import { TextGeneration } from '@runanywhere/web-llamacpp';
 import {
   AudioCapture,
-  AudioPlayback,
+  STT,
   VAD,
   SpeechActivity,
 } from '@runanywhere/web-onnx';
 import { useModelLoader } from '../hooks/useModelLoader';
+import { useGenerationSettings } from '../hooks/useGenerationSettings';
+import { usePushToTalk } from '../hooks/usePushToTalk';
+import { useVoiceInput } from '../hooks/useVoiceInput';
+import { buildChatPrompt, resolveChatTemplate, type ChatTurn } from '../lib/chatPrompt';
+import { createEchoGate, type EchoGate } from '../lib/echoGate';
+import { resolveSystemPrompt } from '../lib/promptLibrary';
+import { takeSentences } from '../lib/speech';
+import { createSpeechQueue, type SpeechQueue } from '../lib/speechQueue';
+import { applyVADThreshold, minSegmentSamples, VOICE_SAMPLE_RATE } from '../lib/voiceInput';
+import {
+  isStopPhrase,
+  loadVoiceOptions,
+  normalizeVoiceOptions,
+  saveVoiceOptions,
+  type VoiceOptions,
+} from '../lib/voiceOptions';
+import { Markdown } from './Markdown';
 import { ModelBanner } from './ModelBanner';
+import { SettingsDrawer } from './SettingsDrawer';
+import { VoiceInputControls } from './VoiceInputControls';
+
+type VoiceState = 'idle' | 'loading-models' | 'listening' | 'recording' | 'processing' | 'speaking';
 
-type VoiceState = 'idle' | 'loading-models' | 'listening' | 'processing' | 'speaking';
+interface VoiceTurn extends ChatTurn {
+  /** From the end of the user's utterance to the first audio of the reply. */
+  firstAudioMs?: number;
+}
 
+/**
+ * Spoken conversation: VAD finds each utterance, STT transcribes it, the LLM
+ * answers with the earlier turns as context and TTS reads the answer out.
+ *
+ * This runs the three stages itself rather than through `VoicePipeline`,
+ * whose `processTurn` prompts the LLM with the latest transcript alone and
+ * returns before playback ends, so it can neither carry a conversation nor
+ * tell when to listen again. Replies are spoken sentence by sentence while
+ * they are still being generated.
+ *
+ * With barge-in on, the mic stays open for the whole turn: as soon as the
+ * VAD hears the user, generation is cancelled, playback stops and the new
+ * utterance becomes the next turn. An echo gate keeps the assistant's own
+ * voice from counting as the user.
+ *
+ * In push-to-talk mode the VAD is bypassed: an utterance is whatever the
+ * mic hears while Space or the talk button is held.
+ */
 export function VoiceTab() {
   const llmLoader = useModelLoader(ModelCategory.Language, true);
   const sttLoader = useModelLoader(ModelCategory.SpeechRecognition, true);
@@ -22,23 +64,68 @@ export function VoiceTab() {
   const vadLoader = useModelLoader(ModelCategory.Audio, true);
 
   const [voiceState, setVoiceState] = useState<VoiceState>('idle');
-  const [transcript, setTranscript] = useState('');
-  const [response, setResponse] = useState('');
+  const [turns, setTurns] = useState<VoiceTurn[]>([]);
   const [audioLevel, setAudioLevel] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [options, setOptions] = useState<VoiceOptions>(loadVoiceOptions);
 
   const micRef = useRef<AudioCapture | null>(null);
-  const pipelineRef = useRef<VoicePipeline | null>(null);
   const vadUnsub = useRef<(() => void) | null>(null);
+  const speechRef = useRef<SpeechQueue | null>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
+  const silenceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const logEndRef = useRef<HTMLDivElement>(null);
+  /** Cleared by Stop, the stop phrase or the silence timeout to end the session. */
+  const activeRef = useRef(false);
+  /** Bumped per turn; a turn that is no longer current has been interrupted. */
+  const turnRef = useRef(0);
+  const inTurnRef = useRef(false);
+  const echoGateRef = useRef<EchoGate | null>(null);
+  /** Push-to-talk is held. */
+  const recordingRef = useRef(false);
+  // The transcript the next prompt is built from, updated ahead of renders
+  const turnsRef = useRef<VoiceTurn[]>([]);
+
+  const generation = useGenerationSettings('voice');
+  // The VAD callback outlives renders, so read settings through a ref
+  const settingsRef = useRef(generation.settings);
+  settingsRef.current = generation.settings;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const voiceInput = useVoiceInput();
+  const inputRef = useRef(voiceInput.settings);
+  inputRef.current = voiceInput.settings;
+  const pushToTalk = voiceInput.settings.mode === 'push-to-talk';
+
+  const setConversation = (next: VoiceTurn[]) => {
+    turnsRef.current = next;
+    setTurns(next);
+  };
+
+  const updateOptions = (patch: Partial<VoiceOptions>) => {
+    const next = normalizeVoiceOptions({ ...options, ...patch });
+    saveVoiceOptions(next);
+    setOptions(next);
+  };
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      activeRef.current = false;
+      if (silenceTimer.current) clearTimeout(silenceTimer.current);
       micRef.current?.stop();
       vadUnsub.current?.();
+      cancelRef.current?.();
+      speechRef.current?.stop();
     };
   }, []);
 
+  // Keep the latest turn in view
+  useEffect(() => {
+    logEndRef.current?.scrollIntoView({ block: 'end', behavior: 'smooth' });
+  }, [turns]);
+
   // Ensure all 4 models are loaded
   const ensureModels = useCallback(async (): Promise<boolean> => {
     setVoiceState('loading-models');
@@ -61,106 +148,281 @@ export function VoiceTab() {
     return false;
   }, [vadLoader, sttLoader, llmLoader, ttsLoader]);
 
-  // Start listening
+  const clearSilenceTimer = () => {
+    if (silenceTimer.current) clearTimeout(silenceTimer.current);
+    silenceTimer.current = null;
+  };
+
+  const releaseMic = useCallback(() => {
+    clearSilenceTimer();
+    micRef.current?.stop();
+    vadUnsub.current?.();
+    vadUnsub.current = null;
+    setAudioLevel(0);
+  }, []);
+
+  /** Stop everything: mic, generation and playback. */
+  const endSession = useCallback((message: string | null = null) => {
+    activeRef.current = false;
+    inTurnRef.current = false;
+    echoGateRef.current = null;
+    releaseMic();
+    cancelRef.current?.();
+    speechRef.current?.stop();
+    setVoiceState('idle');
+    setNotice(message);
+  }, [releaseMic]);
+
+  /** In hands-free mode, end the session if nobody speaks for a while. */
+  const armSilenceTimer = useCallback(() => {
+    clearSilenceTimer();
+    const { continuous, silenceTimeoutSec } = optionsRef.current;
+    if (!continuous || silenceTimeoutSec <= 0) return;
+    silenceTimer.current = setTimeout(
+      () => endSession(`Conversation ended after ${silenceTimeoutSec}s of silence.`),
+      silenceTimeoutSec * 1000,
+    );
+  }, [endSession]);
+
+  /** Barge-in: drop the turn under way so the utterance now starting replaces it. */
+  const interrupt = useCallback(() => {
+    turnRef.current++;
+    inTurnRef.current = false;
+    echoGateRef.current = null;
+    cancelRef.current?.();
+    speechRef.current?.stop();
+    setVoiceState('listening');
+  }, []);
+
+  // Open the mic and wait for the next utterance
+  const listen = useCallback(async () => {
+    setVoiceState('listening');
+    const useVAD = inputRef.current.mode === 'vad';
+
+    const mic = new AudioCapture({ sampleRate: VOICE_SAMPLE_RATE });
+    micRef.current = mic;
+
+    // Start VAD + mic
+    if (useVAD) {
+      VAD.reset();
+
+      vadUnsub.current = VAD.onSpeechActivity((activity) => {
+        if (activity === SpeechActivity.Started) {
+          clearSilenceTimer();
+          if (inTurnRef.current) interrupt();
+        }
+        if (activity === SpeechActivity.Ended) {
+          const segment = VAD.popSpeechSegment();
+          if (segment && segment.samples.length >= minSegmentSamples(inputRef.current)) {
+            processSpeech(segment.samples);
+          } else if (!inTurnRef.current) {
+            armSilenceTimer();
+          }
+        }
+      });
+    }
+
+    armSilenceTimer();
+    try {
+      await mic.start(
+        (chunk) => { if (useVAD) VAD.processSamples(echoGateRef.current?.(chunk) ?? chunk); },
+        (level) => { setAudioLevel(level); },
+      );
+      // The session ended while the mic was starting
+      if (!activeRef.current) mic.stop();
+    } catch (err) {
+      endSession();
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [armSilenceTimer, endSession, interrupt]);
+
+  const modelsMissing = () => !ModelManager.getLoadedModel(ModelCategory.Audio)
+    || !ModelManager.getLoadedModel(ModelCategory.SpeechRecognition)
+    || !ModelManager.getLoadedModel(ModelCategory.Language)
+    || !ModelManager.getLoadedModel(ModelCategory.SpeechSynthesis);
+
+  // Start a session
   const startListening = useCallback(async () => {
-    setTranscript('');
-    setResponse('');
     setError(null);
+    setNotice(null);
 
     // Load models if needed
-    const anyMissing = !ModelManager.getLoadedModel(ModelCategory.Audio)
-      || !ModelManager.getLoadedModel(ModelCategory.SpeechRecognition)
-      || !ModelManager.getLoadedModel(ModelCategory.Language)
-      || !ModelManager.getLoadedModel(ModelCategory.SpeechSynthesis);
-
-    if (anyMissing) {
+    if (modelsMissing()) {
       const ok = await ensureModels();
       if (!ok) return;
     }
 
-    setVoiceState('listening');
-
-    const mic = new AudioCapture({ sampleRate: 16000 });
-    micRef.current = mic;
+    activeRef.current = true;
+    await applyVADThreshold(inputRef.current.vadThreshold);
+    await listen();
+  }, [ensureModels, listen]);
+
+  /**
+   * Answer `text` with the conversation so far as context, speaking each
+   * sentence of the answer as soon as it has been generated. Stops early
+   * once `isCurrent` turns false.
+   *
+   * @param heardAt - When the user stopped speaking, for the latency shown.
+   */
+  const respond = useCallback(async (text: string, heardAt: number, isCurrent: () => boolean) => {
+    const history: VoiceTurn[] = [...turnsRef.current, { role: 'user', text }];
+    const replyIdx = history.length;
+    setConversation([...history, { role: 'assistant', text: '' }]);
+    const patchReply = (patch: Partial<VoiceTurn>) => {
+      const next = [...turnsRef.current];
+      next[replyIdx] = { ...next[replyIdx], ...patch };
+      setConversation(next);
+    };
 
-    if (!pipelineRef.current) {
-      pipelineRef.current = new VoicePipeline();
-    }
+    const settings = settingsRef.current;
+    const loadedModel = ModelManager.getLoadedModel(ModelCategory.Language);
+    const systemPrompt = resolveSystemPrompt('voice', { model: loadedModel?.name });
+    const { prompt } = buildChatPrompt(history, resolveChatTemplate(loadedModel), {
+      reserveTokens: settings.maxTokens,
+      systemPrompt,
+    });
 
-    // Start VAD + mic
-    VAD.reset();
+    let gate: EchoGate | null = null;
+    const speech = createSpeechQueue({
+      onStart: () => {
+        if (!isCurrent()) return;
+        setVoiceState('speaking');
+        patchReply({ firstAudioMs: performance.now() - heardAt });
+        if (optionsRef.current.bargeIn) {
+          gate = createEchoGate(speech.level);
+          echoGateRef.current = gate;
+        }
+      },
+    });
+    speechRef.current = speech;
 
-    vadUnsub.current = VAD.onSpeechActivity((activity) => {
-      if (activity === SpeechActivity.Ended) {
-        const segment = VAD.popSpeechSegment();
-        if (segment && segment.samples.length > 1600) {
-          processSpeech(segment.samples);
+    let reply = '';
+    try {
+      const { stream, result: resultPromise, cancel } = await TextGeneration.generateStream(prompt, {
+        maxTokens: settings.maxTokens,
+        temperature: settings.temperature,
+        systemPrompt: systemPrompt || undefined,
+      });
+      // Interrupted while the stream was being set up, when there was nothing to cancel yet
+      if (isCurrent()) cancelRef.current = cancel;
+      else cancel();
+
+      let pending = '';
+      try {
+        for await (const token of stream) {
+          if (!isCurrent()) break;
+          reply += token;
+          patchReply({ text: reply });
+          const { sentences, rest } = takeSentences(pending + token);
+          for (const sentence of sentences) speech.say(sentence);
+          pending = rest;
         }
+        // A cancel from Stop or barge-in isn't a failure; keep what was generated
+        const result = await resultPromise.catch((err) => {
+          if (!isCurrent()) return null;
+          throw err;
+        });
+        if (result?.text && isCurrent()) reply = result.text;
+        patchReply({ text: reply });
+      } finally {
+        if (cancelRef.current === cancel) cancelRef.current = null;
       }
-    });
 
-    await mic.start(
-      (chunk) => { VAD.processSamples(chunk); },
-      (level) => { setAudioLevel(level); },
-    );
-  }, [ensureModels]);
+      if (!isCurrent()) return;
+      speech.say(pending);
+      await speech.finish();
+    } finally {
+      // Silences a reply that was interrupted or failed; a no-op once finished
+      speech.stop();
+      if (echoGateRef.current === gate) echoGateRef.current = null;
+      if (speechRef.current === speech) speechRef.current = null;
+      // Interrupted or failed before a word was generated: drop the empty reply
+      if (!reply) {
+        setConversation(turnsRef.current.filter((_, i) => i !== replyIdx));
+      }
+    }
+  }, []);
 
-  // Process a speech segment through the full pipeline
+  // Process a speech segment: transcribe, answer, then listen again in hands-free mode
   const processSpeech = useCallback(async (audioData: Float32Array) => {
-    const pipeline = pipelineRef.current;
-    if (!pipeline) return;
-
-    // Stop mic during processing
-    micRef.current?.stop();
-    vadUnsub.current?.();
+    const heardAt = performance.now();
+    const turn = ++turnRef.current;
+    const isCurrent = () => activeRef.current && turnRef.current === turn;
+    inTurnRef.current = true;
+    clearSilenceTimer();
+    // Without barge-in the mic is off until the reply has been spoken
+    if (!optionsRef.current.bargeIn) releaseMic();
     setVoiceState('processing');
 
     try {
-      const result = await pipeline.processTurn(audioData, {
-        maxTokens: 60,
-        temperature: 0.7,
-        systemPrompt: 'You are a helpful voice assistant. Keep responses concise — 1-2 sentences max.',
-      }, {
-        onTranscription: (text) => {
-          setTranscript(text);
-        },
-        onResponseToken: (_token, accumulated) => {
-          setResponse(accumulated);
-        },
-        onResponseComplete: (text) => {
-          setResponse(text);
-        },
-        onSynthesisComplete: async (audio, sampleRate) => {
-          setVoiceState('speaking');
-          const player = new AudioPlayback({ sampleRate });
-          await player.play(audio, sampleRate);
-          player.dispose();
-        },
-        onStateChange: (s) => {
-          if (s === 'processingSTT') setVoiceState('processing');
-          if (s === 'generatingResponse') setVoiceState('processing');
-          if (s === 'playingTTS') setVoiceState('speaking');
-        },
-      });
-
-      if (result) {
-        setTranscript(result.transcription);
-        setResponse(result.response);
+      const text = (await STT.transcribe(audioData)).text.trim();
+      if (!isCurrent()) return;
+      const { stopPhrase } = optionsRef.current;
+      if (text && isStopPhrase(text, stopPhrase)) {
+        endSession(`Heard "${stopPhrase}", conversation ended.`);
+        return;
       }
+      if (text) await respond(text, heardAt, isCurrent);
     } catch (err) {
-      setError(err instanceof Error ? err.message : String(err));
+      if (isCurrent()) {
+        endSession();
+        setError(err instanceof Error ? err.message : String(err));
+      }
+      return;
     }
 
-    setVoiceState('idle');
-    setAudioLevel(0);
-  }, []);
+    // Interrupted turns leave the state to the turn that replaced them
+    if (!isCurrent()) return;
+    inTurnRef.current = false;
+    if (!optionsRef.current.continuous) {
+      endSession();
+    } else if (micRef.current?.isCapturing) {
+      setVoiceState('listening');
+      armSilenceTimer();
+    } else {
+      await listen();
+    }
+  }, [releaseMic, endSession, respond, listen, armSilenceTimer]);
 
-  const stopListening = useCallback(() => {
-    micRef.current?.stop();
-    vadUnsub.current?.();
-    setVoiceState('idle');
-    setAudioLevel(0);
-  }, []);
+  /** Push-to-talk pressed: start recording, cutting off any reply under way. */
+  const beginTalk = useCallback(async () => {
+    recordingRef.current = true;
+    setError(null);
+    setNotice(null);
+    if (modelsMissing()) {
+      recordingRef.current = false;
+      await ensureModels();
+      return;
+    }
+
+    if (inTurnRef.current) interrupt();
+    activeRef.current = true;
+    if (!micRef.current?.isCapturing) await listen();
+    // Released while the mic was opening
+    if (!recordingRef.current || !activeRef.current) return;
+    clearSilenceTimer();
+    micRef.current?.clearBuffer();
+    setVoiceState('recording');
+  }, [ensureModels, interrupt, listen]);
+
+  /** Push-to-talk released: what was recorded is the utterance. */
+  const endTalk = useCallback(() => {
+    if (!recordingRef.current) return;
+    recordingRef.current = false;
+    if (!activeRef.current) return;
+
+    const samples = micRef.current?.drainBuffer() ?? new Float32Array(0);
+    if (samples.length > 0 && samples.length >= minSegmentSamples(inputRef.current)) {
+      processSpeech(samples);
+    } else if (optionsRef.current.continuous) {
+      setVoiceState('listening');
+      armSilenceTimer();
+    } else {
+      endSession('Too short: keep holding while you speak.');
+    }
+  }, [processSpeech, armSilenceTimer, endSession]);
+
+  const talkButton = usePushToTalk(pushToTalk && voiceState !== 'loading-models', beginTalk, endTalk);
 
   // Which loaders are still loading?
   const pendingLoaders = [
@@ -170,12 +432,17 @@ export function VoiceTab() {
     { label: 'TTS', loader: ttsLoader },
   ].filter((l) => l.loader.state !== 'ready');
 
+  const idle = voiceState === 'idle' || voiceState === 'loading-models';
+
   return (
     <div className="tab-panel voice-panel">
       {pendingLoaders.length > 0 && voiceState === 'idle' && (
         <ModelBanner
           state={pendingLoaders[0].loader.state}
           progress={pendingLoaders[0].loader.progress}
+          download={pendingLoaders[0].loader.download}
+          onPause={pendingLoaders[0].loader.pause}
+          onCancel={pendingLoaders[0].loader.cancel}
           error={pendingLoaders[0].loader.error}
           onLoad={ensureModels}
           label={`Voice (${pendingLoaders.map((l) => l.label).join(', ')})`}
@@ -184,45 +451,112 @@ export function VoiceTab() {
 
       {error && <div className="model-banner"><span className="error-text">{error}</span></div>}
 
+      <SettingsDrawer scope="voice" {...generation} disabled={!idle} />
+
       <div className="voice-center">
         <div className="voice-orb" data-state={voiceState} style={{ '--level': audioLevel } as React.CSSProperties}>
           <div className="voice-orb-inner" />
         </div>
 
         <p className="voice-status">
-          {voiceState === 'idle' && 'Tap to start listening'}
+          {voiceState === 'idle' && (notice ?? (pushToTalk ? 'Hold Space or the button while you speak' : 'Tap to start listening'))}
           {voiceState === 'loading-models' && 'Loading models...'}
-          {voiceState === 'listening' && 'Listening... speak now'}
+          {voiceState === 'listening' && (pushToTalk ? 'Hold Space to talk' : 'Listening... speak now')}
+          {voiceState === 'recording' && 'Recording... release to send'}
           {voiceState === 'processing' && 'Processing...'}
           {voiceState === 'speaking' && 'Speaking...'}
         </p>
 
-        {voiceState === 'idle' || voiceState === 'loading-models' ? (
-          <button
-            className="btn btn-primary btn-lg"
-            onClick={startListening}
-            disabled={voiceState === 'loading-models'}
-          >
-            Start Listening
-          </button>
-        ) : voiceState === 'listening' ? (
-          <button className="btn btn-lg" onClick={stopListening}>
-            Stop
-          </button>
-        ) : null}
-      </div>
+        <div className="voice-actions">
+          {pushToTalk ? (
+            <button
+              className={`btn btn-lg ${idle || voiceState === 'recording' ? 'btn-primary' : ''}`}
+              {...talkButton}
+              disabled={voiceState === 'loading-models'}
+            >
+              🎤 Hold to Talk
+            </button>
+          ) : idle && (
+            <button
+              className="btn btn-primary btn-lg"
+              onClick={startListening}
+              disabled={voiceState === 'loading-models'}
+            >
+              {options.continuous ? 'Start Conversation' : 'Start Listening'}
+            </button>
+          )}
+          {idle ? turns.length > 0 && (
+            <button className="btn btn-lg" onClick={() => setConversation([])} disabled={voiceState === 'loading-models'}>
+              New Conversation
+            </button>
+          ) : (
+            <button className="btn btn-lg" onClick={() => endSession()}>
+              Stop
+            </button>
+          )}
+        </div>
 
-      {transcript && (
-        <div className="voice-transcript">
-          <h4>You said:</h4>
-          <p>{transcript}</p>
+        <VoiceInputControls {...voiceInput} disabled={!idle} />
+
+        <div className="voice-options">
+          <label className="drawer-check">
+            <input
+              type="checkbox"
+              checked={options.continuous}
+              onChange={(e) => updateOptions({ continuous: e.target.checked })}
+              disabled={!idle}
+            />
+            Hands-free: keep listening after each reply
+          </label>
+          {options.continuous && (
+            <label className="form-field" title="0 keeps listening until you stop">
+              <span>End after silence (s)</span>
+              <input
+                type="number"
+                min={0}
+                max={600}
+                value={options.silenceTimeoutSec}
+                onChange={(e) => e.target.value !== '' && updateOptions({ silenceTimeoutSec: Number(e.target.value) })}
+                disabled={!idle}
+              />
+            </label>
+          )}
+          <label className="drawer-check" title="Speaking while the assistant talks stops it and starts a new turn">
+            <input
+              type="checkbox"
+              checked={options.bargeIn}
+              onChange={(e) => updateOptions({ bargeIn: e.target.checked })}
+              disabled={!idle}
+            />
+            Interrupt by speaking
+          </label>
+          <label className="form-field" title="Saying this ends the conversation; leave empty to disable">
+            <span>Stop phrase</span>
+            <input
+              type="text"
+              value={options.stopPhrase}
+              onChange={(e) => updateOptions({ stopPhrase: e.target.value })}
+              disabled={!idle}
+            />
+          </label>
         </div>
-      )}
+      </div>
 
-      {response && (
-        <div className="voice-response">
-          <h4>AI response:</h4>
-          <p>{response}</p>
+      {turns.length > 0 && (
+        <div className="voice-log">
+          {turns.map((turn, i) => (
+            <div key={i} className={`message message-${turn.role}`}>
+              <div className="message-bubble">
+                {turn.role === 'assistant' && turn.text
+                  ? <Markdown text={turn.text} />
+                  : <p>{turn.text || '...'}</p>}
+                {turn.firstAudioMs !== undefined && (
+                  <div className="message-stats">First audio after {(turn.firstAudioMs / 1000).toFixed(1)}s</div>
+                )}
+              </div>
+            </div>
+          ))}
+          <div ref={logEndRef} />
         </div>
       )}
     </div>
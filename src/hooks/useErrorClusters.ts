@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { getAllSessions } from '../lib/sessionStore';
+import { clusterErrors, type ClusterSource, type ErrorCluster } from '../lib/errorClusters';
+import type { ReportMessage } from '../lib/debugReport';
+
+export interface ErrorClustersResult {
+  clusters: ErrorCluster[];
+  /** Re-read stored sessions and return the up-to-date clusters. */
+  refresh: () => Promise<ErrorCluster[]>;
+}
+
+/**
+ * Recurring-error clusters across every Debug session. The open session's
+ * in-memory messages replace its stored copy, so clusters stay current
+ * between debounced saves.
+ *
+ * @param sessionId   - Open session, null until the store has been opened.
+ * @param sessionName - Its display name.
+ * @param messages    - Its current messages.
+ */
+export function useErrorClusters(
+  sessionId: string | null,
+  sessionName: string,
+  messages: ReportMessage[],
+): ErrorClustersResult {
+  const [stored, setStored] = useState<ClusterSource[]>([]);
+
+  const load = useCallback(async () => {
+    const all = await getAllSessions<ReportMessage>('debug');
+    setStored(all);
+    return all;
+  }, []);
+
+  // Other sessions only change while they are open, so reload on switch
+  useEffect(() => {
+    load().catch((err) => console.warn('[useErrorClusters] Failed to load sessions:', err));
+  }, [load, sessionId]);
+
+  const combine = useCallback((sources: ClusterSource[]) => clusterErrors(sessionId
+    ? [{ id: sessionId, name: sessionName, messages }, ...sources.filter((s) => s.id !== sessionId)]
+    : sources), [sessionId, sessionName, messages]);
+
+  const clusters = useMemo(() => combine(stored), [combine, stored]);
+  const refresh = useCallback(async () => combine(await load()), [combine, load]);
+
+  return { clusters, refresh };
+}
@@ -0,0 +1,70 @@
+import { useState, useCallback } from 'react';
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_SETTINGS,
+  loadPresets,
+  loadSettings,
+  normalizeSettings,
+  savePresets,
+  saveSettings,
+  type GenerationSettings,
+  type SettingsPreset,
+  type SettingsScope,
+} from '../lib/generationSettings';
+
+export interface GenerationSettingsResult {
+  settings: GenerationSettings;
+  update: (patch: Partial<GenerationSettings>) => void;
+  reset: () => void;
+  /** Built-in presets followed by user-saved ones. */
+  presets: SettingsPreset[];
+  applyPreset: (name: string) => void;
+  savePreset: (name: string) => void;
+  deletePreset: (name: string) => void;
+}
+
+/**
+ * Per-tab generation settings, persisted on every change.
+ *
+ * @param scope - Which tab's settings to read and write.
+ */
+export function useGenerationSettings(scope: SettingsScope): GenerationSettingsResult {
+  const [settings, setSettings] = useState<GenerationSettings>(() => loadSettings(scope));
+  const [userPresets, setUserPresets] = useState<SettingsPreset[]>(() => loadPresets());
+
+  const commit = useCallback((next: GenerationSettings) => {
+    saveSettings(scope, next);
+    setSettings(next);
+  }, [scope]);
+
+  const update = useCallback((patch: Partial<GenerationSettings>) => {
+    setSettings((prev) => {
+      const next = normalizeSettings(scope, { ...prev, ...patch });
+      saveSettings(scope, next);
+      return next;
+    });
+  }, [scope]);
+
+  const reset = useCallback(() => commit({ ...DEFAULT_SETTINGS[scope] }), [scope, commit]);
+
+  const presets = [...BUILT_IN_PRESETS, ...userPresets];
+
+  const applyPreset = useCallback((name: string) => {
+    const preset = [...BUILT_IN_PRESETS, ...userPresets].find((p) => p.name === name);
+    if (preset) update(preset.settings);
+  }, [userPresets, update]);
+
+  const savePreset = useCallback((name: string) => {
+    const next = [...userPresets.filter((p) => p.name !== name), { name, settings }];
+    savePresets(next);
+    setUserPresets(next);
+  }, [userPresets, settings]);
+
+  const deletePreset = useCallback((name: string) => {
+    const next = userPresets.filter((p) => p.name !== name);
+    savePresets(next);
+    setUserPresets(next);
+  }, [userPresets]);
+
+  return { settings, update, reset, presets, applyPreset, savePreset, deletePreset };
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  addDocuments,
+  deleteDocument,
+  listDocuments,
+  type KnowledgeDoc,
+} from '../lib/knowledgeBase';
+
+const ENABLED_KEY = 'runanywhere.knowledge.enabled';
+
+export interface KnowledgeBaseResult {
+  docs: KnowledgeDoc[];
+  /** Retrieval is on and there is something to retrieve from. */
+  active: boolean;
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+  busy: boolean;
+  add: (files: File[]) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  /** Re-read the document list. */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook over the local knowledge base used to ground Debug analyses.
+ * Errors from indexing are reported with `alert`, like other file imports.
+ */
+export function useKnowledgeBase(): KnowledgeBaseResult {
+  const [docs, setDocs] = useState<KnowledgeDoc[]>([]);
+  const [enabled, setEnabledState] = useState(() => localStorage.getItem(ENABLED_KEY) !== 'false');
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setDocs(await listDocuments());
+  }, []);
+
+  useEffect(() => {
+    refresh().catch((err) => console.warn('[useKnowledgeBase] Failed to open knowledge base:', err));
+  }, [refresh]);
+
+  const setEnabled = useCallback((value: boolean) => {
+    localStorage.setItem(ENABLED_KEY, String(value));
+    setEnabledState(value);
+  }, []);
+
+  /** Run a mutation with `busy` set, alerting on failure and refreshing either way. */
+  const run = useCallback(async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      alert(`${failure}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      await refresh().catch(() => {});
+      setBusy(false);
+    }
+  }, [refresh]);
+
+  const add = useCallback((files: File[]) => run(() => addDocuments(files), 'Indexing failed'), [run]);
+  const remove = useCallback((id: string) => run(() => deleteDocument(id), 'Delete failed'), [run]);
+
+  return {
+    docs,
+    active: enabled && docs.length > 0,
+    enabled,
+    setEnabled,
+    busy,
+    add,
+    remove,
+    refresh,
+  };
+}
@@ -1,13 +1,46 @@
-import { useState, useCallback, useRef } from 'react';
-import { ModelManager, ModelCategory, EventBus } from '@runanywhere/web';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { ModelManager, ModelCategory, EventBus, type ManagedModel } from '@runanywhere/web';
+import { getSelectedModelId, setSelectedModelId } from '../lib/modelSelection';
+import { confirmDownloadFits } from '../lib/storage';
+import {
+  downloadModelResumable,
+  discardPartialDownload,
+  getPartialBytes,
+  supportsResumableDownloads,
+  type DownloadStats,
+} from '../lib/resumableDownload';
 
-export type LoaderState = 'idle' | 'downloading' | 'loading' | 'ready' | 'error';
+export type LoaderState = 'idle' | 'downloading' | 'paused' | 'loading' | 'ready' | 'error';
+
+type AbortReason = 'paused' | 'cancelled';
 
 interface ModelLoaderResult {
   state: LoaderState;
   progress: number;
+  /** Byte counts, rate and ETA while downloading or paused. */
+  download: DownloadStats | null;
   error: string | null;
+  /** Download (resuming any partial download) and load the selected model. */
   ensure: () => Promise<boolean>;
+  /** Stop the download, keeping what was fetched so `ensure` can resume it. */
+  pause: () => void;
+  /** Stop the download and discard the partial files. */
+  cancel: () => Promise<void>;
+  /** Every registered model for this category. */
+  models: ManagedModel[];
+  /** The model `ensure` will load (user choice, else the first registered). */
+  selectedId: string | null;
+  /** Pick a model; if one of this category is loaded, switch to it now. */
+  select: (modelId: string) => Promise<boolean>;
+}
+
+const modelsFor = (category: ModelCategory) =>
+  ModelManager.getModels().filter((m) => m.modality === category);
+
+/** Resolve the remembered choice, falling back to the first registered model. */
+function resolveSelected(category: ModelCategory, models: ManagedModel[]): ManagedModel | undefined {
+  const chosen = getSelectedModelId(category);
+  return models.find((m) => m.id === chosen) ?? models[0];
 }
 
 /**
@@ -22,12 +55,57 @@ export function useModelLoader(category: ModelCategory, coexist = false): ModelL
     ModelManager.getLoadedModel(category) ? 'ready' : 'idle',
   );
   const [progress, setProgress] = useState(0);
+  const [download, setDownload] = useState<DownloadStats | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [models, setModels] = useState<ManagedModel[]>(() => modelsFor(category));
+  const [selectedId, setSelectedId] = useState<string | null>(
+    () => resolveSelected(category, modelsFor(category))?.id ?? null,
+  );
   const loadingRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const selectedRef = useRef(selectedId);
+  selectedRef.current = selectedId;
+
+  // Keep the catalog in sync with registrations, downloads and loads
+  useEffect(() => {
+    return ModelManager.onChange(() => {
+      const next = modelsFor(category);
+      setModels(next);
+      if (!next.some((m) => m.id === selectedRef.current)) {
+        setSelectedId(resolveSelected(category, next)?.id ?? null);
+      }
+    });
+  }, [category]);
+
+  // Surface a download left unfinished by a previous visit as paused
+  useEffect(() => {
+    const model = models.find((m) => m.id === selectedId);
+    if (!model || state !== 'idle' || model.status === 'downloaded' || model.status === 'loaded') return;
+
+    let cancelled = false;
+    getPartialBytes(model).then((bytes) => {
+      if (cancelled || bytes === 0) return;
+      setState((s) => (s === 'idle' ? 'paused' : s));
+      setDownload({
+        bytesDownloaded: bytes,
+        totalBytes: 0,
+        progress: 0,
+        bytesPerSecond: 0,
+        etaSeconds: null,
+        attempt: 1,
+        currentFile: '',
+      });
+    }).catch(() => { /* OPFS unavailable */ });
+    return () => { cancelled = true; };
+  }, [models, selectedId, state]);
 
   const ensure = useCallback(async (): Promise<boolean> => {
+    const registered = modelsFor(category);
+    const model = registered.find((m) => m.id === selectedRef.current) ?? resolveSelected(category, registered);
+
     // Already loaded
-    if (ModelManager.getLoadedModel(category)) {
+    const loaded = ModelManager.getLoadedModel(category);
+    if (loaded && (!model || loaded.id === model.id)) {
       setState('ready');
       return true;
     }
@@ -36,29 +114,72 @@ export function useModelLoader(category: ModelCategory, coexist = false): ModelL
     loadingRef.current = true;
 
     try {
-      // Find a model for this category
-      const models = ModelManager.getModels().filter((m) => m.modality === category);
-      if (models.length === 0) {
+      if (!model) {
         setError(`No ${category} model registered`);
         setState('error');
         return false;
       }
 
-      const model = models[0];
+      // Switching models — release the old one before pulling in the new
+      if (loaded) {
+        setState('loading');
+        await ModelManager.unloadModel(loaded.id);
+      }
 
       // Download if needed
       if (model.status !== 'downloaded' && model.status !== 'loaded') {
+        if (!(await confirmDownloadFits(model.id))) {
+          setError('Download cancelled — not enough browser storage');
+          setState('error');
+          return false;
+        }
+
         setState('downloading');
         setProgress(0);
 
-        const unsub = EventBus.shared.on('model.downloadProgress', (evt) => {
-          if (evt.modelId === model.id) {
-            setProgress(evt.progress ?? 0);
+        if (supportsResumableDownloads()) {
+          const controller = new AbortController();
+          abortRef.current = controller;
+          try {
+            await downloadModelResumable(model, {
+              signal: controller.signal,
+              onProgress: (stats) => {
+                setDownload(stats);
+                setProgress(stats.progress);
+              },
+            });
+          } catch (err) {
+            if (!controller.signal.aborted) throw err;
+            if ((controller.signal.reason as AbortReason) === 'cancelled') {
+              await discardPartialDownload(model);
+              setDownload(null);
+              setProgress(0);
+              setState('idle');
+            } else {
+              setState('paused');
+            }
+            return false;
+          } finally {
+            abortRef.current = null;
           }
-        });
+        } else {
+          // No OPFS writable streams — fall back to the SDK's one-shot download
+          const unsub = EventBus.shared.on('model.downloadProgress', (evt) => {
+            if (evt.modelId === model.id) {
+              setProgress(evt.progress ?? 0);
+            }
+          });
+          try {
+            await ModelManager.downloadModel(model.id);
+          } finally {
+            unsub();
+          }
+          // downloadModel records failures on the model instead of throwing
+          const after = ModelManager.getModels().find((m) => m.id === model.id);
+          if (after?.status === 'error') throw new Error(after.error ?? 'Download failed');
+        }
 
-        await ModelManager.downloadModel(model.id);
-        unsub();
+        setDownload(null);
         setProgress(1);
       }
 
@@ -82,5 +203,43 @@ export function useModelLoader(category: ModelCategory, coexist = false): ModelL
     }
   }, [category, coexist]);
 
-  return { state, progress, error, ensure };
+  const pause = useCallback(() => {
+    abortRef.current?.abort('paused' satisfies AbortReason);
+  }, []);
+
+  const cancel = useCallback(async () => {
+    if (abortRef.current) {
+      abortRef.current.abort('cancelled' satisfies AbortReason);
+      return;
+    }
+    // Paused — nothing in flight, just drop the partial files
+    const model = modelsFor(category).find((m) => m.id === selectedRef.current);
+    if (model) await discardPartialDownload(model);
+    setDownload(null);
+    setProgress(0);
+    setState('idle');
+  }, [category]);
+
+  const select = useCallback(async (modelId: string): Promise<boolean> => {
+    if (loadingRef.current) return false;
+
+    setDownload(null);
+    setProgress(0);
+    setSelectedModelId(category, modelId);
+    setSelectedId(modelId);
+    selectedRef.current = modelId;
+    setError(null);
+
+    // Nothing loaded yet — the next ensure() picks up the new choice
+    const loaded = ModelManager.getLoadedModel(category);
+    if (!loaded) {
+      setState('idle');
+      return true;
+    }
+    if (loaded.id === modelId) return true;
+
+    return ensure();
+  }, [category, ensure]);
+
+  return { state, progress, download, error, ensure, pause, cancel, models, selectedId, select };
 }
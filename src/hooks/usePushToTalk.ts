@@ -0,0 +1,81 @@
+import { useEffect, useRef } from 'react';
+
+export interface PushToTalkButtonProps {
+  onPointerDown: (e: React.PointerEvent) => void;
+  onPointerUp: () => void;
+  onPointerCancel: () => void;
+  onLostPointerCapture: () => void;
+}
+
+/** Space is left alone while typing, so text fields keep working. */
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Hold-to-talk over the Space key and a button. `onPress` runs when either
+ * goes down and `onRelease` when it comes back up; key repeat and a second
+ * press while already held are ignored.
+ *
+ * @param enabled - Listen for Space only while push-to-talk is selected.
+ * @returns Props for the hold-to-talk button.
+ */
+export function usePushToTalk(
+  enabled: boolean,
+  onPress: () => void,
+  onRelease: () => void,
+): PushToTalkButtonProps {
+  const held = useRef(false);
+  // Window listeners outlive renders, so call the latest handlers through refs
+  const pressRef = useRef(onPress);
+  const releaseRef = useRef(onRelease);
+  pressRef.current = onPress;
+  releaseRef.current = onRelease;
+
+  const press = () => {
+    if (held.current) return;
+    held.current = true;
+    pressRef.current();
+  };
+  const release = () => {
+    if (!held.current) return;
+    held.current = false;
+    releaseRef.current();
+  };
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isEditable(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) press();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      e.preventDefault();
+      release();
+    };
+    // Switching windows mid-press never delivers the keyup
+    const handleBlur = () => release();
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      release();
+    };
+  }, [enabled]);
+
+  return {
+    onPointerDown: (e) => {
+      if (e.button !== 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      press();
+    },
+    onPointerUp: release,
+    onPointerCancel: release,
+    onLostPointerCapture: release,
+  };
+}
@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  createSession,
+  getSession,
+  listSessions,
+  saveMessages,
+  renameSession,
+  deleteSession,
+  searchSessions,
+  type Session,
+  type SessionKind,
+  type SessionSummary,
+} from '../lib/sessionStore';
+
+const SAVE_DEBOUNCE_MS = 400;
+
+const activeKey = (kind: SessionKind) => `runanywhere.session.active.${kind}`;
+
+// Shared across mounts so StrictMode's double effect doesn't create two sessions
+const _resuming: Partial<Record<SessionKind, Promise<Session<unknown>>>> = {};
+
+/** Open the last active session of a kind, else the most recent, else a new one. */
+function resumeSession<M>(kind: SessionKind): Promise<Session<M>> {
+  if (!_resuming[kind]) {
+    _resuming[kind] = (async () => {
+      const lastId = localStorage.getItem(activeKey(kind));
+      let session = lastId ? await getSession(lastId) : null;
+      if (!session) {
+        const [latest] = await listSessions(kind);
+        session = latest ? await getSession(latest.id) : null;
+      }
+      return session ?? createSession(kind);
+    })().finally(() => { delete _resuming[kind]; });
+  }
+  return _resuming[kind] as Promise<Session<M>>;
+}
+
+export interface SessionResult<M> {
+  /** Current session id, null until the store has been opened. */
+  sessionId: string | null;
+  sessionName: string;
+  /** Sessions of this kind (filtered by the active search query). */
+  sessions: SessionSummary[];
+  messages: M[];
+  setMessages: React.Dispatch<React.SetStateAction<M[]>>;
+  newSession: () => Promise<void>;
+  openSession: (id: string) => Promise<void>;
+  rename: (id: string, name: string) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  search: (query: string) => Promise<void>;
+}
+
+/**
+ * Hook that keeps a tab's message list in an IndexedDB session.
+ * Resumes the last active session on mount, so reloads and tab switches
+ * don't lose the conversation, and saves changes with a short debounce.
+ *
+ * @param kind   - Which session family this tab owns.
+ * @param textOf - Extracts searchable text from a message.
+ */
+export function useSession<M>(kind: SessionKind, textOf: (message: M) => string): SessionResult<M> {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionName, setSessionName] = useState('');
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [messages, setMessages] = useState<M[]>([]);
+
+  // Messages are only written back once they belong to a loaded session,
+  // otherwise the initial empty array would clobber the stored one. The
+  // array read from the store is remembered so opening a session doesn't
+  // immediately write it back (and bump its `updatedAt`).
+  const loadedIdRef = useRef<string | null>(null);
+  const loadedMessagesRef = useRef<M[] | null>(null);
+  const pendingRef = useRef<{ id: string; messages: M[] } | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const queryRef = useRef('');
+  const textOfRef = useRef(textOf);
+  textOfRef.current = textOf;
+
+  const refreshList = useCallback(async () => {
+    const q = queryRef.current;
+    setSessions(q ? await searchSessions(kind, q, textOfRef.current) : await listSessions(kind));
+  }, [kind]);
+
+  const flush = useCallback(async () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (pending) await saveMessages(pending.id, pending.messages);
+  }, []);
+
+  const activate = useCallback((id: string, name: string, msgs: M[]) => {
+    loadedIdRef.current = id;
+    loadedMessagesRef.current = msgs;
+    setSessionId(id);
+    setSessionName(name);
+    setMessages(msgs);
+    localStorage.setItem(activeKey(kind), id);
+  }, [kind]);
+
+  // Resume the last active session (or the most recent one) on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const session = await resumeSession<M>(kind);
+      if (cancelled) return;
+
+      activate(session.id, session.name, session.messages);
+      await refreshList();
+    })().catch((err) => console.warn('[useSession] Failed to open session store:', err));
+
+    return () => {
+      cancelled = true;
+      flush();
+    };
+  }, [kind, activate, refreshList, flush]);
+
+  // Debounced persistence of message changes
+  useEffect(() => {
+    const id = loadedIdRef.current;
+    if (!id || id !== sessionId || messages === loadedMessagesRef.current) return;
+
+    pendingRef.current = { id, messages };
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      flush().then(refreshList).catch((err) => console.warn('[useSession] Save failed:', err));
+    }, SAVE_DEBOUNCE_MS);
+  }, [messages, sessionId, flush, refreshList]);
+
+  const newSession = useCallback(async () => {
+    await flush();
+    const session = await createSession<M>(kind);
+    activate(session.id, session.name, session.messages);
+    await refreshList();
+  }, [kind, activate, flush, refreshList]);
+
+  const openSession = useCallback(async (id: string) => {
+    if (id === sessionId) return;
+    await flush();
+    const session = await getSession<M>(id);
+    if (!session) return;
+    activate(session.id, session.name, session.messages);
+    await refreshList();
+  }, [sessionId, activate, flush, refreshList]);
+
+  const rename = useCallback(async (id: string, name: string) => {
+    await renameSession(id, name);
+    if (id === sessionId && name.trim()) setSessionName(name.trim());
+    await refreshList();
+  }, [sessionId, refreshList]);
+
+  const remove = useCallback(async (id: string) => {
+    if (id === sessionId) {
+      // Drop pending writes for the session being deleted
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = null;
+      pendingRef.current = null;
+    }
+    await deleteSession(id);
+
+    if (id === sessionId) {
+      const [latest] = await listSessions(kind);
+      const next = latest ? await getSession<M>(latest.id) : await createSession<M>(kind);
+      if (next) activate(next.id, next.name, next.messages);
+    }
+    await refreshList();
+  }, [kind, sessionId, activate, refreshList]);
+
+  const search = useCallback(async (query: string) => {
+    queryRef.current = query;
+    await refreshList();
+  }, [refreshList]);
+
+  return {
+    sessionId,
+    sessionName,
+    sessions,
+    messages,
+    setMessages,
+    newSession,
+    openSession,
+    rename,
+    remove,
+    search,
+  };
+}
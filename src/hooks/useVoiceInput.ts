@@ -0,0 +1,27 @@
+import { useState, useCallback } from 'react';
+import {
+  loadVoiceInput,
+  normalizeVoiceInput,
+  saveVoiceInput,
+  type VoiceInputSettings,
+} from '../lib/voiceInput';
+
+export interface VoiceInputResult {
+  settings: VoiceInputSettings;
+  update: (patch: Partial<VoiceInputSettings>) => void;
+}
+
+/** Voice input mode, VAD threshold and minimum segment length, persisted on every change. */
+export function useVoiceInput(): VoiceInputResult {
+  const [settings, setSettings] = useState<VoiceInputSettings>(() => loadVoiceInput());
+
+  const update = useCallback((patch: Partial<VoiceInputSettings>) => {
+    setSettings((prev) => {
+      const next = normalizeVoiceInput({ ...prev, ...patch });
+      saveVoiceInput(next);
+      return next;
+    });
+  }, []);
+
+  return { settings, update };
+}
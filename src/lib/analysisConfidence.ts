@@ -0,0 +1,141 @@
+/**
+ * Self-consistency confidence for Debug analyses.
+ *
+ * The model is asked for the analysis again a few times at a higher
+ * temperature, in a single round with no helper tool results, and each
+ * sample is compared with the accepted analysis. If a model keeps naming
+ * the same error type, severity and cause, the analysis is more likely
+ * right. A sample that isn't a valid analysis counts as full disagreement.
+ */
+
+import { ToolCalling, fromToolValue } from '@runanywhere/web-llamacpp';
+import { validateAnalysis } from './analysisSchema';
+import { SEVERITIES, type DebugAnalysis } from './debugReport';
+import { ANALYZE_ERROR_TOOL } from './debugTools';
+
+export interface AnalysisConfidence {
+  /** 0–1, weighted agreement averaged over the samples. */
+  score: number;
+  samples: number;
+  /** Samples that produced a valid analysis. */
+  validSamples: number;
+  /** Average agreement per aspect, 0–1. */
+  agreement: { errorType: number; severity: number; rootCause: number };
+}
+
+export interface ConfidenceOptions {
+  systemPrompt: string;
+  temperature: number;
+  maxTokens: number;
+  samples: number;
+  /** Called after each sample with the number finished so far. */
+  onProgress?: (done: number) => void;
+}
+
+/** Sample count choices offered in the UI; 0 turns the check off. */
+export const CONFIDENCE_SAMPLE_OPTIONS = [0, 2, 3, 5];
+export const DEFAULT_CONFIDENCE_SAMPLES = 2;
+
+const SAMPLES_KEY = 'runanywhere.debug.confidenceSamples';
+
+/** Samples need some randomness to disagree at all. */
+const MIN_SAMPLE_TEMPERATURE = 0.7;
+
+const WEIGHTS = { errorType: 0.4, severity: 0.2, rootCause: 0.4 };
+
+export function loadConfidenceSamples(): number {
+  const raw = localStorage.getItem(SAMPLES_KEY);
+  const stored = raw === null ? NaN : Number(raw);
+  return CONFIDENCE_SAMPLE_OPTIONS.includes(stored) ? stored : DEFAULT_CONFIDENCE_SAMPLES;
+}
+
+export function saveConfidenceSamples(samples: number): void {
+  localStorage.setItem(SAMPLES_KEY, String(samples));
+}
+
+const normalizeType = (t: string) => t.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function typeAgreement(a: string, b: string): number {
+  const x = normalizeType(a);
+  const y = normalizeType(b);
+  if (!x || !y) return 0;
+  return x === y ? 1 : x.includes(y) || y.includes(x) ? 0.5 : 0;
+}
+
+/** 1 for the same level, 0.5 for a neighbouring one. */
+function severityAgreement(a: DebugAnalysis['severity'], b: DebugAnalysis['severity']): number {
+  const distance = Math.abs(SEVERITIES.indexOf(a) - SEVERITIES.indexOf(b));
+  return distance === 0 ? 1 : distance === 1 ? 0.5 : 0;
+}
+
+const words = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9_$]{3,}/g) ?? []);
+
+/**
+ * Word-set overlap (Jaccard) of the two root causes. Paraphrases of the
+ * same cause rarely share more than half their words, so 0.5 counts as
+ * full agreement.
+ */
+function textAgreement(a: string, b: string): number {
+  const x = words(a);
+  const y = words(b);
+  if (x.size === 0 || y.size === 0) return 0;
+  let shared = 0;
+  for (const w of x) if (y.has(w)) shared++;
+  return Math.min(1, (2 * shared) / (x.size + y.size - shared));
+}
+
+/** One tool-free resample of the analysis, or null if it isn't valid. */
+async function sampleAnalysis(prompt: string, options: ConfidenceOptions): Promise<DebugAnalysis | null> {
+  const response = await ToolCalling.generateWithTools(
+    `${prompt}\n\nCall ${ANALYZE_ERROR_TOOL} now with your analysis.`,
+    {
+      autoExecute: false,
+      maxToolCalls: 1,
+      temperature: Math.max(options.temperature, MIN_SAMPLE_TEMPERATURE),
+      maxTokens: options.maxTokens,
+      systemPrompt: options.systemPrompt,
+    },
+  );
+  const call = response.toolCalls.find((c) => c.toolName === ANALYZE_ERROR_TOOL);
+  if (!call) return null;
+  const args = Object.fromEntries(Object.entries(call.arguments).map(([k, v]) => [k, fromToolValue(v)]));
+  const validation = validateAnalysis(args);
+  return validation.valid ? validation.analysis : null;
+}
+
+/** Sample the model `options.samples` times and score agreement with `analysis`. */
+export async function estimateConfidence(
+  prompt: string,
+  analysis: DebugAnalysis,
+  options: ConfidenceOptions,
+): Promise<AnalysisConfidence> {
+  const totals = { errorType: 0, severity: 0, rootCause: 0 };
+  let validSamples = 0;
+
+  for (let i = 0; i < options.samples; i++) {
+    const sample = await sampleAnalysis(prompt, options);
+    if (sample) {
+      validSamples++;
+      totals.errorType += typeAgreement(analysis.errorType, sample.errorType);
+      totals.severity += severityAgreement(analysis.severity, sample.severity);
+      totals.rootCause += textAgreement(analysis.rootCause, sample.rootCause);
+    }
+    options.onProgress?.(i + 1);
+  }
+
+  const n = Math.max(1, options.samples);
+  const agreement = {
+    errorType: totals.errorType / n,
+    severity: totals.severity / n,
+    rootCause: totals.rootCause / n,
+  };
+  const score = WEIGHTS.errorType * agreement.errorType
+    + WEIGHTS.severity * agreement.severity
+    + WEIGHTS.rootCause * agreement.rootCause;
+  return { score, samples: options.samples, validSamples, agreement };
+}
+
+/** "High", "Medium" or "Low" for a confidence score. */
+export function confidenceLevel(score: number): 'High' | 'Medium' | 'Low' {
+  return score >= 0.75 ? 'High' : score >= 0.5 ? 'Medium' : 'Low';
+}
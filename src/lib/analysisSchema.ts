@@ -0,0 +1,58 @@
+/**
+ * Schema for the arguments of the `analyze_error` tool.
+ *
+ * Small models often call the tool with missing fields, placeholder text or
+ * a severity outside the enum. Validation reports every problem in one
+ * message so the agent loop can hand it back to the model verbatim.
+ */
+
+import { SEVERITIES, type DebugAnalysis, type Severity } from './debugReport';
+
+interface FieldRule {
+  required: boolean;
+  maxLength: number;
+}
+
+export const ANALYSIS_FIELDS: Record<keyof DebugAnalysis, FieldRule> = {
+  errorType: { required: true, maxLength: 120 },
+  severity: { required: true, maxLength: 20 },
+  rootCause: { required: true, maxLength: 4000 },
+  suggestedFix: { required: true, maxLength: 6000 },
+  codeExample: { required: false, maxLength: 8000 },
+  additionalNotes: { required: false, maxLength: 4000 },
+};
+
+/** Values models emit when they have nothing to say. */
+const PLACEHOLDER = /^(?:unknown(?: error)?|n\/?a|none|null|undefined|tbd|todo|\.{2,}|-+|<[^>]*>)$/i;
+
+export type AnalysisValidation =
+  | { valid: true; analysis: DebugAnalysis }
+  | { valid: false; errors: string[] };
+
+export function validateAnalysis(args: Record<string, unknown>): AnalysisValidation {
+  const errors: string[] = [];
+  const values = {} as Record<keyof DebugAnalysis, string>;
+
+  for (const [field, rule] of Object.entries(ANALYSIS_FIELDS) as [keyof DebugAnalysis, FieldRule][]) {
+    const raw = args[field];
+    if (raw !== undefined && raw !== null && typeof raw !== 'string') {
+      errors.push(`${field} must be a string`);
+      continue;
+    }
+    const value = (raw ?? '').trim();
+    if (rule.required && (!value || PLACEHOLDER.test(value))) {
+      errors.push(`${field} is required`);
+    } else if (value.length > rule.maxLength) {
+      errors.push(`${field} is longer than ${rule.maxLength} characters`);
+    }
+    values[field] = value;
+  }
+
+  const severity = values.severity.toLowerCase();
+  if (values.severity && !PLACEHOLDER.test(values.severity) && !SEVERITIES.includes(severity as Severity)) {
+    errors.push(`severity must be one of ${SEVERITIES.join(', ')} (got "${values.severity}")`);
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, analysis: { ...values, severity: severity as Severity } };
+}
@@ -0,0 +1,58 @@
+/**
+ * Alternative replies ("branches") for a single message.
+ *
+ * A regenerated message keeps every reply it has produced in `variants`,
+ * and its top-level fields always mirror the active one. Code that only
+ * reads the message (rendering, prompt building, search, export) therefore
+ * never needs to know branches exist.
+ */
+
+export interface Branched<V> {
+  variants?: V[];
+  /** Index into `variants` of the reply currently shown. */
+  variantIndex?: number;
+}
+
+/**
+ * Start a new variant, keeping the current reply as an alternative.
+ *
+ * @param current - The message's existing reply, used as the first variant
+ *                  the first time a message is regenerated.
+ * @param next    - Initial fields for the new reply.
+ */
+export function addVariant<V extends object, M extends V & Branched<V>>(message: M, current: V, next: V): M {
+  const variants = [...(message.variants ?? [current]), next];
+  return { ...showReply(message, activeReply(message) ?? current, next), variants, variantIndex: variants.length - 1 };
+}
+
+/** Update the active reply (e.g. while it streams), keeping its variant in sync. */
+export function updateVariant<V extends object, M extends V & Branched<V>>(message: M, patch: Partial<V>): M {
+  const { variants, variantIndex } = message;
+  if (!variants || variantIndex === undefined) return { ...message, ...patch };
+  return {
+    ...message,
+    ...patch,
+    variants: variants.map((v, i) => (i === variantIndex ? { ...v, ...patch } : v)),
+  };
+}
+
+/** Show another variant. Out-of-range indexes are ignored. */
+export function selectVariant<V extends object, M extends V & Branched<V>>(message: M, index: number): M {
+  const variant = message.variants?.[index];
+  if (!variant) return message;
+  const shown = activeReply(message);
+  return { ...(shown ? showReply(message, shown, variant) : { ...message, ...variant }), variantIndex: index };
+}
+
+const activeReply = <V>({ variants, variantIndex }: Branched<V>): V | undefined =>
+  variantIndex === undefined ? undefined : variants?.[variantIndex];
+
+/**
+ * Swap the reply mirrored on `message` from `shown` to `next`. Fields set on
+ * `shown` but missing from `next` (e.g. `failed`, or keys dropped when the
+ * variant was persisted) are cleared rather than left over from `shown`.
+ */
+function showReply<V extends object, M extends V>(message: M, shown: V, next: V): M {
+  const cleared = Object.fromEntries(Object.keys(shown).map((key) => [key, undefined]));
+  return { ...message, ...cleared, ...next };
+}
@@ -0,0 +1,167 @@
+/**
+ * Multi-turn prompt construction for TextGeneration.
+ *
+ * `TextGeneration.generateStream` takes a single prompt string, which the
+ * native engine wraps in the model's chat template as one user turn (and
+ * injects `systemPrompt` as the system turn). To give the model real
+ * conversation memory we render the earlier turns with the same template
+ * and splice them into that user slot: the prompt starts with the first
+ * user message, closes the turn, replays each later turn with the model's
+ * own role markers and ends with the latest user message left open. Once
+ * the engine adds its opening user marker and the trailing assistant
+ * marker, the model sees an ordinary multi-turn transcript.
+ *
+ * History that would overflow the context window is truncated from the
+ * oldest end, always keeping whole user/assistant exchanges.
+ */
+
+import type { ManagedModel } from '@runanywhere/web';
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+/** Role markers for one chat template family. */
+interface ChatTemplate {
+  name: string;
+  /** Text that closes a turn (e.g. `<|im_end|>\n`). */
+  endOfTurn: string;
+  /** Text that opens a user turn. */
+  userStart: string;
+  /** Text that opens an assistant turn. */
+  assistantStart: string;
+}
+
+const CHATML: ChatTemplate = {
+  name: 'chatml',
+  endOfTurn: '<|im_end|>\n',
+  userStart: '<|im_start|>user\n',
+  assistantStart: '<|im_start|>assistant\n',
+};
+
+const LLAMA3: ChatTemplate = {
+  name: 'llama3',
+  endOfTurn: '<|eot_id|>',
+  userStart: '<|start_header_id|>user<|end_header_id|>\n\n',
+  assistantStart: '<|start_header_id|>assistant<|end_header_id|>\n\n',
+};
+
+const GEMMA: ChatTemplate = {
+  name: 'gemma',
+  endOfTurn: '<end_of_turn>\n',
+  userStart: '<start_of_turn>user\n',
+  assistantStart: '<start_of_turn>model\n',
+};
+
+const PHI3: ChatTemplate = {
+  name: 'phi3',
+  endOfTurn: '<|end|>\n',
+  userStart: '<|user|>\n',
+  assistantStart: '<|assistant|>\n',
+};
+
+/** Plain-text transcript for models whose template we don't recognise. */
+const PLAIN: ChatTemplate = {
+  name: 'plain',
+  endOfTurn: '\n\n',
+  userStart: 'User: ',
+  assistantStart: 'Assistant: ',
+};
+
+// Matched against the model id + name, first hit wins.
+const TEMPLATE_PATTERNS: [RegExp, ChatTemplate][] = [
+  [/lfm2|qwen|smollm|hermes|chatml/i, CHATML],
+  [/llama-?3/i, LLAMA3],
+  [/gemma/i, GEMMA],
+  [/phi-?3|phi-?4/i, PHI3],
+];
+
+/** Context window assumed when nothing better is known (tokens). */
+export const DEFAULT_CONTEXT_TOKENS = 4096;
+
+/** Pick the chat template for a loaded model, falling back to a plain transcript. */
+export function resolveChatTemplate(model: Pick<ManagedModel, 'id' | 'name'> | null): ChatTemplate {
+  if (!model) return PLAIN;
+  const key = `${model.id} ${model.name}`;
+  for (const [pattern, template] of TEMPLATE_PATTERNS) {
+    if (pattern.test(key)) return template;
+  }
+  return PLAIN;
+}
+
+/**
+ * Rough token estimate. English prose averages ~4 characters per token; code
+ * and stack traces are denser, so we divide by 3.5 to truncate early rather
+ * than let the engine overflow.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3.5);
+}
+
+export interface BuildChatPromptOptions {
+  /** Total context window of the model, in tokens. */
+  contextTokens?: number;
+  /** Tokens reserved for the reply (usually the `maxTokens` option). */
+  reserveTokens?: number;
+  /** System prompt passed alongside, counted against the budget. */
+  systemPrompt?: string;
+}
+
+export interface ChatPrompt {
+  prompt: string;
+  /** Number of earlier turns dropped to fit the context window. */
+  droppedTurns: number;
+}
+
+/**
+ * Build a prompt carrying the whole conversation. `turns` must end with the
+ * user message being answered; empty turns are ignored.
+ */
+export function buildChatPrompt(
+  turns: ChatTurn[],
+  template: ChatTemplate,
+  options: BuildChatPromptOptions = {},
+): ChatPrompt {
+  const {
+    contextTokens = DEFAULT_CONTEXT_TOKENS,
+    reserveTokens = 512,
+    systemPrompt = '',
+  } = options;
+
+  const history = turns.filter((t) => t.text.trim());
+  if (history.length === 0) return { prompt: '', droppedTurns: 0 };
+
+  const budget = contextTokens - reserveTokens - estimateTokens(systemPrompt);
+  const latest = history[history.length - 1];
+  const earlier = history.slice(0, -1);
+
+  // Walk backwards keeping whole turns while they fit. The latest message is
+  // always kept, even if it alone exceeds the budget.
+  let used = estimateTokens(latest.text);
+  let start = earlier.length;
+  for (let i = earlier.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(earlier[i].text) + estimateTokens(template.assistantStart + template.endOfTurn);
+    if (used + cost > budget) break;
+    used += cost;
+    start = i;
+  }
+
+  // Never open the kept history on an assistant turn — the engine supplies
+  // the opening user marker, so the first spliced turn must be a user one.
+  while (start < earlier.length && earlier[start].role !== 'user') start++;
+
+  const kept = [...earlier.slice(start), latest];
+  const droppedTurns = history.length - kept.length;
+
+  let prompt = '';
+  kept.forEach((turn, i) => {
+    if (i > 0) {
+      prompt += turn.role === 'user' ? template.userStart : template.assistantStart;
+    }
+    prompt += turn.text;
+    if (i < kept.length - 1) prompt += template.endOfTurn;
+  });
+
+  return { prompt, droppedTurns };
+}
@@ -0,0 +1,258 @@
+/**
+ * User-supplied models (fine-tunes, community GGUFs, sherpa-onnx archives).
+ *
+ * Custom definitions are persisted in localStorage and appended to the
+ * built-in catalog every time the SDK starts. Local files are streamed into
+ * OPFS by `RunAnywhere.importModelFromFile`, so only the definition needs
+ * to be kept here.
+ */
+
+import {
+  LLMFramework,
+  ModelCategory,
+  sanitizeId,
+  type CompactModelDef,
+} from '@runanywhere/web';
+
+export type CustomModelSource = 'huggingface' | 'local';
+
+export interface CustomModelRecord {
+  def: CompactModelDef;
+  source: CustomModelSource;
+  addedAt: number;
+}
+
+/** Categories a custom model may be registered under. */
+export type CustomModelCategory =
+  | ModelCategory.Language
+  | ModelCategory.Multimodal
+  | ModelCategory.SpeechRecognition
+  | ModelCategory.SpeechSynthesis;
+
+const STORAGE_KEY = 'runanywhere.customModels';
+const HF_HOST = 'huggingface.co';
+
+/** Prefix for local-only models; they have no URL the SDK could fetch. */
+export const LOCAL_URL_PREFIX = 'local:';
+
+export function loadCustomModels(): CustomModelRecord[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((r) => r?.def?.id) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeCustomModels(records: CustomModelRecord[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+}
+
+export function saveCustomModel(record: CustomModelRecord): void {
+  const records = loadCustomModels().filter((r) => r.def.id !== record.def.id);
+  writeCustomModels([...records, record]);
+}
+
+export function removeCustomModel(id: string): void {
+  writeCustomModels(loadCustomModels().filter((r) => r.def.id !== id));
+}
+
+// ---------------------------------------------------------------------------
+// Validation + CompactModelDef construction
+// ---------------------------------------------------------------------------
+
+type ArtifactKind = 'gguf' | 'archive';
+
+function artifactKind(filename: string): ArtifactKind | null {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.gguf')) return 'gguf';
+  if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) return 'archive';
+  return null;
+}
+
+function stripArtifactExt(filename: string): string {
+  return filename.replace(/\.(gguf|tar\.gz|tgz)$/i, '');
+}
+
+/** Best guess at the category from the filename; the user can override it. */
+export function inferCategory(filename: string): CustomModelCategory {
+  const lower = filename.toLowerCase();
+  if (artifactKind(lower) === 'archive') {
+    return /tts|piper|vits|kokoro|matcha/.test(lower)
+      ? ModelCategory.SpeechSynthesis
+      : ModelCategory.SpeechRecognition;
+  }
+  return /[-_.]vl[-_.]|vision|llava|mmproj/.test(lower)
+    ? ModelCategory.Multimodal
+    : ModelCategory.Language;
+}
+
+/** Categories that are valid for a given artifact. */
+export function categoriesFor(filename: string): CustomModelCategory[] {
+  return artifactKind(filename) === 'archive'
+    ? [ModelCategory.SpeechRecognition, ModelCategory.SpeechSynthesis]
+    : [ModelCategory.Language, ModelCategory.Multimodal];
+}
+
+function checkCategory(filename: string, category: CustomModelCategory): void {
+  if (!categoriesFor(filename).includes(category)) {
+    const kind = artifactKind(filename) === 'archive' ? '.tar.gz archives' : 'GGUF files';
+    throw new Error(`${kind} can't be registered as a ${category} model`);
+  }
+}
+
+function checkId(id: string, takenIds: string[]): void {
+  if (takenIds.includes(id)) {
+    throw new Error(`A model with id "${id}" is already registered`);
+  }
+}
+
+interface ParsedHFUrl {
+  repo: string;
+  file: string;
+  url: string;
+}
+
+/**
+ * Parse a Hugging Face file reference. Accepts full `resolve`/`blob` URLs
+ * (`https://huggingface.co/org/repo/resolve/main/model.gguf`) and the
+ * `org/repo/model.gguf` shorthand.
+ */
+export function parseHuggingFaceUrl(input: string): ParsedHFUrl {
+  const trimmed = input.trim();
+  let path: string;
+
+  if (/^https?:\/\//i.test(trimmed)) {
+    let url: URL;
+    try {
+      url = new URL(trimmed);
+    } catch {
+      throw new Error('Not a valid URL');
+    }
+    if (url.protocol !== 'https:') throw new Error('Hugging Face URLs must use https');
+    if (url.hostname !== HF_HOST) throw new Error(`Only ${HF_HOST} URLs are supported`);
+
+    const parts = url.pathname.split('/').filter(Boolean);
+    // org/repo/(resolve|blob)/<revision>/<file path...>
+    if (parts.length < 5 || (parts[2] !== 'resolve' && parts[2] !== 'blob')) {
+      throw new Error('Expected a file URL like https://huggingface.co/org/repo/resolve/main/model.gguf');
+    }
+    if (parts[3] !== 'main') {
+      throw new Error('Only files on the main branch are supported');
+    }
+    path = [parts[0], parts[1], ...parts.slice(4)].join('/');
+  } else {
+    path = trimmed.replace(/^\/+/, '');
+  }
+
+  const segments = path.split('/').filter(Boolean);
+  if (segments.length < 3) {
+    throw new Error('Expected org/repo/file (e.g. LiquidAI/LFM2-350M-GGUF/LFM2-350M-Q4_K_M.gguf)');
+  }
+  if (segments.some((s) => s === '..' || s === '.')) {
+    throw new Error('Invalid path in URL');
+  }
+
+  const repo = `${segments[0]}/${segments[1]}`;
+  const file = segments.slice(2).join('/');
+  if (!artifactKind(file)) {
+    throw new Error('File must be a .gguf model or a .tar.gz archive');
+  }
+
+  return {
+    repo,
+    file,
+    url: `https://${HF_HOST}/${repo}/resolve/main/${file.split('/').map(encodeURIComponent).join('/')}`,
+  };
+}
+
+export interface HuggingFaceModelInput {
+  url: string;
+  name?: string;
+  category: CustomModelCategory;
+  /** Companion projector file in the same repo (required for vision models). */
+  mmprojFile?: string;
+  memoryRequirement?: number;
+}
+
+/** Build a definition for a model hosted on Hugging Face. */
+export function buildHuggingFaceModel(input: HuggingFaceModelInput, takenIds: string[]): CompactModelDef {
+  const { repo, file, url } = parseHuggingFaceUrl(input.url);
+  checkCategory(file, input.category);
+
+  const filename = file.split('/').pop()!;
+  const id = `custom-${sanitizeId(stripArtifactExt(filename))}`;
+  checkId(id, takenIds);
+
+  const name = input.name?.trim() || stripArtifactExt(filename);
+  const memoryRequirement = input.memoryRequirement && input.memoryRequirement > 0
+    ? input.memoryRequirement
+    : undefined;
+
+  if (artifactKind(file) === 'archive') {
+    return {
+      id,
+      name,
+      url,
+      framework: LLMFramework.ONNX,
+      modality: input.category,
+      memoryRequirement,
+      artifactType: 'archive',
+    };
+  }
+
+  const files = [file];
+  if (input.category === ModelCategory.Multimodal) {
+    const mmproj = input.mmprojFile?.trim();
+    if (!mmproj) throw new Error('Vision models need the mmproj file name from the same repo');
+    if (!mmproj.toLowerCase().endsWith('.gguf')) throw new Error('The mmproj file must be a .gguf file');
+    files.push(mmproj);
+  }
+
+  return {
+    id,
+    name,
+    repo,
+    files,
+    framework: LLMFramework.LlamaCpp,
+    modality: input.category,
+    memoryRequirement,
+  };
+}
+
+export interface LocalModelInput {
+  file: File;
+  name?: string;
+  category: CustomModelCategory;
+}
+
+/**
+ * Build a definition for a model picked from disk. Local GGUFs are text-only
+ * because vision models also need an mmproj companion, which a single file
+ * import can't provide.
+ */
+export function buildLocalModel(input: LocalModelInput, takenIds: string[]): CompactModelDef {
+  const { file } = input;
+  const kind = artifactKind(file.name);
+  if (!kind) throw new Error('Pick a .gguf model or a .tar.gz archive');
+  if (file.size === 0) throw new Error('The selected file is empty');
+  checkCategory(file.name, input.category);
+  if (input.category === ModelCategory.Multimodal) {
+    throw new Error('Vision models need an mmproj file — add them from Hugging Face instead');
+  }
+
+  const id = `custom-${sanitizeId(stripArtifactExt(file.name))}`;
+  checkId(id, takenIds);
+
+  return {
+    id,
+    name: input.name?.trim() || stripArtifactExt(file.name),
+    url: `${LOCAL_URL_PREFIX}${file.name}`,
+    framework: kind === 'archive' ? LLMFramework.ONNX : LLMFramework.LlamaCpp,
+    modality: input.category,
+    // Rough working-set estimate: weights plus ~20% for context/buffers
+    memoryRequirement: Math.round(file.size * 1.2),
+    ...(kind === 'archive' ? { artifactType: 'archive' as const } : {}),
+  };
+}
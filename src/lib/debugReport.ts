@@ -0,0 +1,446 @@
+/**
+ * Debug session export (Markdown, JSON, SARIF) and JSON import.
+ *
+ * JSON is the lossless round-trip format: it mirrors `DebugAnalysis` field
+ * for field and adds ISO timestamps and the id of the model that produced
+ * each analysis. SARIF 2.1.0 turns each analysis into a code-scanning
+ * result so the findings can be uploaded to tools that read it.
+ */
+
+import { TRACE_FORMAT_LABELS, frameLocation, topAppFrame, type ParsedTrace, type StackFrame } from './stackTrace';
+import type { ContextSnippet } from './sourceContext';
+import type { ToolStep } from './debugTools';
+import type { Passage } from './knowledgeBase';
+import type { AnalysisConfidence } from './analysisConfidence';
+
+export type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+export const SEVERITIES: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+export interface DebugAnalysis {
+  errorType: string;
+  severity: Severity;
+  rootCause: string;
+  suggestedFix: string;
+  codeExample: string;
+  additionalNotes: string;
+}
+
+/** The message fields a report is built from. */
+export interface ReportMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  analysis?: DebugAnalysis;
+  timestamp: number;
+  /** Model that produced this reply (assistant messages only). */
+  modelId?: string;
+  /** Stack trace parsed from the error text (user messages only). */
+  trace?: ParsedTrace;
+  /** Attached source the model was given (assistant messages only). */
+  context?: ContextSnippet[];
+  /** Tools the model called for this reply (assistant messages only). */
+  toolTrace?: ToolStep[];
+  /** Knowledge-base passages the model was given (assistant messages only). */
+  citations?: Passage[];
+  /** Why no valid analysis came back (assistant messages only). */
+  unstructured?: { reason: string; attempts: number };
+  /** Self-consistency of the analysis (assistant messages only). */
+  confidence?: AnalysisConfidence;
+}
+
+export type ReportFormat = 'markdown' | 'json' | 'sarif';
+
+export interface ReportMeta {
+  sessionName: string;
+  /** Model loaded at export time. */
+  modelId?: string;
+}
+
+const REPORT_FORMAT = 'runanywhere-debug-report';
+const REPORT_VERSION = 1;
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+/** The user message each analysis answers (the nearest preceding one). */
+function pairs(messages: ReportMessage[]): { question?: ReportMessage; answer: ReportMessage }[] {
+  const out: { question?: ReportMessage; answer: ReportMessage }[] = [];
+  let question: ReportMessage | undefined;
+  for (const m of messages) {
+    if (m.role === 'user') question = m;
+    else out.push({ question, answer: m });
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+/** A fence longer than any backtick run inside `code`. */
+function fence(code: string): string {
+  const longest = Math.max(2, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(longest + 1);
+}
+
+/** Wrap a code example in a fence unless the model already fenced it. */
+function fencedCode(code: string): string {
+  if (code.trim().startsWith('```')) return code.trim();
+  const f = fence(code);
+  return `${f}\n${code.replace(/\n+$/, '')}\n${f}`;
+}
+
+export function toMarkdown(messages: ReportMessage[], meta: ReportMeta): string {
+  const lines: string[] = [
+    `# Debug report: ${meta.sessionName}`,
+    '',
+    `- Exported: ${new Date().toLocaleString()}`,
+  ];
+  if (meta.modelId) lines.push(`- Model: \`${meta.modelId}\``);
+  lines.push('');
+
+  for (const [n, { question, answer }] of pairs(messages).entries()) {
+    const a = answer.analysis;
+    lines.push(`## ${n + 1}. ${a?.errorType ?? 'Response'}`, '');
+    if (a) lines.push(`**Severity:** ${a.severity.toUpperCase()}  `);
+    if (answer.confidence) {
+      const c = answer.confidence;
+      lines.push(`**Confidence:** ${Math.round(c.score * 100)}% (${c.validSamples}/${c.samples} samples agreed on a valid analysis)  `);
+    }
+    if (answer.unstructured) {
+      lines.push(`**Unstructured answer:** ${answer.unstructured.reason} (${answer.unstructured.attempts} attempts)  `);
+    }
+    lines.push(`**Time:** ${new Date(answer.timestamp).toLocaleString()}  `);
+    if (answer.modelId) lines.push(`**Model:** \`${answer.modelId}\`  `);
+    lines.push('');
+
+    if (question) {
+      lines.push('### Error', '', fencedCode(question.content), '');
+    }
+    if (question?.trace) {
+      lines.push(`### Stack frames (${TRACE_FORMAT_LABELS[question.trace.format]})`, '');
+      for (const f of question.trace.frames) {
+        const mapped = f.original ? ` ← \`${frameLocation(f, { preferOriginal: false })}\`` : '';
+        lines.push(`1. \`${f.original?.fn ?? f.fn ?? '<anonymous>'}\` at \`${frameLocation(f)}\`${mapped}${f.library ? ' (library)' : ''}`);
+      }
+      lines.push('');
+    }
+    if (a) {
+      lines.push('### Root cause', '', a.rootCause, '');
+      lines.push('### Suggested fix', '', a.suggestedFix, '');
+      if (a.codeExample) lines.push('### Code example', '', fencedCode(a.codeExample), '');
+      if (a.additionalNotes) lines.push('### Notes', '', a.additionalNotes, '');
+    } else {
+      lines.push(answer.content, '');
+    }
+    if (answer.toolTrace) {
+      lines.push('### Tool calls', '');
+      for (const step of answer.toolTrace) {
+        const outcome = step.success ? '✓' : `✗ ${step.error ?? ''}`.trim();
+        lines.push(`1. \`${step.tool}\` ${outcome} (${step.durationMs} ms)`);
+      }
+      lines.push('');
+    }
+    if (answer.citations) {
+      lines.push('### Sources', '');
+      for (const [k, c] of answer.citations.entries()) {
+        lines.push(`${k + 1}. **${c.docName}${c.heading ? ` › ${c.heading}` : ''}**`, '', ...c.text.split('\n').map((l) => `   > ${l}`), '');
+      }
+    }
+    if (answer.context) {
+      lines.push('### Source context', '');
+      for (const c of answer.context) {
+        const f = fence(c.lines.join('\n'));
+        const ext = c.path.split('.').pop() ?? '';
+        lines.push(`\`${c.path}\` lines ${c.startLine}–${c.startLine + c.lines.length - 1}:`, '', `${f}${ext}`, ...c.lines, f, '');
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// JSON
+// ---------------------------------------------------------------------------
+
+interface JsonReportEntry {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  modelId?: string;
+  analysis?: DebugAnalysis;
+  trace?: ParsedTrace;
+  context?: ContextSnippet[];
+  toolTrace?: ToolStep[];
+  citations?: Passage[];
+  unstructured?: { reason: string; attempts: number };
+  confidence?: AnalysisConfidence;
+}
+
+interface JsonReport {
+  format: typeof REPORT_FORMAT;
+  version: typeof REPORT_VERSION;
+  exportedAt: string;
+  sessionName: string;
+  modelId?: string;
+  entries: JsonReportEntry[];
+}
+
+export function toJSON(messages: ReportMessage[], meta: ReportMeta): string {
+  const report: JsonReport = {
+    format: REPORT_FORMAT,
+    version: REPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessionName: meta.sessionName,
+    modelId: meta.modelId,
+    entries: messages.map((m) => ({
+      role: m.role,
+      content: m.content,
+      timestamp: iso(m.timestamp),
+      modelId: m.modelId,
+      analysis: m.analysis,
+      trace: m.trace,
+      context: m.context,
+      toolTrace: m.toolTrace,
+      citations: m.citations,
+      unstructured: m.unstructured,
+      confidence: m.confidence,
+    })),
+  };
+  return JSON.stringify(report, null, 2);
+}
+
+function parseAnalysis(raw: unknown): DebugAnalysis | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const r = raw as Record<string, unknown>;
+  const str = (v: unknown) => (typeof v === 'string' ? v : '');
+  if (!str(r.errorType)) return undefined;
+  return {
+    errorType: str(r.errorType),
+    severity: SEVERITIES.includes(r.severity as Severity) ? (r.severity as Severity) : 'medium',
+    rootCause: str(r.rootCause),
+    suggestedFix: str(r.suggestedFix),
+    codeExample: str(r.codeExample),
+    additionalNotes: str(r.additionalNotes),
+  };
+}
+
+/** Accept an exported trace only if every frame has the fields the UI reads. */
+function parseTrace(raw: unknown): ParsedTrace | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const r = raw as Partial<ParsedTrace>;
+  if (!r.format || !(r.format in TRACE_FORMAT_LABELS) || !Array.isArray(r.frames)) return undefined;
+  const valid = r.frames.every((f: Partial<StackFrame>) =>
+    typeof f?.file === 'string' && typeof f.library === 'boolean'
+    && (f.original === undefined || (typeof f.original?.file === 'string' && typeof f.original.line === 'number')));
+  return valid ? { format: r.format, message: typeof r.message === 'string' ? r.message : undefined, frames: r.frames } : undefined;
+}
+
+function parseContext(raw: unknown): ContextSnippet[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const snippets = raw.filter((c: Partial<ContextSnippet>) =>
+    typeof c?.path === 'string' && typeof c.startLine === 'number'
+    && Array.isArray(c.lines) && c.lines.every((l) => typeof l === 'string')
+    && Array.isArray(c.frameLines) && c.frameLines.every((n) => typeof n === 'number'));
+  return snippets.length > 0 ? snippets : undefined;
+}
+
+function parseToolTrace(raw: unknown): ToolStep[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const steps = raw.filter((s: Partial<ToolStep>) =>
+    typeof s?.tool === 'string' && typeof s.success === 'boolean' && typeof s.durationMs === 'number'
+    && typeof s.args === 'object' && s.args !== null);
+  return steps.length > 0 ? steps : undefined;
+}
+
+function parseCitations(raw: unknown): Passage[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const citations = raw.filter((c: Partial<Passage>) =>
+    typeof c?.docName === 'string' && typeof c.text === 'string' && typeof c.score === 'number'
+    && (c.heading === undefined || typeof c.heading === 'string'));
+  return citations.length > 0 ? citations : undefined;
+}
+
+function parseUnstructured(raw: unknown): ReportMessage['unstructured'] {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const r = raw as Record<string, unknown>;
+  return typeof r.reason === 'string' && typeof r.attempts === 'number' ? { reason: r.reason, attempts: r.attempts } : undefined;
+}
+
+function parseConfidence(raw: unknown): AnalysisConfidence | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const r = raw as Partial<AnalysisConfidence>;
+  const a = r.agreement;
+  if (typeof r.score !== 'number' || typeof r.samples !== 'number' || typeof r.validSamples !== 'number'
+    || typeof a?.errorType !== 'number' || typeof a.severity !== 'number' || typeof a.rootCause !== 'number') {
+    return undefined;
+  }
+  return {
+    score: r.score,
+    samples: r.samples,
+    validSamples: r.validSamples,
+    agreement: { errorType: a.errorType, severity: a.severity, rootCause: a.rootCause },
+  };
+}
+
+/**
+ * Parse a report produced by `toJSON`. Throws with a user-facing message
+ * if the file isn't one.
+ */
+export function parseJSONReport(json: string): { sessionName: string; messages: ReportMessage[] } {
+  let data: Partial<JsonReport>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  if (data?.format !== REPORT_FORMAT || !Array.isArray(data.entries)) {
+    throw new Error('Not a debug report exported from this app');
+  }
+  if (typeof data.version !== 'number' || data.version > REPORT_VERSION) {
+    throw new Error(`Unsupported report version: ${String(data.version)}`);
+  }
+
+  const messages: ReportMessage[] = [];
+  for (const entry of data.entries) {
+    if ((entry?.role !== 'user' && entry?.role !== 'assistant') || typeof entry.content !== 'string') continue;
+    const time = Date.parse(entry.timestamp);
+    messages.push({
+      role: entry.role,
+      content: entry.content,
+      timestamp: Number.isNaN(time) ? Date.now() : time,
+      modelId: typeof entry.modelId === 'string' ? entry.modelId : undefined,
+      analysis: parseAnalysis(entry.analysis),
+      trace: parseTrace(entry.trace),
+      context: parseContext(entry.context),
+      toolTrace: parseToolTrace(entry.toolTrace),
+      citations: parseCitations(entry.citations),
+      unstructured: parseUnstructured(entry.unstructured),
+      confidence: parseConfidence(entry.confidence),
+    });
+  }
+  return { sessionName: typeof data.sessionName === 'string' ? data.sessionName : 'Imported report', messages };
+}
+
+// ---------------------------------------------------------------------------
+// SARIF 2.1.0
+// ---------------------------------------------------------------------------
+
+const SARIF_LEVEL: Record<Severity, 'note' | 'warning' | 'error'> = {
+  low: 'note',
+  medium: 'warning',
+  high: 'error',
+  critical: 'error',
+};
+
+const SOURCE_LOCATION = /((?:[\w.-]+[/\\])*[\w.-]+\.(?:[cm]?[jt]sx?|py|java|kt|go|rb|cs|cpp|cc|c|h|rs|swift|php|vue|svelte)):(\d+)(?::(\d+))?/;
+
+const ruleId = (errorType: string) =>
+  errorType.trim().replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'unknown-error';
+
+function physicalLocation(file: string, line: number, column?: number) {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: file.replace(/\\/g, '/') },
+      region: { startLine: line, ...(column !== undefined ? { startColumn: column } : {}) },
+    },
+  };
+}
+
+function frameToLocation(f: StackFrame) {
+  const pos = f.original ?? f;
+  return pos.line !== undefined ? physicalLocation(pos.file, pos.line, pos.column) : undefined;
+}
+
+/**
+ * Where the error happened: the innermost application frame of the parsed
+ * trace, else the first `file.ext:line[:col]` mentioned in the error text.
+ */
+function findLocation(question: ReportMessage) {
+  const frame = question.trace && topAppFrame(question.trace);
+  const fromTrace = frame && frameToLocation(frame);
+  if (fromTrace) return fromTrace;
+  const m = question.content.match(SOURCE_LOCATION);
+  return m ? physicalLocation(m[1], Number(m[2]), m[3] ? Number(m[3]) : undefined) : undefined;
+}
+
+/** The parsed trace as a SARIF stack, innermost frame first. */
+function toStack(trace: ParsedTrace) {
+  return {
+    ...(trace.message ? { message: { text: trace.message } } : {}),
+    frames: trace.frames.map((f) => ({
+      location: {
+        ...frameToLocation(f),
+        ...(f.original?.fn ?? f.fn ? { message: { text: f.original?.fn ?? f.fn } } : {}),
+      },
+    })),
+  };
+}
+
+export function toSARIF(messages: ReportMessage[], meta: ReportMeta): string {
+  const analyzed = pairs(messages).filter((p) => p.answer.analysis);
+  const rules = new Map<string, { id: string; name: string; shortDescription: { text: string } }>();
+
+  const results = analyzed.map(({ question, answer }) => {
+    const a = answer.analysis!;
+    const id = ruleId(a.errorType);
+    if (!rules.has(id)) rules.set(id, { id, name: a.errorType, shortDescription: { text: a.errorType } });
+
+    const location = question ? findLocation(question) : undefined;
+    return {
+      ruleId: id,
+      level: SARIF_LEVEL[a.severity],
+      message: { text: `${a.errorType}: ${a.rootCause}`.trim() },
+      ...(location ? { locations: [location] } : {}),
+      ...(question?.trace ? { stacks: [toStack(question.trace)] } : {}),
+      properties: {
+        severity: a.severity,
+        suggestedFix: a.suggestedFix,
+        codeExample: a.codeExample,
+        additionalNotes: a.additionalNotes,
+        errorText: question?.content,
+        timestamp: iso(answer.timestamp),
+        modelId: answer.modelId,
+        confidence: answer.confidence?.score,
+      },
+    };
+  });
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'RunAnywhere Debug Assistant',
+          informationUri: 'https://docs.runanywhere.ai',
+          rules: [...rules.values()],
+        },
+      },
+      invocations: [{ executionSuccessful: true, endTimeUtc: new Date().toISOString() }],
+      properties: { sessionName: meta.sessionName, modelId: meta.modelId },
+      results,
+    }],
+  };
+  return JSON.stringify(sarif, null, 2);
+}
+
+// ---------------------------------------------------------------------------
+
+const FILE_TYPES: Record<ReportFormat, { ext: string; mime: string; build: typeof toJSON }> = {
+  markdown: { ext: 'md', mime: 'text/markdown', build: toMarkdown },
+  json: { ext: 'json', mime: 'application/json', build: toJSON },
+  sarif: { ext: 'sarif', mime: 'application/sarif+json', build: toSARIF },
+};
+
+/** Build a report and trigger a browser download. */
+export function downloadReport(format: ReportFormat, messages: ReportMessage[], meta: ReportMeta): void {
+  const { ext, mime, build } = FILE_TYPES[format];
+  const blob = new Blob([build(messages, meta)], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `debug-report-${Date.now()}.${ext}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
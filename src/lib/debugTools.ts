@@ -0,0 +1,378 @@
+/**
+ * Local tools for the Debug assistant and the agent loop that drives them.
+ *
+ * Every tool is a plain function running in the page: an offline error
+ * knowledge base, a regex explainer, a JSON checker, a line diff and a
+ * search over past debug sessions. `analyze_error` is the terminal tool —
+ * the loop ends as soon as the model calls it with arguments that pass
+ * `validateAnalysis`. A rejected call, or an answer without any tool call,
+ * is sent back to the model with the problems listed, up to `maxRetries`
+ * times.
+ *
+ * The loop runs one generation per round with `autoExecute: false`, executes
+ * the requested tool itself and feeds all results so far back into the next
+ * round, so the model sees its whole investigation rather than only the
+ * latest result, and the UI can show each step as it happens.
+ */
+
+import {
+  ToolCalling, fromToolValue, getStringArg, toToolValue,
+  type ToolDefinition, type ToolExecutor, type ToolValue,
+} from '@runanywhere/web-llamacpp';
+import { lookupError } from './errorKnowledgeBase';
+import { explainRegex } from './regexExplain';
+import { diffLines } from './lineDiff';
+import { getAllSessions } from './sessionStore';
+import { ANALYSIS_FIELDS, validateAnalysis } from './analysisSchema';
+import { SEVERITIES, type DebugAnalysis, type ReportMessage } from './debugReport';
+
+/** One tool call made during an analysis, as shown in the tool trace. */
+export interface ToolStep {
+  tool: string;
+  args: Record<string, unknown>;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AgentOptions {
+  systemPrompt: string;
+  temperature: number;
+  maxTokens: number;
+  /** Generation rounds, i.e. the most tools the model may call. */
+  maxToolCalls: number;
+  /** Extra rounds for re-prompting after a missing or invalid analysis. */
+  maxRetries: number;
+  /** Called with the full step list after every tool call. */
+  onStep?: (steps: ToolStep[]) => void;
+}
+
+export interface AgentResult {
+  text: string;
+  /** The validated `analyze_error` arguments, if the model produced valid ones. */
+  analysis?: DebugAnalysis;
+  steps: ToolStep[];
+  /** Re-prompts spent on missing or invalid analyses. */
+  retries: number;
+  /** Why there is no analysis, when there isn't one. */
+  failure?: string;
+}
+
+export const ANALYZE_ERROR_TOOL = 'analyze_error';
+
+/** Default number of tool calls per analysis. */
+export const MAX_TOOL_CALLS = 5;
+
+/** Default number of re-prompts after a missing or invalid analysis. */
+export const MAX_ANALYSIS_RETRIES = 2;
+
+/** Each tool result fed back to the model is cut to this many characters… */
+const MAX_RESULT_CHARS = 1200;
+/** …and all results together to this many, dropping the oldest first. */
+const MAX_RESULTS_CHARS = 2400;
+
+/**
+ * Tokens to keep free for the tool definitions the SDK appends to the
+ * system prompt plus the tool results fed back between rounds.
+ */
+export const AGENT_PROMPT_RESERVE_TOKENS = 900 + Math.ceil(MAX_RESULTS_CHARS / 3.5);
+
+const toResult = (obj: Record<string, unknown>): Record<string, ToolValue> =>
+  Object.fromEntries(Object.entries(obj).map(([k, v]) => [k, toToolValue(v)]));
+
+const plain = (values: Record<string, ToolValue>) =>
+  Object.fromEntries(Object.entries(values).map(([k, v]) => [k, fromToolValue(v)]));
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max)}…` : text);
+
+// ---------------------------------------------------------------------------
+// parse_json
+// ---------------------------------------------------------------------------
+
+function jsonShape(value: unknown, depth = 0): number {
+  if (typeof value !== 'object' || value === null) return depth;
+  const children = Array.isArray(value) ? value : Object.values(value);
+  return children.reduce<number>((max, child) => Math.max(max, jsonShape(child, depth + 1)), depth + 1);
+}
+
+/** Validate a JSON payload; on failure report where and the likely mistake. */
+function checkJson(text: string): Record<string, unknown> {
+  if (!text.trim()) return { valid: false, error: 'Input is empty' };
+  try {
+    const value = JSON.parse(text);
+    const type = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+    return {
+      valid: true,
+      type,
+      ...(type === 'object' ? { keys: Object.keys(value).slice(0, 30) } : {}),
+      ...(type === 'array' ? { length: value.length } : {}),
+      depth: jsonShape(value),
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    // V8: "at position 42 (line 3 column 5)"; Firefox: "at line 3 column 5"
+    let line: number | undefined;
+    let column: number | undefined;
+    const lc = message.match(/line (\d+) column (\d+)/);
+    const pos = message.match(/position (\d+)/);
+    if (lc) {
+      line = Number(lc[1]);
+      column = Number(lc[2]);
+    } else if (pos) {
+      const before = text.slice(0, Number(pos[1])).split('\n');
+      line = before.length;
+      column = before[before.length - 1].length + 1;
+    }
+
+    const hints: string[] = [];
+    if (/,\s*[}\]]/.test(text)) hints.push('Trailing comma before a closing bracket');
+    if (/'[^'\n]*'\s*:/.test(text) || /:\s*'[^'\n]*'/.test(text)) hints.push('Single-quoted strings; JSON requires double quotes');
+    if (/[{,]\s*[A-Za-z_$][\w$]*\s*:/.test(text)) hints.push('Unquoted property names');
+    if (/^\s*(\/\/|\/\*)/m.test(text)) hints.push('Comments are not allowed in JSON');
+    if (/\b(undefined|NaN|Infinity)\b/.test(text)) hints.push('undefined, NaN and Infinity are not JSON values');
+    if (/^\s*</.test(text)) hints.push('Looks like HTML, e.g. an error page returned instead of JSON');
+
+    return {
+      valid: false,
+      error: message,
+      ...(line !== undefined ? { line, column, excerpt: text.split('\n')[line - 1]?.slice(0, 200) } : {}),
+      hints,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// search_session_history
+// ---------------------------------------------------------------------------
+
+async function searchHistory(query: string): Promise<Record<string, unknown>> {
+  const terms = [...new Set(query.toLowerCase().split(/[^\w.$-]+/).filter((t) => t.length > 2))];
+  if (terms.length === 0) return { matches: [], note: 'Query has no searchable terms' };
+
+  const hits: { score: number; time: number; entry: Record<string, unknown> }[] = [];
+  for (const session of await getAllSessions<ReportMessage>('debug')) {
+    session.messages.forEach((m, i) => {
+      if (m.role !== 'assistant' || !m.analysis) return;
+      const question = session.messages[i - 1];
+      const a = m.analysis;
+      const haystack = `${question?.content ?? ''}\n${a.errorType}\n${a.rootCause}\n${a.suggestedFix}`.toLowerCase();
+      const score = terms.filter((t) => haystack.includes(t)).length;
+      if (score === 0) return;
+      hits.push({
+        score,
+        time: m.timestamp,
+        entry: {
+          session: session.name,
+          date: new Date(m.timestamp).toISOString().slice(0, 10),
+          error: truncate(question?.content ?? '', 200),
+          errorType: a.errorType,
+          severity: a.severity,
+          rootCause: truncate(a.rootCause, 300),
+          suggestedFix: truncate(a.suggestedFix, 300),
+        },
+      });
+    });
+  }
+
+  hits.sort((x, y) => y.score - x.score || y.time - x.time);
+  return { matches: hits.slice(0, 5).map((h) => h.entry), totalMatches: hits.length };
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const TOOLS: [ToolDefinition, ToolExecutor][] = [
+  [
+    {
+      name: ANALYZE_ERROR_TOOL,
+      description: 'Final answer: structured analysis of the error. Call this once you understand the problem.',
+      parameters: [
+        // `required` comes from the validator's schema so the two can't disagree
+        { name: 'errorType', type: 'string', description: 'Type of error (e.g., TypeError, ReferenceError, SyntaxError)', required: ANALYSIS_FIELDS.errorType.required },
+        { name: 'severity', type: 'string', description: 'Severity level: low, medium, high, or critical', required: ANALYSIS_FIELDS.severity.required, enumValues: ['low', 'medium', 'high', 'critical'] },
+        { name: 'rootCause', type: 'string', description: 'Root cause explanation of the error', required: ANALYSIS_FIELDS.rootCause.required },
+        { name: 'suggestedFix', type: 'string', description: 'Detailed steps to fix the error', required: ANALYSIS_FIELDS.suggestedFix.required },
+        { name: 'codeExample', type: 'string', description: 'Code example showing the fix, when the fix involves code', required: ANALYSIS_FIELDS.codeExample.required },
+        { name: 'additionalNotes', type: 'string', description: 'Additional debugging tips or related issues', required: ANALYSIS_FIELDS.additionalNotes.required },
+      ],
+      category: 'Debug',
+    },
+    async (args) => {
+      const validation = validateAnalysis(plain(args));
+      if (!validation.valid) throw new Error(`Invalid analysis: ${validation.errors.join('; ')}`);
+      return toResult({ ...validation.analysis });
+    },
+  ],
+  [
+    {
+      name: 'lookup_error_code',
+      description: 'Looks up an error code or message (e.g. ENOENT, 404, NullPointerException, "Cannot read properties of undefined") in an offline knowledge base of common runtime errors',
+      parameters: [
+        { name: 'query', type: 'string', description: 'Error code, exception name or error message', required: true },
+      ],
+      category: 'Debug',
+    },
+    async (args) => {
+      const entries = lookupError(getStringArg(args, 'query') ?? '');
+      return toResult({
+        found: entries.length > 0,
+        entries: entries.map(({ code, title, runtime, description, causes, fixes }) => ({
+          code, title, runtime, description, causes, fixes,
+        })),
+      });
+    },
+  ],
+  [
+    {
+      name: 'explain_regex',
+      description: 'Checks that a JavaScript regular expression compiles, explains it piece by piece, and optionally runs it against a test string',
+      parameters: [
+        { name: 'pattern', type: 'string', description: 'The pattern, either bare or as /pattern/flags', required: true },
+        { name: 'flags', type: 'string', description: 'Regex flags such as gi', required: false },
+        { name: 'testString', type: 'string', description: 'Text to run the regex against', required: false },
+      ],
+      category: 'Debug',
+    },
+    async (args) => toResult({
+      ...explainRegex(getStringArg(args, 'pattern') ?? '', getStringArg(args, 'flags') ?? '', getStringArg(args, 'testString')),
+    }),
+  ],
+  [
+    {
+      name: 'parse_json',
+      description: 'Validates a JSON payload. Reports the line and column of a syntax error with likely causes, or the shape of valid JSON',
+      parameters: [
+        { name: 'json', type: 'string', description: 'The JSON text to check', required: true },
+      ],
+      category: 'Debug',
+    },
+    async (args) => toResult(checkJson(getStringArg(args, 'json') ?? '')),
+  ],
+  [
+    {
+      name: 'diff_code',
+      description: 'Line-by-line diff between two versions of some code, e.g. working and broken',
+      parameters: [
+        { name: 'before', type: 'string', description: 'The original code', required: true },
+        { name: 'after', type: 'string', description: 'The changed code', required: true },
+      ],
+      category: 'Debug',
+    },
+    async (args) => {
+      const diff = diffLines(getStringArg(args, 'before') ?? '', getStringArg(args, 'after') ?? '');
+      return toResult({ added: diff.added, removed: diff.removed, diff: diff.unified });
+    },
+  ],
+  [
+    {
+      name: 'search_session_history',
+      description: 'Searches earlier debug analyses saved in this browser for similar errors and the fixes found then',
+      parameters: [
+        { name: 'query', type: 'string', description: 'Keywords such as the error type, message or file name', required: true },
+      ],
+      category: 'Debug',
+    },
+    async (args) => toResult(await searchHistory(getStringArg(args, 'query') ?? '')),
+  ],
+];
+
+/** Register every Debug tool. Returns a function that unregisters them. */
+export function registerDebugTools(): () => void {
+  for (const [definition, executor] of TOOLS) ToolCalling.registerTool(definition, executor);
+  return () => {
+    for (const [definition] of TOOLS) ToolCalling.unregisterTool(definition.name);
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Agent loop
+// ---------------------------------------------------------------------------
+
+/** Most recent results that fit in MAX_RESULTS_CHARS, oldest first. */
+function recentResults(results: string[]): string {
+  const kept: string[] = [];
+  let size = 0;
+  for (let i = results.length - 1; i >= 0; i--) {
+    if (size + results[i].length > MAX_RESULTS_CHARS && kept.length > 0) {
+      kept.unshift(`(${i + 1} earlier tool result${i === 0 ? '' : 's'} omitted)`);
+      break;
+    }
+    kept.unshift(results[i]);
+    size += results[i].length;
+  }
+  return kept.join('\n\n');
+}
+
+/**
+ * Let the model call tools until it calls `analyze_error` with valid
+ * arguments. The last of the `maxToolCalls` rounds asks for the final
+ * analysis; after that, each missing or rejected analysis costs one of the
+ * `maxRetries` re-prompts.
+ */
+export async function runDebugAgent(prompt: string, options: AgentOptions): Promise<AgentResult> {
+  const { systemPrompt, temperature, maxTokens, maxToolCalls, maxRetries, onStep } = options;
+  const steps: ToolStep[] = [];
+  const results: string[] = [];
+  let text = '';
+  let retries = 0;
+  /** What was wrong with the previous round's answer; shown to the model and, at the end, the user. */
+  let problem: string | undefined;
+
+  for (let round = 0; ; round++) {
+    const isLast = round >= maxToolCalls - 1;
+    const instruction = problem
+      ? `${problem} Call ${ANALYZE_ERROR_TOOL} now with errorType, severity (${SEVERITIES.join(', ')}), `
+        + 'rootCause and suggestedFix filled in.'
+      : isLast
+        ? `Now call ${ANALYZE_ERROR_TOOL} with your final analysis.`
+        : `Call another tool if you need more information, otherwise call ${ANALYZE_ERROR_TOOL}.`;
+    const roundPrompt = results.length === 0 && !problem
+      ? prompt
+      : [prompt, recentResults(results), instruction].filter(Boolean).join('\n\n');
+
+    const response = await ToolCalling.generateWithTools(roundPrompt, {
+      autoExecute: false,
+      maxToolCalls: 1,
+      keepToolsAvailable: true,
+      temperature,
+      maxTokens,
+      systemPrompt,
+    });
+    text = response.text;
+    const call = response.toolCalls[0];
+    problem = undefined;
+
+    if (call) {
+      const started = performance.now();
+      const result = await ToolCalling.executeTool(call);
+      const step: ToolStep = {
+        tool: call.toolName,
+        args: plain(call.arguments),
+        success: result.success,
+        result: result.success && result.result ? plain(result.result) : undefined,
+        error: result.success ? undefined : result.error ?? 'Unknown error',
+        durationMs: Math.round(performance.now() - started),
+      };
+      steps.push(step);
+      onStep?.([...steps]);
+
+      if (call.toolName === ANALYZE_ERROR_TOOL) {
+        const validation = validateAnalysis(step.args);
+        if (validation.valid) return { text, analysis: validation.analysis, steps, retries };
+        problem = `The ${ANALYZE_ERROR_TOOL} call was rejected: ${validation.errors.join('; ')}.`;
+      } else {
+        const output = step.success ? JSON.stringify(step.result) : JSON.stringify({ error: step.error });
+        results.push(`Tool result for ${call.toolName}: ${truncate(output, MAX_RESULT_CHARS)}`);
+        if (isLast) problem = `The tool-call limit was reached without an ${ANALYZE_ERROR_TOOL} call.`;
+      }
+    } else {
+      problem = `The answer did not call ${ANALYZE_ERROR_TOOL}.`;
+    }
+
+    if (!problem) continue;
+    if (retries >= maxRetries) return { text, steps, retries, failure: problem };
+    retries++;
+  }
+}
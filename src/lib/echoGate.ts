@@ -0,0 +1,64 @@
+/**
+ * Echo suppression for barge-in. The mic stays open while the assistant
+ * speaks, and whatever of its voice leaks back into the mic must not look
+ * like the user starting a turn.
+ *
+ * `AudioCapture` asks the browser for acoustic echo cancellation, which
+ * removes most of the echo once it has converged. The gate handles what is
+ * left: it mutes the first moments of playback while the canceller adapts,
+ * learns how loud the residual echo is relative to what is playing, and
+ * only passes mic audio that is clearly louder than that. Muted chunks
+ * reach the VAD as silence rather than being dropped, so a speech segment
+ * in progress still ends on time.
+ */
+
+/** Playback time during which the mic is muted while the echo canceller converges. */
+const HOLD_OFF_MS = 300;
+/** Mic level (RMS) below which a chunk is never speech. */
+const MIN_LEVEL = 0.01;
+/** How much louder than the expected echo the mic must be to count as the user. */
+const MARGIN = 3;
+/** Playback window compared against each mic chunk; covers output + input latency. */
+const REFERENCE_MS = 300;
+/** Residual echo relative to playback, assumed until measured. */
+const INITIAL_COUPLING = 0.3;
+const MAX_COUPLING = 1;
+/** Weight of each new measurement in the running coupling estimate. */
+const ADAPT_RATE = 0.2;
+
+/** Root mean square of `samples`. */
+export function rms(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (const s of samples) sum += s * s;
+  return Math.sqrt(sum / samples.length);
+}
+
+/** Maps each mic chunk to what the VAD should hear: the chunk itself or silence. */
+export type EchoGate = (chunk: Float32Array) => Float32Array;
+
+/**
+ * A gate for the mic while audio plays, starting now.
+ *
+ * @param playbackLevel - RMS of the audio played over the last `windowMs`.
+ */
+export function createEchoGate(playbackLevel: (windowMs: number) => number): EchoGate {
+  const startedAt = performance.now();
+  let coupling = INITIAL_COUPLING;
+
+  return (chunk) => {
+    const elapsed = performance.now() - startedAt;
+    const reference = playbackLevel(REFERENCE_MS);
+    const level = rms(chunk);
+
+    const speech = elapsed >= HOLD_OFF_MS && level >= MIN_LEVEL && level >= reference * coupling * MARGIN;
+    if (speech) return chunk;
+
+    // Anything held back is taken as echo and refines the estimate
+    if (reference > 0) {
+      const measured = Math.min(MAX_COUPLING, level / reference);
+      coupling += (measured - coupling) * ADAPT_RATE;
+    }
+    return new Float32Array(chunk.length);
+  };
+}
@@ -0,0 +1,184 @@
+/**
+ * Fingerprinting and clustering of recurring errors across Debug sessions.
+ *
+ * A fingerprint is the error type, the error message with its variable
+ * parts (quoted values, numbers, ids, paths, URLs) replaced by
+ * placeholders, and the innermost application frames without line numbers.
+ * Two pastes of the same failure therefore match even when the offending
+ * value, the port or the bundle hash differ. Quoted identifiers such as
+ * property names are kept, since they tell otherwise identical errors apart.
+ */
+
+import { findErrorLine, type ParsedTrace, type StackFrame } from './stackTrace';
+import type { DebugAnalysis, ReportMessage } from './debugReport';
+
+export interface ErrorFingerprint {
+  /** Stable hash of the other fields; equal keys mean the same error. */
+  key: string;
+  errorType: string;
+  /** Error message with variable parts replaced, e.g. `Cannot read properties of <kw> (reading 'map')`. */
+  template: string;
+  /** `fn@file` of the innermost application frames. */
+  topFrames: string[];
+}
+
+/** One analyzed paste of an error. */
+export interface ErrorOccurrence {
+  sessionId: string;
+  sessionName: string;
+  /** When the error was pasted. */
+  timestamp: number;
+  analysis: DebugAnalysis;
+  modelId?: string;
+}
+
+export interface ErrorCluster extends ErrorFingerprint {
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  /** Sessions the error appeared in, in the order of `sources`. */
+  sessions: { id: string; name: string }[];
+  /** The most recent analysis of this error. */
+  latest: ErrorOccurrence;
+}
+
+export interface ClusterSource {
+  id: string;
+  name: string;
+  messages: ReportMessage[];
+}
+
+const TOP_FRAMES = 3;
+const MAX_TEMPLATE = 200;
+
+/** A quoted property, function or module name, kept verbatim in the template. */
+const QUOTED_IDENTIFIER = /^(["'`])[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*\1$/;
+
+/** Variable parts of a message, replaced in this order. */
+const PLACEHOLDERS: [RegExp, string][] = [
+  [/\b[a-z][\w+.-]*:\/\/\S+/gi, '<url>'],
+  [/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`[^`]*`/g, '<str>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  [/(?:[A-Za-z]:)?(?:[\w.@~-]*[\\/])+[\w.@-]+/g, '<path>'],
+  [/\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, '<ip>'],
+  [/\b0x[0-9a-f]+\b|\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, '<hex>'],
+  [/\b(?:undefined|null|None|nil)\b/g, '<kw>'],
+  [/\b\d+(?:\.\d+)?\b/g, '<n>'],
+];
+
+function normalizeMessage(line: string): string {
+  let text = line.replace(/^\s*Uncaught\s+(?:\(in promise\)\s*)?/i, '');
+  for (const [pattern, placeholder] of PLACEHOLDERS) {
+    text = text.replace(pattern, (match) =>
+      placeholder === '<str>' && QUOTED_IDENTIFIER.test(match) ? match : placeholder);
+  }
+  text = text.replace(/\s+/g, ' ').trim();
+  return text.length > MAX_TEMPLATE ? text.slice(0, MAX_TEMPLATE) : text;
+}
+
+/** `TypeError`, `NullPointerException`, `panic`…, preferring the name before a colon. */
+function errorTypeOf(line: string): string {
+  if (/^\s*panic\b/.test(line)) return 'panic';
+  const names = [...line.matchAll(/([\w$.]*(?:Error|Exception))\b(:?)/g)];
+  const best = names.find((m) => m[2]) ?? names[0];
+  return best ? best[1].split('.').pop()! : '';
+}
+
+/** `fn@file`, with the directory, query string and bundle hash dropped. */
+function frameKey(f: StackFrame): string {
+  const pos = f.original ?? f;
+  const file = pos.file
+    .replace(/[?#].*$/, '')
+    .split(/[\\/]/).pop()!
+    .replace(/[.-][0-9a-f]{6,}(?=\.)/i, '');
+  return `${f.original?.fn ?? f.fn ?? '<anonymous>'}@${file}`;
+}
+
+/** 32-bit FNV-1a as 8 hex digits. */
+function hash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Fingerprint pasted error text; null without an error line or an
+ * application stack frame to match on, since any other line (a question
+ * around the paste, say) says nothing about which error it is.
+ */
+export function fingerprintError(text: string, trace?: ParsedTrace): ErrorFingerprint | null {
+  const line = trace?.message ?? findErrorLine(text);
+  const template = line ? normalizeMessage(line) : '';
+  const topFrames = (trace?.frames ?? []).filter((f) => !f.library).slice(0, TOP_FRAMES).map(frameKey);
+  if (!template && topFrames.length === 0) return null;
+
+  const errorType = line ? errorTypeOf(line) : '';
+  return { key: hash([errorType, template, ...topFrames].join('\n')), errorType, template, topFrames };
+}
+
+/**
+ * Group the analyzed errors of `sources` by fingerprint, most frequent
+ * first and then most recent. Unanswered or unstructured replies are skipped.
+ */
+export function clusterErrors(sources: ClusterSource[]): ErrorCluster[] {
+  const clusters = new Map<string, ErrorCluster>();
+
+  for (const source of sources) {
+    let question: ReportMessage | undefined;
+    for (const m of source.messages) {
+      if (m.role === 'user') {
+        question = m;
+        continue;
+      }
+      if (!question || !m.analysis) continue;
+      const fp = fingerprintError(question.content, question.trace);
+      if (!fp) continue;
+
+      const occurrence: ErrorOccurrence = {
+        sessionId: source.id,
+        sessionName: source.name,
+        timestamp: question.timestamp,
+        analysis: m.analysis,
+        modelId: m.modelId,
+      };
+      const cluster = clusters.get(fp.key);
+      if (!cluster) {
+        clusters.set(fp.key, {
+          ...fp,
+          count: 1,
+          firstSeen: occurrence.timestamp,
+          lastSeen: occurrence.timestamp,
+          sessions: [{ id: source.id, name: source.name }],
+          latest: occurrence,
+        });
+        continue;
+      }
+      cluster.count++;
+      cluster.firstSeen = Math.min(cluster.firstSeen, occurrence.timestamp);
+      if (occurrence.timestamp >= cluster.lastSeen) {
+        cluster.lastSeen = occurrence.timestamp;
+        cluster.latest = occurrence;
+      }
+      if (!cluster.sessions.some((s) => s.id === source.id)) cluster.sessions.push({ id: source.id, name: source.name });
+    }
+  }
+
+  return [...clusters.values()].sort((a, b) => b.count - a.count || b.lastSeen - a.lastSeen);
+}
+
+/**
+ * Whether a match on `fingerprint` is specific enough to reuse an earlier
+ * analysis without asking the model: it needs both the error message and
+ * where it was thrown, as a message alone is shared by unrelated bugs.
+ */
+export function isReusable(fingerprint: ErrorFingerprint): boolean {
+  return fingerprint.template !== '' && fingerprint.topFrames.length > 0;
+}
+
+/** The cluster an error belongs to, if it has been analyzed before. */
+export function findCluster(clusters: ErrorCluster[], fingerprint: ErrorFingerprint | null): ErrorCluster | undefined {
+  return fingerprint ? clusters.find((c) => c.key === fingerprint.key) : undefined;
+}
@@ -0,0 +1,399 @@
+/**
+ * Offline knowledge base of common runtime errors for the
+ * `lookup_error_code` tool.
+ *
+ * Entries are matched by exact code first (`ENOENT`, `E11000`, `404`), then
+ * by how many of their patterns appear in the query, so a pasted error
+ * message finds the right entry without the model having to name it.
+ */
+
+export interface ErrorEntry {
+  /** Canonical identifier, e.g. `ENOENT` or `TypeError: undefined property`. */
+  code: string;
+  /** Other spellings that count as an exact code match. */
+  aliases?: string[];
+  title: string;
+  runtime: string;
+  description: string;
+  causes: string[];
+  fixes: string[];
+  /** Lower-case fragments that identify the error in a message. */
+  patterns: string[];
+}
+
+export const ERROR_KNOWLEDGE_BASE: ErrorEntry[] = [
+  // ---- JavaScript / browser ----
+  {
+    code: 'TypeError: undefined property',
+    title: 'Reading a property of undefined or null',
+    runtime: 'JavaScript',
+    description: 'Code accessed a property or called a method on a value that is `undefined` or `null`.',
+    causes: [
+      'Data not loaded yet (async fetch, initial React state)',
+      'Wrong property path or a renamed field in an API response',
+      'A function returned nothing on some code path',
+    ],
+    fixes: [
+      'Initialise state with the expected shape (e.g. `[]` instead of `undefined`)',
+      'Guard with optional chaining (`obj?.prop`) or an early return',
+      'Log the value just before the failing line to see what it actually is',
+    ],
+    patterns: ['cannot read properties of undefined', 'cannot read properties of null', 'cannot read property', 'is undefined', 'is null', 'undefined is not an object'],
+  },
+  {
+    code: 'TypeError: not a function',
+    title: 'Calling something that is not a function',
+    runtime: 'JavaScript',
+    description: 'A value was called with `()` but holds something other than a function.',
+    causes: [
+      'Default vs named import mix-up',
+      'Calling an array method on a non-array (e.g. `.map` on an object)',
+      'Shadowed variable or a property that is a value, not a method',
+    ],
+    fixes: [
+      'Check the import style matches the export (`import x` vs `import { x }`)',
+      'Verify the value\'s type with `typeof` or `Array.isArray` before calling',
+    ],
+    patterns: ['is not a function', 'is not a constructor'],
+  },
+  {
+    code: 'ReferenceError',
+    title: 'Variable is not defined',
+    runtime: 'JavaScript',
+    description: 'A name was used that does not exist in scope, or a `let`/`const` was read before its declaration ran.',
+    causes: ['Typo in a variable name', 'Missing import', 'Temporal dead zone: using a `let`/`const` before its line', 'Browser-only global (e.g. `window`) used during server-side rendering'],
+    fixes: ['Fix the spelling or add the import', 'Move the declaration above its first use', 'Guard browser globals with `typeof window !== \'undefined\'`'],
+    patterns: ['is not defined', 'before initialization', 'referenceerror'],
+  },
+  {
+    code: 'SyntaxError: JSON',
+    title: 'Invalid JSON',
+    runtime: 'JavaScript',
+    description: '`JSON.parse` or `response.json()` received text that is not valid JSON.',
+    causes: ['Server returned an HTML error page instead of JSON', 'Empty response body', 'Trailing commas, comments or single quotes in hand-written JSON'],
+    fixes: ['Check `response.ok` and the `Content-Type` header before calling `.json()`', 'Log `await response.text()` to see the real body', 'Validate the payload with a JSON linter'],
+    patterns: ['unexpected token', 'in json at position', 'is not valid json', 'unexpected end of json input'],
+  },
+  {
+    code: 'RangeError: Maximum call stack',
+    title: 'Stack overflow from unbounded recursion',
+    runtime: 'JavaScript',
+    description: 'A function called itself (directly or indirectly) without reaching a base case.',
+    causes: ['Missing or unreachable base case in recursion', 'A setter or getter that assigns to itself', 'React state update inside render causing an endless re-render loop'],
+    fixes: ['Add or fix the base case', 'Use a different backing field in getters/setters', 'Move state updates into effects or event handlers'],
+    patterns: ['maximum call stack size exceeded', 'too much recursion'],
+  },
+  {
+    code: 'React: Too many re-renders',
+    title: 'Infinite render loop',
+    runtime: 'React',
+    description: 'A component updated its own state during render, so React aborted after too many renders.',
+    causes: ['Calling a setter directly in the component body', '`onClick={handler()}` instead of `onClick={handler}`', 'useEffect without a dependency array that sets state'],
+    fixes: ['Pass the handler, do not call it: `onClick={() => handler(x)}`', 'Give useEffect correct dependencies', 'Derive values during render instead of copying them into state'],
+    patterns: ['too many re-renders', 'maximum update depth exceeded'],
+  },
+  {
+    code: 'React: Invalid hook call',
+    title: 'Hooks called outside a component or conditionally',
+    runtime: 'React',
+    description: 'A hook ran outside a function component body, or two copies of React are loaded.',
+    causes: ['Calling a hook inside a loop, condition or regular function', 'Duplicate React in the bundle (linked packages)', 'Mismatched react and react-dom versions'],
+    fixes: ['Call hooks only at the top level of components and custom hooks', 'Deduplicate React (`npm ls react`)', 'Align react and react-dom versions'],
+    patterns: ['invalid hook call', 'rendered more hooks than during the previous render', 'rendered fewer hooks than expected'],
+  },
+  {
+    code: 'CORS',
+    title: 'Cross-origin request blocked',
+    runtime: 'Browser',
+    description: 'The browser blocked a response because the server did not allow the requesting origin.',
+    causes: ['Server does not send `Access-Control-Allow-Origin`', 'Preflight (OPTIONS) request not handled', 'Credentials sent with a wildcard origin'],
+    fixes: ['Configure CORS headers on the server for your origin', 'Handle OPTIONS requests', 'Use a dev-server proxy during development'],
+    patterns: ['cors', 'access-control-allow-origin', 'blocked by cors policy', 'cross-origin request blocked'],
+  },
+  {
+    code: 'Failed to fetch',
+    title: 'Network request failed',
+    runtime: 'Browser',
+    description: '`fetch` rejected before any HTTP response arrived.',
+    causes: ['Server down or wrong URL/port', 'CORS failure (the real reason is in the console)', 'Mixed content: http request from an https page', 'Ad blocker or offline'],
+    fixes: ['Open the URL directly to confirm the server responds', 'Check the Network tab for the blocked request', 'Serve the API over https'],
+    patterns: ['failed to fetch', 'networkerror when attempting to fetch', 'load failed', 'net::err_'],
+  },
+  {
+    code: 'Unhandled promise rejection',
+    title: 'Promise rejected without a handler',
+    runtime: 'JavaScript',
+    description: 'An async error was thrown with no `catch` or `try/await` around it.',
+    causes: ['Missing `await` so the try/catch never sees the error', 'No `.catch()` on a fire-and-forget promise'],
+    fixes: ['`await` the promise inside try/catch', 'Add `.catch()` to promises you do not await'],
+    patterns: ['unhandled promise rejection', 'unhandledrejection', 'uncaught (in promise)'],
+  },
+
+  // ---- Node.js system errors ----
+  {
+    code: 'ENOENT',
+    title: 'No such file or directory',
+    runtime: 'Node.js',
+    description: 'A file system call referenced a path that does not exist.',
+    causes: ['Relative path resolved against an unexpected working directory', 'File not created yet or deleted', 'Typo or wrong case on a case-sensitive file system'],
+    fixes: ['Build paths with `path.join(__dirname, ...)` or `new URL(..., import.meta.url)`', 'Check existence first or create the directory with `mkdir -p`', 'Log `process.cwd()` and the resolved path'],
+    patterns: ['enoent', 'no such file or directory'],
+  },
+  {
+    code: 'EADDRINUSE',
+    title: 'Port already in use',
+    runtime: 'Node.js',
+    description: 'A server tried to listen on a port another process already holds.',
+    causes: ['A previous dev server is still running', 'Two services configured with the same port'],
+    fixes: ['Stop the other process (find it with `lsof -i :PORT` or `netstat -ano`)', 'Use a different port via an environment variable'],
+    patterns: ['eaddrinuse', 'address already in use'],
+  },
+  {
+    code: 'ECONNREFUSED',
+    title: 'Connection refused',
+    runtime: 'Node.js',
+    description: 'Nothing was listening at the host and port the client connected to.',
+    causes: ['Target service not started', 'Wrong host or port', '`localhost` resolving to IPv6 (::1) while the server listens on IPv4'],
+    fixes: ['Start the service and confirm its port', 'Use `127.0.0.1` explicitly', 'Inside Docker, use the service name instead of localhost'],
+    patterns: ['econnrefused', 'connection refused'],
+  },
+  {
+    code: 'ETIMEDOUT',
+    title: 'Connection timed out',
+    runtime: 'Node.js',
+    description: 'A network operation did not complete in time.',
+    causes: ['Firewall dropping packets', 'Slow or unreachable remote host', 'DNS resolving to the wrong address'],
+    fixes: ['Check connectivity with curl from the same machine', 'Increase the timeout for slow endpoints', 'Add retries with backoff'],
+    patterns: ['etimedout', 'timed out', 'timeout of'],
+  },
+  {
+    code: 'EACCES',
+    aliases: ['EPERM'],
+    title: 'Permission denied',
+    runtime: 'Node.js',
+    description: 'The process lacks permission for a file or port.',
+    causes: ['Writing to a directory owned by another user', 'Binding a port below 1024 without privileges', 'Global npm install without the right prefix'],
+    fixes: ['Fix ownership or use a user-writable directory', 'Use a port above 1024', 'Configure an npm prefix instead of using sudo'],
+    patterns: ['eacces', 'eperm', 'permission denied', 'operation not permitted'],
+  },
+  {
+    code: 'ERR_MODULE_NOT_FOUND',
+    aliases: ['MODULE_NOT_FOUND'],
+    title: 'Cannot find module',
+    runtime: 'Node.js',
+    description: 'An import or require could not be resolved.',
+    causes: ['Package not installed', 'Missing file extension in ESM imports', 'Wrong relative path', 'Path alias configured for TypeScript but not the runtime/bundler'],
+    fixes: ['Install the package', 'Add `.js` to relative ESM imports', 'Mirror tsconfig `paths` in the bundler config'],
+    patterns: ['cannot find module', 'err_module_not_found', 'module_not_found', 'failed to resolve import'],
+  },
+  {
+    code: 'ERR_REQUIRE_ESM',
+    title: 'require() of an ES module',
+    runtime: 'Node.js',
+    description: 'CommonJS code used `require` on a package that only ships ES modules.',
+    causes: ['Dependency upgraded to an ESM-only major version'],
+    fixes: ['Use dynamic `await import()`', 'Convert the project to ESM (`"type": "module"`)', 'Pin the previous CommonJS-compatible version'],
+    patterns: ['err_require_esm', 'require() of es module'],
+  },
+  {
+    code: 'JavaScript heap out of memory',
+    title: 'Node ran out of heap',
+    runtime: 'Node.js',
+    description: 'V8 could not allocate more memory within the heap limit.',
+    causes: ['Loading a huge file into memory at once', 'A memory leak (growing caches, listeners)', 'Large builds exceeding the default limit'],
+    fixes: ['Stream data instead of buffering it', 'Take a heap snapshot to find the leak', 'Raise the limit with `--max-old-space-size`'],
+    patterns: ['heap out of memory', 'allocation failed', 'reached heap limit'],
+  },
+
+  // ---- Python ----
+  {
+    code: 'ModuleNotFoundError',
+    aliases: ['ImportError'],
+    title: 'Python module not found',
+    runtime: 'Python',
+    description: 'An import could not be resolved in the active interpreter.',
+    causes: ['Package installed into a different virtualenv or interpreter', 'Running a module file directly instead of with `-m`', 'Circular import (ImportError: cannot import name)'],
+    fixes: ['Install with `python -m pip install ...` using the same interpreter', 'Run packages with `python -m package.module`', 'Break the import cycle'],
+    patterns: ['modulenotfounderror', 'no module named', 'importerror', 'cannot import name'],
+  },
+  {
+    code: 'KeyError',
+    title: 'Missing dictionary key',
+    runtime: 'Python',
+    description: 'A dict was indexed with a key it does not contain.',
+    causes: ['Optional field missing from input data', 'Key spelled or cased differently'],
+    fixes: ['Use `d.get(key, default)`', 'Check `key in d` first', 'Validate input data at the boundary'],
+    patterns: ['keyerror'],
+  },
+  {
+    code: 'IndexError',
+    title: 'Index out of range',
+    runtime: 'Python',
+    description: 'A sequence was indexed past its end.',
+    causes: ['Empty list from a query or split', 'Off-by-one loop bound'],
+    fixes: ['Check the length first', 'Iterate directly or with `enumerate` instead of indices'],
+    patterns: ['indexerror', 'list index out of range'],
+  },
+  {
+    code: 'AttributeError: NoneType',
+    title: 'Attribute access on None',
+    runtime: 'Python',
+    description: 'A method or attribute was used on `None`.',
+    causes: ['Function returned None on some path', 'In-place methods like `list.sort()` return None', 'Regex `match` found nothing'],
+    fixes: ['Check for None before use', 'Use `sorted()` when you need the result', 'Handle the no-match case'],
+    patterns: ["'nonetype' object has no attribute", 'attributeerror'],
+  },
+  {
+    code: 'TypeError: NoneType not subscriptable',
+    title: 'Indexing None',
+    runtime: 'Python',
+    description: '`None` was indexed like a list or dict.',
+    causes: ['A lookup or API call returned None', 'Missing `return` in a helper'],
+    fixes: ['Return a value on every path', 'Guard with `if result is None`'],
+    patterns: ["'nonetype' object is not subscriptable", 'object is not subscriptable'],
+  },
+  {
+    code: 'IndentationError',
+    aliases: ['TabError'],
+    title: 'Inconsistent indentation',
+    runtime: 'Python',
+    description: 'Python could not parse the block structure.',
+    causes: ['Tabs mixed with spaces', 'Pasted code with a different indent width'],
+    fixes: ['Convert tabs to 4 spaces', 'Run a formatter such as black'],
+    patterns: ['indentationerror', 'taberror', 'unexpected indent', 'unindent does not match'],
+  },
+
+  // ---- JVM ----
+  {
+    code: 'NullPointerException',
+    title: 'Null reference dereferenced',
+    runtime: 'Java',
+    description: 'A method or field was used on a `null` reference.',
+    causes: ['Uninitialised field or dependency injection not applied', 'Map lookup returning null', 'Unboxing a null `Integer` to `int`'],
+    fixes: ['Read the "helpful NPE" message (Java 14+) naming the null expression', 'Initialise fields or use `Optional`', 'Use `Objects.requireNonNull` at boundaries'],
+    patterns: ['nullpointerexception', 'because "', 'is null'],
+  },
+  {
+    code: 'ClassCastException',
+    title: 'Invalid cast',
+    runtime: 'Java',
+    description: 'An object was cast to a type it is not an instance of.',
+    causes: ['Raw collections holding mixed types', 'Deserialisation producing a different class', 'Two class loaders loading the same class'],
+    fixes: ['Use generics instead of casts', 'Check with `instanceof` before casting'],
+    patterns: ['classcastexception', 'cannot be cast to'],
+  },
+  {
+    code: 'ConcurrentModificationException',
+    title: 'Collection modified while iterating',
+    runtime: 'Java',
+    description: 'A collection changed structurally during a for-each loop.',
+    causes: ['Calling `list.remove()` inside a for-each', 'Another thread modifying the collection'],
+    fixes: ['Use `Iterator.remove()` or `removeIf`', 'Use a concurrent collection or synchronise access'],
+    patterns: ['concurrentmodificationexception'],
+  },
+  {
+    code: 'OutOfMemoryError',
+    title: 'JVM out of memory',
+    runtime: 'Java',
+    description: 'The JVM could not allocate an object.',
+    causes: ['Heap too small for the workload', 'Memory leak through static caches or listeners'],
+    fixes: ['Capture a heap dump with `-XX:+HeapDumpOnOutOfMemoryError`', 'Raise `-Xmx` if the workload is legitimate'],
+    patterns: ['outofmemoryerror', 'java heap space', 'gc overhead limit exceeded'],
+  },
+
+  // ---- Go ----
+  {
+    code: 'nil pointer dereference',
+    title: 'Nil pointer dereference',
+    runtime: 'Go',
+    description: 'A nil pointer, map or interface was dereferenced.',
+    causes: ['Ignoring an error and using the nil result', 'Struct pointer field never initialised', 'Writing to a nil map'],
+    fixes: ['Check `err` before using the returned value', 'Initialise with `&T{}` or `make(map...)`'],
+    patterns: ['nil pointer dereference', 'invalid memory address', 'assignment to entry in nil map'],
+  },
+  {
+    code: 'index out of range',
+    title: 'Slice index out of range',
+    runtime: 'Go',
+    description: 'A slice or array was indexed past its length.',
+    causes: ['Empty slice', 'Off-by-one loop bound'],
+    fixes: ['Check `len()` before indexing', 'Use `for i := range s`'],
+    patterns: ['index out of range', 'slice bounds out of range'],
+  },
+  {
+    code: 'all goroutines are asleep',
+    title: 'Deadlock',
+    runtime: 'Go',
+    description: 'Every goroutine is blocked, usually on a channel operation.',
+    causes: ['Unbuffered channel send with no receiver', 'Forgot to close a channel that a range loop reads', 'WaitGroup counter never reaching zero'],
+    fixes: ['Ensure every send has a receiver or buffer the channel', 'Close channels when done sending', 'Match `wg.Add` with `wg.Done`'],
+    patterns: ['all goroutines are asleep', 'deadlock!'],
+  },
+
+  // ---- HTTP / databases ----
+  {
+    code: '401',
+    aliases: ['403', 'Unauthorized', 'Forbidden'],
+    title: 'HTTP authentication or authorization failure',
+    runtime: 'HTTP',
+    description: '401 means the request had no valid credentials; 403 means the credentials lack permission.',
+    causes: ['Missing or expired token', 'Token sent in the wrong header format', 'User lacks the required role or scope'],
+    fixes: ['Send `Authorization: Bearer <token>`', 'Refresh expired tokens', 'Check the role/scope configuration'],
+    patterns: ['401', '403', 'unauthorized', 'forbidden'],
+  },
+  {
+    code: '404',
+    aliases: ['Not Found'],
+    title: 'HTTP resource not found',
+    runtime: 'HTTP',
+    description: 'The server has nothing at the requested URL.',
+    causes: ['Wrong path or missing base URL prefix', 'SPA route served without a history fallback', 'Trailing-slash mismatch'],
+    fixes: ['Compare the request URL in the Network tab with the server routes', 'Configure the server to serve index.html for client routes'],
+    patterns: ['404', 'not found'],
+  },
+  {
+    code: '500',
+    aliases: ['502', '503', 'Internal Server Error', 'Bad Gateway'],
+    title: 'HTTP server error',
+    runtime: 'HTTP',
+    description: 'The server (or a proxy in front of it) failed while handling the request.',
+    causes: ['Unhandled exception in the handler', 'Upstream service down behind a proxy (502/503)'],
+    fixes: ['Read the server logs for the stack trace', 'Check the upstream service health'],
+    patterns: ['500', '502', '503', 'internal server error', 'bad gateway', 'service unavailable'],
+  },
+  {
+    code: '23505',
+    aliases: ['E11000', 'ER_DUP_ENTRY', 'SQLITE_CONSTRAINT'],
+    title: 'Unique constraint violation',
+    runtime: 'Database',
+    description: 'An insert or update would duplicate a value in a unique index (PostgreSQL 23505, MongoDB E11000, MySQL ER_DUP_ENTRY).',
+    causes: ['Retrying an insert that already succeeded', 'Race between check-then-insert', 'Seed data inserted twice'],
+    fixes: ['Use an upsert (`ON CONFLICT`, `upsert: true`)', 'Catch the duplicate error and treat it as success where appropriate'],
+    patterns: ['duplicate key', 'unique constraint', 'e11000', 'er_dup_entry', '23505'],
+  },
+];
+
+const normalize = (s: string) => s.trim().toLowerCase();
+
+/**
+ * Best matches for `query` (a code like `ENOENT` or a pasted message),
+ * strongest first. Exact code and alias matches always rank first.
+ */
+export function lookupError(query: string, limit = 3): ErrorEntry[] {
+  const q = normalize(query);
+  if (!q) return [];
+
+  const scored = ERROR_KNOWLEDGE_BASE.map((entry) => {
+    const codes = [entry.code, ...(entry.aliases ?? [])].map(normalize);
+    if (codes.includes(q)) return { entry, score: 100 };
+    // Short numeric codes like "404" only count as whole words
+    const hits = entry.patterns.filter((p) => (/^\d+$/.test(p) ? new RegExp(`\\b${p}\\b`).test(q) : q.includes(p)));
+    return { entry, score: hits.reduce((sum, p) => sum + p.length, 0) };
+  });
+
+  return scored
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((s) => s.entry);
+}
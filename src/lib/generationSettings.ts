@@ -0,0 +1,135 @@
+/**
+ * Sampling settings per tab, persisted in localStorage, plus named presets.
+ *
+ * Not every knob reaches the engine: the llama.cpp bridge currently writes
+ * only max tokens and temperature into the native options, and none of the
+ * SDK APIs accept a repeat penalty or seed. `SUPPORTED_FIELDS` records what
+ * each tab actually applies so the settings drawer can say so instead of
+ * silently ignoring a value.
+ */
+
+export type SettingsScope = 'chat' | 'debug' | 'voice' | 'vision';
+
+export interface GenerationSettings {
+  temperature: number;
+  topP: number;
+  topK: number;
+  repeatPenalty: number;
+  maxTokens: number;
+  /** Vision live mode only — short captions keep up with the camera. */
+  liveMaxTokens: number;
+  stopSequences: string[];
+  /** null = random seed per generation. */
+  seed: number | null;
+}
+
+export type SettingsField = keyof GenerationSettings;
+
+export interface SettingsPreset {
+  name: string;
+  /** Built-in presets only carry sampling fields; saved ones carry everything. */
+  settings: Partial<GenerationSettings>;
+  builtIn?: boolean;
+}
+
+const BASE: GenerationSettings = {
+  temperature: 0.7,
+  topP: 0.9,
+  topK: 40,
+  repeatPenalty: 1.1,
+  maxTokens: 512,
+  liveMaxTokens: 30,
+  stopSequences: [],
+  seed: null,
+};
+
+/** Defaults match the values each tab used before settings existed. */
+export const DEFAULT_SETTINGS: Record<SettingsScope, GenerationSettings> = {
+  chat: { ...BASE },
+  debug: { ...BASE, temperature: 0.3, maxTokens: 800 },
+  voice: { ...BASE, maxTokens: 60 },
+  vision: { ...BASE, temperature: 0.6, maxTokens: 80 },
+};
+
+export const SUPPORTED_FIELDS: Record<SettingsScope, SettingsField[]> = {
+  // TextGeneration.generateStream; stop sequences are enforced client-side.
+  // topP/topK are passed through but not yet written by the WASM bridge.
+  chat: ['temperature', 'maxTokens', 'stopSequences'],
+  // ToolCalling.generateWithTools
+  debug: ['temperature', 'maxTokens'],
+  // TextGeneration.generateStream between STT and TTS
+  voice: ['temperature', 'maxTokens'],
+  // VLMWorkerBridge.process
+  vision: ['temperature', 'maxTokens', 'liveMaxTokens'],
+};
+
+export const BUILT_IN_PRESETS: SettingsPreset[] = [
+  { name: 'Precise', builtIn: true, settings: { temperature: 0.2, topP: 0.8, topK: 20, repeatPenalty: 1.1 } },
+  { name: 'Balanced', builtIn: true, settings: { temperature: 0.7, topP: 0.9, topK: 40, repeatPenalty: 1.1 } },
+  { name: 'Creative', builtIn: true, settings: { temperature: 1.0, topP: 0.95, topK: 80, repeatPenalty: 1.05 } },
+];
+
+const settingsKey = (scope: SettingsScope) => `runanywhere.settings.${scope}`;
+const PRESETS_KEY = 'runanywhere.settings.presets';
+
+/** Clamp and fill a possibly partial/stale stored object into valid settings. */
+export function normalizeSettings(
+  scope: SettingsScope,
+  raw: Partial<GenerationSettings> | null | undefined,
+): GenerationSettings {
+  const d = DEFAULT_SETTINGS[scope];
+  const num = (v: unknown, fallback: number, min: number, max: number) =>
+    typeof v === 'number' && Number.isFinite(v) ? Math.min(max, Math.max(min, v)) : fallback;
+
+  return {
+    temperature: num(raw?.temperature, d.temperature, 0, 2),
+    topP: num(raw?.topP, d.topP, 0, 1),
+    topK: Math.round(num(raw?.topK, d.topK, 0, 200)),
+    repeatPenalty: num(raw?.repeatPenalty, d.repeatPenalty, 1, 2),
+    maxTokens: Math.round(num(raw?.maxTokens, d.maxTokens, 1, 4096)),
+    liveMaxTokens: Math.round(num(raw?.liveMaxTokens, d.liveMaxTokens, 1, 256)),
+    stopSequences: Array.isArray(raw?.stopSequences)
+      ? raw.stopSequences.filter((s): s is string => typeof s === 'string' && s.length > 0)
+      : d.stopSequences,
+    seed: typeof raw?.seed === 'number' && Number.isInteger(raw.seed) ? raw.seed : null,
+  };
+}
+
+export function loadSettings(scope: SettingsScope): GenerationSettings {
+  try {
+    return normalizeSettings(scope, JSON.parse(localStorage.getItem(settingsKey(scope)) ?? 'null'));
+  } catch {
+    return { ...DEFAULT_SETTINGS[scope] };
+  }
+}
+
+export function saveSettings(scope: SettingsScope, settings: GenerationSettings): void {
+  localStorage.setItem(settingsKey(scope), JSON.stringify(settings));
+}
+
+/** User-saved presets (shared across tabs). */
+export function loadPresets(): SettingsPreset[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((p) => typeof p?.name === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePresets(presets: SettingsPreset[]): void {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets.filter((p) => !p.builtIn)));
+}
+
+/**
+ * Truncate streamed text at the first stop sequence.
+ * @returns the text to keep and whether a stop sequence was hit.
+ */
+export function applyStopSequences(text: string, stops: string[]): { text: string; stopped: boolean } {
+  let cut = -1;
+  for (const stop of stops) {
+    const i = text.indexOf(stop);
+    if (i !== -1 && (cut === -1 || i < cut)) cut = i;
+  }
+  return cut === -1 ? { text, stopped: false } : { text: text.slice(0, cut), stopped: true };
+}
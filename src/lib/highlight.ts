@@ -0,0 +1,263 @@
+/**
+ * Lightweight syntax highlighting for code blocks.
+ *
+ * A single-pass tokenizer per language family: comments, strings, numbers,
+ * keywords and literals are classified; everything else is plain text. It
+ * is deliberately approximate — enough to make model-written snippets
+ * readable without shipping a full grammar engine.
+ */
+
+export type TokenType = 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'function' | 'tag' | 'attr' | 'plain';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageSpec {
+  lineComment?: string[];
+  blockComment?: [string, string];
+  /** Quote characters that delimit strings. */
+  quotes: string[];
+  keywords: Set<string>;
+  literals: Set<string>;
+}
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+const C_LIKE_LITERALS = words('true false null undefined NaN Infinity this super self nil None True False');
+
+const SPECS: Record<string, LanguageSpec> = {
+  javascript: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: words(`
+      as async await break case catch class const continue debugger default delete do else enum export
+      extends finally for from function get if implements import in instanceof interface let new of
+      package private protected public readonly return set static switch throw try type typeof var void
+      while with yield keyof declare namespace abstract satisfies`),
+    literals: C_LIKE_LITERALS,
+  },
+  python: {
+    lineComment: ['#'],
+    quotes: ['"', "'"],
+    keywords: words(`
+      and as assert async await break class continue def del elif else except finally for from global
+      if import in is lambda nonlocal not or pass raise return try while with yield match case`),
+    literals: words('True False None self cls'),
+  },
+  java: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: words(`
+      abstract assert boolean break byte case catch char class const continue default do double else
+      enum extends final finally float for goto if implements import instanceof int interface long native
+      new package private protected public return short static strictfp super switch synchronized throw
+      throws transient try void volatile while var record sealed permits fun val when object data
+      override open internal lateinit`),
+    literals: C_LIKE_LITERALS,
+  },
+  csharp: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: words(`
+      abstract as async await base bool break byte case catch char class const continue decimal default
+      delegate do double else enum event explicit extern finally fixed float for foreach get if implicit
+      in int interface internal is lock long namespace new object operator out override params private
+      protected public readonly ref return sealed set short sizeof static string struct switch throw try
+      typeof uint ulong using var virtual void volatile while`),
+    literals: C_LIKE_LITERALS,
+  },
+  c: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: words(`
+      auto break case char class const constexpr continue default delete do double else enum explicit
+      extern float for friend goto if inline int long namespace new noexcept operator private protected
+      public register return short signed sizeof static struct switch template throw try typedef typename
+      union unsigned using virtual void volatile while include define ifdef ifndef endif`),
+    literals: words('true false NULL nullptr this'),
+  },
+  go: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: words(`
+      break case chan const continue default defer else fallthrough for func go goto if import interface
+      map package range return select struct switch type var`),
+    literals: words('true false nil iota'),
+  },
+  rust: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"'],
+    keywords: words(`
+      as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod
+      move mut pub ref return static struct super trait type unsafe use where while`),
+    literals: words('true false self Self None Some Ok Err'),
+  },
+  shell: {
+    lineComment: ['#'],
+    quotes: ['"', "'"],
+    keywords: words(`
+      if then else elif fi for while until do done case esac function in return export local sudo cd echo
+      npm npx yarn pnpm git pip python node`),
+    literals: words('true false'),
+  },
+  sql: {
+    lineComment: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    keywords: words(`
+      select from where and or not insert into values update set delete create table drop alter add index
+      join left right inner outer on group by order having limit offset as distinct union all primary key
+      foreign references default case when then else end is in like between exists`),
+    literals: words('null true false'),
+  },
+  json: {
+    quotes: ['"'],
+    keywords: new Set(),
+    literals: words('true false null'),
+  },
+  css: {
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: words('important media import supports keyframes from to'),
+    literals: new Set(),
+  },
+  /** Fallback when the language is unknown. */
+  generic: {
+    lineComment: ['//', '#'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: words(`
+      if else for while return function def class import from export const let var new try catch except
+      finally throw raise async await public private static void int string`),
+    literals: C_LIKE_LITERALS,
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', node: 'javascript',
+  ts: 'javascript', tsx: 'javascript', typescript: 'javascript',
+  py: 'python', python3: 'python',
+  kotlin: 'java', kt: 'java', scala: 'java',
+  cs: 'csharp', 'c#': 'csharp',
+  cpp: 'c', 'c++': 'c', cc: 'c', h: 'c', hpp: 'c', objc: 'c',
+  golang: 'go',
+  rs: 'rust',
+  sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell', powershell: 'shell', ps1: 'shell',
+  postgres: 'sql', mysql: 'sql', sqlite: 'sql',
+  jsonc: 'json', json5: 'json',
+  scss: 'css', less: 'css',
+};
+
+/** Canonical language name for a fence info string, or '' if unsupported. */
+export function normalizeLanguage(lang: string): string {
+  const key = lang.trim().toLowerCase();
+  if (key === 'html' || key === 'xml' || key === 'svg' || key === 'vue') return 'markup';
+  const name = ALIASES[key] ?? key;
+  return name in SPECS ? name : '';
+}
+
+function tokenizeMarkup(code: string): Token[] {
+  const tokens: Token[] = [];
+  const re = /(<!--[\s\S]*?(?:-->|$))|(<\/?[\w:-]+)|("[^"]*"|'[^']*')|([\w:-]+)(?==)|([\w:-]+|[^<"'\w]+|.)/g;
+  let inTag = false;
+  for (const m of code.matchAll(re)) {
+    if (m[1]) tokens.push({ type: 'comment', text: m[1] });
+    else if (m[2]) {
+      inTag = true;
+      tokens.push({ type: 'tag', text: m[2] });
+    } else if (m[3] && inTag) tokens.push({ type: 'string', text: m[3] });
+    else if (m[4] && inTag) tokens.push({ type: 'attr', text: m[4] });
+    else {
+      const text = m[0];
+      if (inTag && text.includes('>')) inTag = false;
+      tokens.push({ type: 'plain', text });
+    }
+  }
+  return tokens;
+}
+
+export function highlight(code: string, lang: string): Token[] {
+  const name = normalizeLanguage(lang);
+  if (name === 'markup') return tokenizeMarkup(code);
+  const spec = SPECS[name || 'generic'];
+
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const rest = code.slice(i, i + 3);
+
+    const line = spec.lineComment?.find((c) => code.startsWith(c, i));
+    // `#` only starts a comment at a word boundary (not inside `a#b`)
+    if (line && !(line === '#' && /\w/.test(code[i - 1] ?? ''))) {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (spec.blockComment && code.startsWith(spec.blockComment[0], i)) {
+      const end = code.indexOf(spec.blockComment[1], i + spec.blockComment[0].length);
+      const stop = end === -1 ? code.length : end + spec.blockComment[1].length;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const quote = spec.quotes.find((q) => code[i] === q);
+    if (quote) {
+      // Python triple-quoted strings
+      const delim = name === 'python' && rest === quote.repeat(3) ? rest : quote;
+      let j = i + delim.length;
+      while (j < code.length && !code.startsWith(delim, j)) {
+        if (code[j] === '\\') j++;
+        else if (code[j] === '\n' && delim.length === 1 && quote !== '`') break;
+        j++;
+      }
+      const stop = Math.min(code.length, code.startsWith(delim, j) ? j + delim.length : j);
+      push('string', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const number = code.slice(i).match(/^(0x[\da-f]+|\d[\d_]*(\.\d+)?(e[+-]?\d+)?)[a-z]*/i);
+    if (number && !/[\w$]/.test(code[i - 1] ?? '')) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = code.slice(i).match(/^[A-Za-z_$][\w$]*/);
+    if (word) {
+      const w = word[0];
+      const lower = name === 'sql' ? w.toLowerCase() : w;
+      const type: TokenType = spec.keywords.has(lower) ? 'keyword'
+        : spec.literals.has(lower) ? 'literal'
+        : /^\s*\(/.test(code.slice(i + w.length)) ? 'function'
+        : 'plain';
+      // Words never merge with neighbours of the same type
+      tokens.push({ type, text: w });
+      i += w.length;
+      continue;
+    }
+
+    push('plain', code[i]);
+    i++;
+  }
+
+  return tokens;
+}
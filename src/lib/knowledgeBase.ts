@@ -0,0 +1,326 @@
+/**
+ * Local knowledge base for Debug analyses: runbooks, FAQs and exported
+ * debug reports, split into passages and searched for the error at hand.
+ *
+ * Passages are ranked by BM25 over the passage text, which needs no model
+ * at all. Everything lives in its own IndexedDB database so clearing it
+ * never touches saved sessions.
+ */
+
+import { parseJSONReport } from './debugReport';
+
+export type KnowledgeDocKind = 'markdown' | 'text' | 'report';
+
+export interface KnowledgeDoc {
+  id: string;
+  name: string;
+  kind: KnowledgeDocKind;
+  addedAt: number;
+  size: number;
+  chunkCount: number;
+}
+
+interface KnowledgeChunk {
+  id: string;
+  docId: string;
+  /** Heading path within the document, e.g. `Database › Pool exhausted`. */
+  heading?: string;
+  text: string;
+}
+
+/** A retrieved passage, as included in the prompt and cited in the card. */
+export interface Passage {
+  docName: string;
+  heading?: string;
+  text: string;
+  /** BM25 score. */
+  score: number;
+}
+
+const DB_NAME = 'runanywhere-knowledge';
+const DB_VERSION = 1;
+const DOCS = 'docs';
+const CHUNKS = 'chunks';
+
+/** Target passage size; paragraphs are packed up to this many characters. */
+const CHUNK_CHARS = 800;
+/** Passages are cut to this length before they go into a prompt. */
+const PASSAGE_CHARS = 700;
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+let _dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (_dbPromise) return _dbPromise;
+
+  _dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(DOCS)) db.createObjectStore(DOCS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(CHUNKS)) {
+        db.createObjectStore(CHUNKS, { keyPath: 'id' }).createIndex('docId', 'docId');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      _dbPromise = null;
+      reject(req.error);
+    };
+  });
+
+  return _dbPromise;
+}
+
+/** Run `fn` inside one transaction over both stores and resolve when it commits. */
+async function transact<T>(
+  mode: IDBTransactionMode,
+  fn: (docs: IDBObjectStore, chunks: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([DOCS, CHUNKS], mode);
+    const req = fn(tx.objectStore(DOCS), tx.objectStore(CHUNKS));
+    tx.oncomplete = () => resolve(req ? req.result : undefined);
+    tx.onerror = () => reject(tx.error ?? req?.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Chunking
+// ---------------------------------------------------------------------------
+
+type RawChunk = Pick<KnowledgeChunk, 'heading' | 'text'>;
+
+/** Pack paragraphs into chunks of about `CHUNK_CHARS`, hard-splitting oversized ones. */
+function packParagraphs(paragraphs: string[], heading?: string): RawChunk[] {
+  const out: RawChunk[] = [];
+  let current = '';
+  const flush = () => {
+    if (current.trim()) out.push({ heading, text: current.trim() });
+    current = '';
+  };
+  for (const para of paragraphs) {
+    if (current && current.length + para.length + 2 > CHUNK_CHARS) flush();
+    if (para.length <= CHUNK_CHARS) {
+      current = current ? `${current}\n\n${para}` : para;
+      continue;
+    }
+    for (let i = 0; i < para.length; i += CHUNK_CHARS) {
+      current = para.slice(i, i + CHUNK_CHARS);
+      flush();
+    }
+  }
+  flush();
+  return out;
+}
+
+/**
+ * Split Markdown into sections by heading, then into paragraphs. Blank
+ * lines and `#` lines inside code fences belong to the fence.
+ */
+function chunkMarkdown(text: string): RawChunk[] {
+  const out: RawChunk[] = [];
+  const headings: string[] = [];
+  let paragraphs: string[] = [];
+  let para: string[] = [];
+  let inFence = false;
+
+  const endParagraph = () => {
+    if (para.some((l) => l.trim())) paragraphs.push(para.join('\n').trim());
+    para = [];
+  };
+  const endSection = () => {
+    endParagraph();
+    out.push(...packParagraphs(paragraphs, headings.filter(Boolean).join(' › ') || undefined));
+    paragraphs = [];
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      endSection();
+      headings.length = heading[1].length - 1;
+      headings.push(heading[2]);
+    } else if (!inFence && !line.trim()) {
+      endParagraph();
+    } else {
+      para.push(line);
+    }
+  }
+  endSection();
+  return out;
+}
+
+function chunkText(text: string): RawChunk[] {
+  return packParagraphs(text.replace(/\r\n?/g, '\n').split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean));
+}
+
+/** One passage per analysis in an exported debug report. */
+function chunkReport(json: string): RawChunk[] {
+  const { messages } = parseJSONReport(json);
+  const out: RawChunk[] = [];
+  let question: string | undefined;
+  for (const m of messages) {
+    if (m.role === 'user') {
+      question = m.content;
+      continue;
+    }
+    const a = m.analysis;
+    if (!a) continue;
+    const text = [
+      question && `Error: ${question.length > 400 ? `${question.slice(0, 400)}…` : question}`,
+      `Root cause: ${a.rootCause}`,
+      `Fix: ${a.suggestedFix}`,
+      a.additionalNotes && `Notes: ${a.additionalNotes}`,
+    ].filter(Boolean).join('\n');
+    out.push({ heading: `${a.errorType} (${a.severity})`, text });
+  }
+  return out;
+}
+
+function kindOf(fileName: string): KnowledgeDocKind {
+  if (/\.json$/i.test(fileName)) return 'report';
+  if (/\.(md|markdown|mdx)$/i.test(fileName)) return 'markdown';
+  return 'text';
+}
+
+// ---------------------------------------------------------------------------
+// Documents
+// ---------------------------------------------------------------------------
+
+/** Stored documents, most recently added first. */
+export async function listDocuments(): Promise<KnowledgeDoc[]> {
+  const docs = await transact<KnowledgeDoc[]>('readonly', (docs) => docs.getAll());
+  return (docs ?? []).sort((a, b) => b.addedAt - a.addedAt);
+}
+
+/**
+ * Read, split and store `files`. A file with the same name as a stored
+ * document replaces it. Throws with a user-facing message listing the
+ * files that could not be indexed, after storing the rest.
+ */
+export async function addDocuments(files: File[]): Promise<KnowledgeDoc[]> {
+  const existing = await listDocuments();
+  const added: KnowledgeDoc[] = [];
+  const failures: string[] = [];
+
+  for (const file of files) {
+    try {
+      if (file.size > MAX_FILE_BYTES) throw new Error('larger than 2 MB');
+      const text = await file.text();
+      if (text.includes('\u0000')) throw new Error('not a text file');
+
+      const kind = kindOf(file.name);
+      const raw = kind === 'report' ? chunkReport(text) : kind === 'markdown' ? chunkMarkdown(text) : chunkText(text);
+      if (raw.length === 0) throw new Error(kind === 'report' ? 'no analyses in this report' : 'no text found');
+
+      const doc: KnowledgeDoc = {
+        id: crypto.randomUUID(),
+        name: file.name,
+        kind,
+        addedAt: Date.now(),
+        size: file.size,
+        chunkCount: raw.length,
+      };
+      const chunks: KnowledgeChunk[] = raw.map((c, i) => ({ id: `${doc.id}:${i}`, docId: doc.id, ...c }));
+
+      const replaced = existing.find((d) => d.name === file.name);
+      if (replaced) await deleteDocument(replaced.id);
+      await transact('readwrite', (docs, store) => {
+        docs.put(doc);
+        chunks.forEach((c) => store.put(c));
+      });
+      added.push(doc);
+    } catch (err) {
+      failures.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (failures.length > 0) throw new Error(`Some files could not be indexed:\n${failures.join('\n')}`);
+  return added;
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+  await transact('readwrite', (docs, chunks) => {
+    docs.delete(id);
+    chunks.delete(IDBKeyRange.bound(`${id}:`, `${id}:\uffff`));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'not', 'but', 'with', 'this', 'that', 'from', 'have', 'has',
+  'you', 'your', 'can', 'will', 'when', 'then', 'into', 'its', 'all', 'any', 'our', 'out', 'use',
+  'how', 'why', 'what', 'which', 'there', 'their', 'been', 'also', 'than', 'only', 'http', 'https',
+]);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9_$]+/g) ?? [])
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function bm25(query: string, chunks: KnowledgeChunk[]): number[] {
+  const terms = [...new Set(tokenize(query))];
+  const docs = chunks.map((c) => tokenize(c.heading ? `${c.heading} ${c.text}` : c.text));
+  const avgLen = docs.reduce((sum, d) => sum + d.length, 0) / Math.max(1, docs.length);
+
+  const df = new Map<string, number>();
+  for (const d of docs) {
+    for (const t of new Set(d)) df.set(t, (df.get(t) ?? 0) + 1);
+  }
+
+  return docs.map((d) => {
+    const tf = new Map<string, number>();
+    for (const t of d) tf.set(t, (tf.get(t) ?? 0) + 1);
+    return terms.reduce((score, t) => {
+      const f = tf.get(t);
+      if (!f) return score;
+      const n = df.get(t) ?? 0;
+      const idf = Math.log(1 + (docs.length - n + 0.5) / (n + 0.5));
+      return score + idf * (f * (BM25_K1 + 1)) / (f + BM25_K1 * (1 - BM25_B + BM25_B * d.length / avgLen));
+    }, 0);
+  });
+}
+
+/** The `limit` passages most relevant to `query`, best first. */
+export async function searchKnowledge(query: string, limit = 3): Promise<Passage[]> {
+  const [docs, chunks] = await Promise.all([
+    listDocuments(),
+    transact<KnowledgeChunk[]>('readonly', (_, store) => store.getAll()).then((c) => c ?? []),
+  ]);
+  if (chunks.length === 0 || !query.trim()) return [];
+
+  const scores = bm25(query, chunks);
+  const names = new Map(docs.map((d) => [d.id, d.name]));
+  return chunks
+    .map((c, i) => ({ chunk: c, score: scores[i] }))
+    .filter((r) => r.score >= Number.EPSILON)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ chunk, score }) => ({
+      docName: names.get(chunk.docId) ?? 'Unknown document',
+      heading: chunk.heading,
+      text: chunk.text.length > PASSAGE_CHARS ? `${chunk.text.slice(0, PASSAGE_CHARS)}…` : chunk.text,
+      score,
+    }));
+}
+
+/** Title shown for a passage: document name plus its heading path. */
+export function passageTitle(p: Passage): string {
+  return p.heading ? `${p.docName} › ${p.heading}` : p.docName;
+}
+
+/** Numbered references for the prompt, matching the `[n]` citations in the card. */
+export function formatPassagesForPrompt(passages: Passage[]): string {
+  const blocks = passages.map((p, i) => `[${i + 1}] ${passageTitle(p)}\n${p.text}`);
+  return 'Reference notes from the user\'s knowledge base. Cite them as [1], [2], … in your answer '
+    + `where they apply and ignore any that don't:\n\n${blocks.join('\n\n')}`;
+}
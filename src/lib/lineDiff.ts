@@ -0,0 +1,80 @@
+/**
+ * Line-based diff for the `diff_code` tool.
+ *
+ * Classic LCS table over lines, which is plenty for the snippet-sized
+ * inputs a model passes to a tool. Inputs beyond `MAX_LINES` lines are
+ * rejected rather than making the browser allocate a huge table.
+ */
+
+export interface DiffLine {
+  op: 'same' | 'add' | 'remove';
+  text: string;
+}
+
+export interface LineDiff {
+  lines: DiffLine[];
+  added: number;
+  removed: number;
+  /** Unified-style text: ` `, `+` and `-` prefixes, unchanged runs collapsed. */
+  unified: string;
+}
+
+const MAX_LINES = 1000;
+/** Unchanged lines kept on each side of a change in `unified`. */
+const CONTEXT = 3;
+
+export function diffLines(before: string, after: string): LineDiff {
+  const a = before.replace(/\r\n?/g, '\n').split('\n');
+  const b = after.replace(/\r\n?/g, '\n').split('\n');
+  if (a.length > MAX_LINES || b.length > MAX_LINES) {
+    throw new Error(`Inputs are limited to ${MAX_LINES} lines each`);
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint16Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: 'same', text: a[i++] });
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      // Prefer removals first so a changed line reads as "-old" then "+new"
+      lines.push({ op: 'remove', text: a[i++] });
+    } else {
+      lines.push({ op: 'add', text: b[j++] });
+    }
+  }
+
+  const changed = lines.map((l) => l.op !== 'same');
+  const nearChange = (k: number) => changed.slice(Math.max(0, k - CONTEXT), k + CONTEXT + 1).some(Boolean);
+  const unified: string[] = [];
+  let skipped = 0;
+  lines.forEach((l, k) => {
+    if (l.op === 'same' && !nearChange(k)) {
+      skipped++;
+      return;
+    }
+    if (skipped > 0) unified.push(`@@ ${skipped} unchanged line${skipped === 1 ? '' : 's'} @@`);
+    skipped = 0;
+    unified.push(`${l.op === 'add' ? '+' : l.op === 'remove' ? '-' : ' '}${l.text}`);
+  });
+  if (skipped > 0) unified.push(`@@ ${skipped} unchanged line${skipped === 1 ? '' : 's'} @@`);
+
+  return {
+    lines,
+    added: lines.filter((l) => l.op === 'add').length,
+    removed: lines.filter((l) => l.op === 'remove').length,
+    unified: unified.join('\n'),
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Batch analysis of the errors found in a log file: queue state, the
+ * summary table's sort order and its CSV / Markdown export.
+ */
+
+import { SEVERITIES, type DebugAnalysis } from './debugReport';
+import { LOG_FORMAT_LABELS, type LogErrorBlock, type LogFormat } from './logExtract';
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  block: LogErrorBlock;
+  status: BatchItemStatus;
+  analysis?: DebugAnalysis;
+  /** Set when an earlier analysis of the same error was reused. */
+  reused?: boolean;
+  /** Why no analysis came back. */
+  error?: string;
+}
+
+export interface LogBatch {
+  fileName: string;
+  format: LogFormat;
+  items: BatchItem[];
+  /** Distinct errors left out of the queue. */
+  truncated: number;
+  running: boolean;
+  /** Cancel was requested; the error being analyzed still finishes. */
+  cancelling?: boolean;
+}
+
+export type BatchSortKey = 'severity' | 'errorType' | 'count' | 'line';
+export type BatchSummaryFormat = 'csv' | 'markdown';
+
+export const BATCH_STATUS_LABELS: Record<BatchItemStatus, string> = {
+  pending: 'Queued',
+  running: 'Analyzing',
+  done: 'Done',
+  failed: 'No analysis',
+  cancelled: 'Cancelled',
+};
+
+/** First line of an error block, for table cells. */
+export const blockSummary = (block: LogErrorBlock) => block.text.split('\n')[0].trim();
+
+/** Higher is more severe; items without an analysis sort below `low`. */
+const severityRank = (item: BatchItem) => (item.analysis ? SEVERITIES.indexOf(item.analysis.severity) : -1);
+
+/** Default order per column: most severe, A–Z, most frequent, earliest line. */
+const COMPARE: Record<BatchSortKey, (a: BatchItem, b: BatchItem) => number> = {
+  severity: (a, b) => severityRank(b) - severityRank(a),
+  errorType: (a, b) => (a.analysis?.errorType ?? blockSummary(a.block)).localeCompare(b.analysis?.errorType ?? blockSummary(b.block)),
+  count: (a, b) => b.block.count - a.block.count,
+  line: (a, b) => a.block.line - b.block.line,
+};
+
+/** Items in summary order; ties keep log order. */
+export function sortBatchItems(items: BatchItem[], key: BatchSortKey, reversed = false): BatchItem[] {
+  const sign = reversed ? -1 : 1;
+  return items
+    .map((item, i) => ({ item, i }))
+    .sort((a, b) => sign * COMPARE[key](a.item, b.item) || a.i - b.i)
+    .map(({ item }) => item);
+}
+
+// ---------------------------------------------------------------------------
+
+const csvCell = (value: string | number) => {
+  const s = String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function toCSV(batch: LogBatch, items: BatchItem[]): string {
+  const header = ['severity', 'error_type', 'occurrences', 'line', 'timestamp', 'status', 'error', 'root_cause', 'suggested_fix'];
+  const rows = items.map((item) => [
+    item.analysis?.severity ?? '',
+    item.analysis?.errorType ?? '',
+    item.block.count,
+    item.block.line,
+    item.block.timestamp ?? '',
+    item.reused ? 'reused' : item.status,
+    blockSummary(item.block),
+    item.analysis?.rootCause ?? item.error ?? '',
+    item.analysis?.suggestedFix ?? '',
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+/** Keep a value on one table row. */
+const mdCell = (value: string | number) => String(value).replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+export function toSummaryMarkdown(batch: LogBatch, items: BatchItem[]): string {
+  const lines = [
+    `# Log analysis: ${batch.fileName}`,
+    '',
+    `- Exported: ${new Date().toLocaleString()}`,
+    `- Format: ${LOG_FORMAT_LABELS[batch.format]}`,
+    `- Distinct errors: ${batch.items.length}${batch.truncated > 0 ? ` (${batch.truncated} more not analyzed)` : ''}`,
+    '',
+    '| Severity | Error type | Occurrences | Line | Status | Root cause |',
+    '| --- | --- | ---: | ---: | --- | --- |',
+  ];
+  for (const item of items) {
+    lines.push(`| ${[
+      item.analysis?.severity.toUpperCase() ?? '—',
+      item.analysis?.errorType ?? `\`${blockSummary(item.block)}\``,
+      item.block.count,
+      item.block.line,
+      item.reused ? 'Reused' : BATCH_STATUS_LABELS[item.status],
+      item.analysis?.rootCause ?? item.error ?? '',
+    ].map(mdCell).join(' | ')} |`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+const SUMMARY_TYPES: Record<BatchSummaryFormat, { ext: string; mime: string; build: typeof toCSV }> = {
+  csv: { ext: 'csv', mime: 'text/csv', build: toCSV },
+  markdown: { ext: 'md', mime: 'text/markdown', build: toSummaryMarkdown },
+};
+
+/** Build the summary of `items` (in table order) and trigger a browser download. */
+export function downloadBatchSummary(format: BatchSummaryFormat, batch: LogBatch, items: BatchItem[]): void {
+  const { ext, mime, build } = SUMMARY_TYPES[format];
+  const blob = new Blob([build(batch, items)], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `log-analysis-${Date.now()}.${ext}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,248 @@
+/**
+ * Pull error blocks out of log files for batch analysis.
+ *
+ * Three inputs are understood:
+ *  - JSON lines (one object per line, as written by pino, bunyan, winston,
+ *    structlog…) and JSON arrays of such objects;
+ *  - Chrome DevTools console exports ("Save as…"), where each message is
+ *    prefixed with its source location and optionally a timestamp;
+ *  - plain text logs, where an error line is followed by its stack trace.
+ *
+ * Blocks are deduplicated by `fingerprintError`, so a failure logged a
+ * thousand times is analyzed once and reported with its count.
+ */
+
+import { findErrorLine, parseStackTrace } from './stackTrace';
+import { fingerprintError } from './errorClusters';
+
+export type LogFormat = 'jsonl' | 'json' | 'devtools' | 'text';
+
+export const LOG_FORMAT_LABELS: Record<LogFormat, string> = {
+  jsonl: 'JSON lines',
+  json: 'JSON array',
+  devtools: 'DevTools console export',
+  text: 'Plain text',
+};
+
+/** One distinct error found in a log. */
+export interface LogErrorBlock {
+  text: string;
+  /** 1-based line of the first occurrence. */
+  line: number;
+  /** How many times this error (by fingerprint) appears. */
+  count: number;
+  /** Timestamp of the first occurrence as written in the log, if any. */
+  timestamp?: string;
+}
+
+type RawBlock = Omit<LogErrorBlock, 'count'>;
+
+export interface ExtractedLog {
+  format: LogFormat;
+  blocks: LogErrorBlock[];
+  /** Distinct errors found beyond `MAX_BLOCKS`, which were dropped. */
+  truncated: number;
+}
+
+/** Distinct errors queued from one file; the rest are reported as truncated. */
+export const MAX_BLOCKS = 50;
+const MAX_BLOCK_LINES = 60;
+const MAX_BLOCK_CHARS = 4000;
+
+const TIMESTAMP = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?|\d{2}:\d{2}:\d{2}(?:[.,]\d+)?)\]?\s+/;
+/** DevTools prefixes each console message with its source, e.g. `main.js:42 ` or `VM123:1 `. */
+const DEVTOOLS_SOURCE = /^(?:[\w.@%-]+\.(?:js|mjs|cjs|ts|tsx|jsx|html|vue|svelte)|VM\d+)(?::\d+)+\s+/;
+const LEVEL_ERROR = /\b(?:ERROR|ERR|FATAL|CRITICAL|CRIT|SEVERE|PANIC)\b|\[(?:error|fatal|critical)\]|\blevel=(?:error|fatal)\b/i;
+/** Failed requests as DevTools logs them. */
+const NETWORK_ERROR = /net::ERR_\w+|Failed to load resource/;
+const CONTINUATION = /^(?:\s+\S|Caused by:|\.{3} \d+ more|goroutine \d+ \[)/;
+/** Lines after a blank line that still belong to the same error. */
+const RESUMES_BLOCK = /^(?:goroutine \d+ \[)/;
+/** Go prints the function of each frame unindented, e.g. `main.main()`. */
+const GO_FUNCTION = /^\S+\(.*\)$/;
+
+const JSON_LEVEL_KEYS = ['level', 'severity', 'lvl', 'levelname', 'log.level', 'type'];
+const JSON_MESSAGE_KEYS = ['message', 'msg', 'text', 'error', 'err', 'exception', 'event'];
+const JSON_STACK_KEYS = ['stack', 'stack_trace', 'stacktrace', 'traceback', 'exc_info'];
+const JSON_TIME_KEYS = ['time', 'timestamp', '@timestamp', 'ts', 'date'];
+
+function clip(lines: string[]): string {
+  const text = lines.slice(0, MAX_BLOCK_LINES).join('\n').trimEnd();
+  return text.length > MAX_BLOCK_CHARS ? `${text.slice(0, MAX_BLOCK_CHARS)}\n…` : text;
+}
+
+/** Strip a leading timestamp and DevTools source prefix, returning what was removed. */
+function stripPrefixes(line: string): { rest: string; timestamp?: string } {
+  const ts = line.match(TIMESTAMP);
+  let rest = ts ? line.slice(ts[0].length) : line;
+  rest = rest.replace(DEVTOOLS_SOURCE, '');
+  return { rest, timestamp: ts?.[1] };
+}
+
+// ---------------------------------------------------------------------------
+// JSON logs
+// ---------------------------------------------------------------------------
+
+const lookup = (obj: Record<string, unknown>, keys: string[]) => {
+  for (const k of keys) {
+    const v = k.includes('.') ? k.split('.').reduce<unknown>((o, p) => (o as Record<string, unknown>)?.[p], obj) : obj[k];
+    if (v !== undefined && v !== null && v !== '') return v;
+  }
+  return undefined;
+};
+
+function isErrorEntry(obj: Record<string, unknown>): boolean {
+  const level = lookup(obj, JSON_LEVEL_KEYS);
+  // pino and bunyan use numeric levels: 50 = error, 60 = fatal
+  if (typeof level === 'number') return level >= 50;
+  if (typeof level === 'string') return /^(?:error|err|fatal|critical|crit|severe|emerg|alert|panic|exception)$/i.test(level);
+  return lookup(obj, JSON_STACK_KEYS) !== undefined || (typeof obj.err === 'object' && obj.err !== null);
+}
+
+/** Message and stack of one JSON log entry as a text block. */
+function entryText(obj: Record<string, unknown>): string {
+  // A serialized Error (pino's `err`, winston's `error`) carries the full stack
+  const error = [obj.err, obj.error, obj.exception]
+    .find((v) => typeof v === 'object' && v !== null) as Record<string, unknown> | undefined;
+  if (typeof error?.stack === 'string') return error.stack;
+
+  const parts: string[] = [];
+  const message = lookup(obj, JSON_MESSAGE_KEYS);
+  if (typeof message === 'string') {
+    parts.push(message);
+  } else if (typeof message === 'object' && message !== null) {
+    const err = message as Record<string, unknown>;
+    parts.push([err.type ?? err.name, err.message].filter(Boolean).join(': ') || JSON.stringify(err));
+  }
+  const stack = lookup(obj, JSON_STACK_KEYS);
+  if (typeof stack === 'string') {
+    // Stacks usually repeat the message on their first line
+    parts.push(parts.length > 0 && stack.startsWith(parts[0]) ? stack.slice(parts[0].length).replace(/^\n/, '') : stack);
+  } else if (Array.isArray(stack)) {
+    parts.push(stack.map(String).join('\n'));
+  }
+  return parts.filter(Boolean).join('\n');
+}
+
+function jsonEntries(entries: unknown[], lineOf: (i: number) => number): RawBlock[] {
+  const out: RawBlock[] = [];
+  entries.forEach((entry, i) => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) return;
+    const obj = entry as Record<string, unknown>;
+    if (!isErrorEntry(obj)) return;
+    const text = entryText(obj);
+    const time = lookup(obj, JSON_TIME_KEYS);
+    // pino and bunyan write epoch milliseconds
+    const timestamp = typeof time === 'number' ? new Date(time).toISOString() : time === undefined ? undefined : String(time);
+    if (text) out.push({ text: clip(text.split('\n')), line: lineOf(i), timestamp });
+  });
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Text logs
+// ---------------------------------------------------------------------------
+
+/** Whether `line` begins an error block in a text log. */
+function startsBlock(line: string): boolean {
+  return /^Traceback \(most recent call last\):/.test(line)
+    || /^panic: /.test(line)
+    || findErrorLine(line) !== undefined
+    || LEVEL_ERROR.test(line)
+    || NETWORK_ERROR.test(line);
+}
+
+function textBlocks(lines: string[]): RawBlock[] {
+  const out: RawBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const { rest, timestamp } = stripPrefixes(lines[i]);
+    if (!rest.trim() || /^\s/.test(rest) || !startsBlock(rest)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const block = [rest];
+    const python = rest.startsWith('Traceback');
+    const go = rest.startsWith('panic: ');
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (CONTINUATION.test(line) || (go && GO_FUNCTION.test(line))) {
+        block.push(line);
+        i++;
+      } else if (!line.trim() && RESUMES_BLOCK.test(lines[i + 1] ?? '')) {
+        i++;
+      } else if (python && line.trim() && !stripPrefixes(line).rest.match(/^\s/)) {
+        // The exception line ends a Python traceback
+        block.push(line);
+        i++;
+        break;
+      } else {
+        break;
+      }
+    }
+    out.push({ text: clip(block), line: start + 1, timestamp });
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+
+function detectFormat(text: string, fileName: string): LogFormat {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('[') && /\.json$/i.test(fileName)) return 'json';
+  const sample = text.split(/\r?\n/).filter((l) => l.trim()).slice(0, 20);
+  const jsonLines = sample.filter((l) => /^\s*\{.*\}\s*$/.test(l)).length;
+  if (sample.length > 0 && jsonLines / sample.length >= 0.8) return 'jsonl';
+  const devtools = sample.filter((l) => DEVTOOLS_SOURCE.test(stripPrefixes(l).rest) || DEVTOOLS_SOURCE.test(l)).length;
+  return devtools / Math.max(1, sample.length) >= 0.3 ? 'devtools' : 'text';
+}
+
+/**
+ * Find the distinct error blocks in a log file, in order of first
+ * appearance. Throws with a user-facing message for unreadable JSON.
+ */
+export function extractErrors(text: string, fileName: string): ExtractedLog {
+  const format = detectFormat(text, fileName);
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let raw: RawBlock[];
+
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error(`${fileName} is not valid JSON`);
+    }
+    raw = jsonEntries(Array.isArray(data) ? data : [], (i) => i + 1);
+  } else if (format === 'jsonl') {
+    const entries: unknown[] = [];
+    const lineNumbers: number[] = [];
+    lines.forEach((l, n) => {
+      if (!l.trim()) return;
+      try {
+        entries.push(JSON.parse(l));
+        lineNumbers.push(n + 1);
+      } catch {
+        // Interleaved non-JSON output (e.g. a crash dump) is skipped
+      }
+    });
+    raw = jsonEntries(entries, (i) => lineNumbers[i]);
+  } else {
+    raw = textBlocks(lines);
+  }
+
+  const byKey = new Map<string, LogErrorBlock>();
+  for (const block of raw) {
+    const fp = fingerprintError(block.text, parseStackTrace(block.text) ?? undefined);
+    const key = fp?.key ?? block.text;
+    const seen = byKey.get(key);
+    if (seen) seen.count++;
+    else byKey.set(key, { ...block, count: 1 });
+  }
+
+  const blocks = [...byKey.values()];
+  return { format, blocks: blocks.slice(0, MAX_BLOCKS), truncated: Math.max(0, blocks.length - MAX_BLOCKS) };
+}
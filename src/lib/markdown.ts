@@ -0,0 +1,340 @@
+/**
+ * A small Markdown parser for model output.
+ *
+ * Produces a plain AST that `Markdown.tsx` turns into React elements, so no
+ * string ever reaches the DOM as HTML — raw HTML in the source is shown as
+ * text. Link targets go through `sanitizeUrl`, which only allows http(s)
+ * and mailto.
+ *
+ * Covers what LLMs actually emit: fenced code, headings, lists (nested by
+ * indentation), block quotes, GFM tables, rules, and inline code, emphasis,
+ * strikethrough and links. It is tolerant of half-finished input so it can
+ * render a message while it is still streaming — an unclosed fence is just
+ * a code block that hasn't ended yet.
+ */
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'break' };
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'code'; lang: string; code: string; open: boolean }
+  | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+  | { type: 'quote'; children: Block[] }
+  | { type: 'table'; align: ('left' | 'center' | 'right' | null)[]; head: Inline[][]; rows: Inline[][][] }
+  | { type: 'rule' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/** Return the URL if it is safe to link to, otherwise null. */
+export function sanitizeUrl(raw: string): string | null {
+  const url = raw.trim();
+  // Strip control characters and whitespace that browsers ignore inside schemes
+  const compact = url.replace(/[\u0000-\u001F\u007F\s]+/g, '');
+  try {
+    const parsed = new URL(compact);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|(\d{1,9})[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/** Start of a block that interrupts a paragraph. */
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+export function parseMarkdown(source: string): Block[] {
+  return parseBlocks(source.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+function parseBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code — runs to the matching fence, or to the end while streaming
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const indent = line.length - line.trimStart().length;
+      const body: string[] = [];
+      let closed = false;
+      i++;
+      while (i < lines.length) {
+        const trimmed = lines[i].trim();
+        if (trimmed.startsWith(marker[0].repeat(marker.length)) && /^[`~]+$/.test(trimmed)) {
+          closed = true;
+          i++;
+          break;
+        }
+        body.push(lines[i].slice(Math.min(indent, lines[i].length - lines[i].trimStart().length)));
+        i++;
+      }
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), code: body.join('\n'), open: !closed });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      // Unprefixed lines continue the quote unless they start a new block
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE.test(lines[i]) || !startsBlock(lines[i]))) {
+        body.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(body) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = item[3] !== undefined;
+      const list: Block = { type: 'list', ordered, start: ordered ? Number(item[3]) : 1, items: [] };
+
+      while (i < lines.length) {
+        const m = lines[i].match(LIST_ITEM);
+        if (!m || (m[3] !== undefined) !== ordered) break;
+
+        // Continuation lines must be indented past the marker
+        const contentIndent = m[1].length + m[2].length + 1;
+        const body = [m[4]];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          if (isBlank(next)) {
+            // A blank line continues the item only if indented content follows
+            const after = lines[i + 1];
+            if (after !== undefined && after.length - after.trimStart().length >= contentIndent) {
+              body.push('');
+              i++;
+              continue;
+            }
+            break;
+          }
+          const indent = next.length - next.trimStart().length;
+          if (indent >= Math.min(contentIndent, 2)) {
+            body.push(next.slice(Math.min(indent, contentIndent)));
+            i++;
+          } else if (!startsBlock(next) && !LIST_ITEM.test(next)) {
+            // Lazy paragraph continuation
+            body.push(next.trim());
+            i++;
+          } else {
+            break;
+          }
+        }
+        list.items.push(parseBlocks(body));
+        // Skip a single blank line between items of the same list
+        if (isBlank(lines[i] ?? 'x') && LIST_ITEM.test(lines[i + 1] ?? '')) i++;
+      }
+      blocks.push(list);
+      continue;
+    }
+
+    // GFM table: header row followed by a separator row
+    if (line.includes('|') && TABLE_SEPARATOR.test(lines[i + 1] ?? '') && lines[i + 1].includes('|')) {
+      const head = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell) => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      i += 2;
+      const rows: Inline[][][] = [];
+      while (i < lines.length && lines[i].includes('|') && !isBlank(lines[i])) {
+        const cells = splitRow(lines[i]);
+        rows.push(head.map((_, c) => parseInline(cells[c] ?? '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align, head: head.map((cell) => parseInline(cell)), rows });
+      continue;
+    }
+
+    // Paragraph — until a blank line or another block starts
+    const body: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+      body.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(body.join('\n')) });
+  }
+
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// Inline
+// ---------------------------------------------------------------------------
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>]/;
+const BARE_URL = /^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/;
+
+function pushText(out: Inline[], text: string) {
+  if (!text) return;
+  const last = out[out.length - 1];
+  if (last?.type === 'text') last.text += text;
+  else out.push({ type: 'text', text });
+}
+
+/** Find the closing delimiter, skipping over code spans. */
+function findClose(text: string, delim: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end !== -1) i = end;
+      continue;
+    }
+    if (text.startsWith(delim, i) && i > from && text[i - 1] !== ' ') return i;
+  }
+  return -1;
+}
+
+/** Find the closer matching the opener at `open`, honouring nesting and escapes. */
+function findMatching(text: string, open: number, opener: string, closer: string): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === opener) depth++;
+    else if (text[i] === closer && --depth === 0) return i;
+  }
+  return -1;
+}
+
+export function parseInline(text: string): Inline[] {
+  const out: Inline[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      pushText(out, text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      out.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        out.push({ type: 'code', text: text.slice(i + run.length, end).replace(/^ (.+) $/, '$1') });
+        i = end + run.length;
+        continue;
+      }
+    }
+
+    // Emphasis: ** / __ strong, * / _ em, ~~ strikethrough
+    const delim = text.startsWith('**', i) || text.startsWith('__', i) ? text.slice(i, i + 2)
+      : text.startsWith('~~', i) ? '~~'
+      : ch === '*' || ch === '_' ? ch
+      : null;
+    // Intra-word underscores (snake_case) are not emphasis
+    const intraword = delim?.[0] === '_' && /\w/.test(text[i - 1] ?? '');
+    if (delim && !intraword && text[i + delim.length] !== ' ') {
+      const end = findClose(text, delim, i + delim.length);
+      const closesWord = end !== -1 && !(delim[0] === '_' && /\w/.test(text[end + delim.length] ?? ''));
+      if (end !== -1 && closesWord) {
+        const type = delim === '~~' ? 'del' : delim.length === 2 ? 'strong' : 'em';
+        out.push({ type, children: parseInline(text.slice(i + delim.length, end)) });
+        i = end + delim.length;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const close = findMatching(text, i, '[', ']');
+      if (close !== -1 && text[close + 1] === '(') {
+        const end = findMatching(text, close + 1, '(', ')');
+        if (end !== -1) {
+          const label = parseInline(text.slice(i + 1, close));
+          const href = sanitizeUrl(text.slice(close + 2, end).split(/\s+"/)[0]);
+          if (href) out.push({ type: 'link', href, children: label });
+          else out.push(...label); // unsafe target — keep the label only
+          i = end + 1;
+          continue;
+        }
+      }
+    }
+
+    // Autolinks: <https://...> and bare URLs
+    if (ch === '<') {
+      const m = text.slice(i).match(/^<(https?:\/\/[^\s>]+|mailto:[^\s>]+)>/);
+      const href = m && sanitizeUrl(m[1]);
+      if (m && href) {
+        out.push({ type: 'link', href, children: [{ type: 'text', text: m[1] }] });
+        i += m[0].length;
+        continue;
+      }
+    }
+    if (ch === 'h' && !/\w/.test(text[i - 1] ?? '')) {
+      const m = text.slice(i).match(BARE_URL);
+      const href = m && sanitizeUrl(m[0]);
+      if (m && href) {
+        out.push({ type: 'link', href, children: [{ type: 'text', text: m[0] }] });
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    pushText(out, ch);
+    i++;
+  }
+
+  return out;
+}
@@ -0,0 +1,16 @@
+/**
+ * Remembers which registered model the user picked for each category.
+ * Stored in localStorage so the choice survives reloads.
+ */
+
+import type { ModelCategory } from '@runanywhere/web';
+
+const key = (category: ModelCategory) => `runanywhere.model.selected.${category}`;
+
+export function getSelectedModelId(category: ModelCategory): string | null {
+  return localStorage.getItem(key(category));
+}
+
+export function setSelectedModelId(category: ModelCategory, modelId: string): void {
+  localStorage.setItem(key(category), modelId);
+}
@@ -0,0 +1,224 @@
+/**
+ * System prompt library: reusable personas, which one each feature uses,
+ * and `{{variable}}` substitution at generation time.
+ *
+ * Built-in personas carry the prompts the app shipped with and are
+ * read-only; users duplicate them to make editable copies. Everything is
+ * kept in localStorage and can be exported to / imported from JSON.
+ */
+
+export type PromptSlot = 'chat' | 'debug' | 'voice' | 'debugVoice';
+
+export interface Persona {
+  id: string;
+  name: string;
+  prompt: string;
+  builtIn?: boolean;
+  updatedAt: number;
+}
+
+export const SLOT_LABELS: Record<PromptSlot, string> = {
+  chat: 'Chat',
+  debug: 'Debug (text & vision)',
+  voice: 'Voice',
+  debugVoice: 'Debug (voice mode)',
+};
+
+export const LANGUAGES = [
+  'English', 'Spanish', 'French', 'German', 'Portuguese', 'Italian',
+  'Hindi', 'Japanese', 'Korean', 'Chinese',
+];
+
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  date: "Today's date",
+  time: 'Current local time',
+  weekday: 'Day of the week',
+  language: 'Selected response language',
+  model: 'Name of the loaded model',
+};
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: 'builtin-debugger',
+    name: 'Debugging expert',
+    builtIn: true,
+    updatedAt: 0,
+    prompt: `You are an expert debugging assistant. Analyze programming errors and bugs with precision.
+When given an error message, stack trace, or code issue:
+1. Identify the error type
+2. Assess severity
+3. Explain the root cause
+4. Provide a clear fix
+5. Give a code example when the fix involves code`,
+  },
+  {
+    id: 'builtin-voice',
+    name: 'Voice assistant',
+    builtIn: true,
+    updatedAt: 0,
+    prompt: 'You are a helpful voice assistant. Keep responses concise — 1-2 sentences max.',
+  },
+  {
+    id: 'builtin-voice-debugger',
+    name: 'Voice debugger',
+    builtIn: true,
+    updatedAt: 0,
+    prompt: 'You are a debugging assistant. Analyze errors and provide concise debugging help.',
+  },
+  {
+    id: 'builtin-assistant',
+    name: 'Helpful assistant',
+    builtIn: true,
+    updatedAt: 0,
+    prompt: 'You are a helpful, concise assistant. Today is {{date}}. Reply in {{language}}.',
+  },
+];
+
+/** Chat had no system prompt before the library existed, so it starts with none. */
+const DEFAULT_ASSIGNMENTS: Record<PromptSlot, string | null> = {
+  chat: null,
+  debug: 'builtin-debugger',
+  voice: 'builtin-voice',
+  debugVoice: 'builtin-voice-debugger',
+};
+
+const PERSONAS_KEY = 'runanywhere.prompts.personas';
+const ASSIGNMENTS_KEY = 'runanywhere.prompts.assignments';
+const LANGUAGE_KEY = 'runanywhere.prompts.language';
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+const isPersona = (p: unknown): p is Persona =>
+  typeof p === 'object' && p !== null
+  && typeof (p as Persona).id === 'string'
+  && typeof (p as Persona).name === 'string'
+  && typeof (p as Persona).prompt === 'string';
+
+/** Built-in personas followed by the user's own. */
+export function listPersonas(): Persona[] {
+  const custom = readJson<unknown[]>(PERSONAS_KEY, []);
+  return [...BUILT_IN_PERSONAS, ...(Array.isArray(custom) ? custom.filter(isPersona) : [])];
+}
+
+function saveCustomPersonas(personas: Persona[]): void {
+  localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas.filter((p) => !p.builtIn)));
+}
+
+/** Create or update a user persona. Built-ins cannot be overwritten. */
+export function savePersona(persona: Omit<Persona, 'id' | 'updatedAt'> & { id?: string }): Persona {
+  const all = listPersonas();
+  const existing = persona.id ? all.find((p) => p.id === persona.id) : undefined;
+  if (existing?.builtIn) throw new Error(`"${existing.name}" is built in — duplicate it to edit`);
+
+  const saved: Persona = {
+    id: existing?.id ?? `persona-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: persona.name.trim() || 'Untitled',
+    prompt: persona.prompt,
+    updatedAt: Date.now(),
+  };
+  saveCustomPersonas([...all.filter((p) => p.id !== saved.id), saved]);
+  return saved;
+}
+
+/** Delete a user persona; slots that used it fall back to their default. */
+export function deletePersona(id: string): void {
+  saveCustomPersonas(listPersonas().filter((p) => p.id !== id));
+  const assignments = readJson<Partial<Record<PromptSlot, string | null>>>(ASSIGNMENTS_KEY, {});
+  for (const slot of Object.keys(assignments) as PromptSlot[]) {
+    if (assignments[slot] === id) delete assignments[slot];
+  }
+  localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify(assignments));
+}
+
+export function getAssignments(): Record<PromptSlot, string | null> {
+  const stored = readJson<Partial<Record<PromptSlot, string | null>>>(ASSIGNMENTS_KEY, {});
+  return { ...DEFAULT_ASSIGNMENTS, ...stored };
+}
+
+/** Assign a persona to a slot; null means no system prompt. */
+export function assignPersona(slot: PromptSlot, personaId: string | null): void {
+  const stored = readJson<Partial<Record<PromptSlot, string | null>>>(ASSIGNMENTS_KEY, {});
+  localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify({ ...stored, [slot]: personaId }));
+}
+
+export function getLanguage(): string {
+  return localStorage.getItem(LANGUAGE_KEY) ?? 'English';
+}
+
+export function setLanguage(language: string): void {
+  localStorage.setItem(LANGUAGE_KEY, language);
+}
+
+/**
+ * Replace `{{name}}` placeholders. Unknown variables are left untouched so a
+ * typo shows up in the output instead of vanishing.
+ */
+export function renderPrompt(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => vars[name] ?? match);
+}
+
+/**
+ * The rendered system prompt for a slot, or '' if none is assigned (or the
+ * assigned persona no longer exists).
+ */
+export function resolveSystemPrompt(slot: PromptSlot, extra: { model?: string } = {}): string {
+  const id = getAssignments()[slot];
+  const persona = id ? listPersonas().find((p) => p.id === id) : undefined;
+  if (!persona) return '';
+
+  const now = new Date();
+  return renderPrompt(persona.prompt, {
+    date: now.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }),
+    time: now.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' }),
+    weekday: now.toLocaleDateString(undefined, { weekday: 'long' }),
+    language: getLanguage(),
+    model: extra.model ?? 'an on-device model',
+  }).trim();
+}
+
+interface PromptLibraryExport {
+  version: 1;
+  personas: { name: string; prompt: string }[];
+}
+
+/** Serialize the user's personas (built-ins are omitted). */
+export function exportPersonas(): string {
+  const data: PromptLibraryExport = {
+    version: 1,
+    personas: listPersonas().filter((p) => !p.builtIn).map(({ name, prompt }) => ({ name, prompt })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Import personas from an export file. Entries identical to an existing
+ * persona are skipped.
+ * @returns how many personas were added.
+ */
+export function importPersonas(json: string): number {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  const entries = (data as Partial<PromptLibraryExport>)?.personas;
+  if (!Array.isArray(entries)) throw new Error('No "personas" array found in the file');
+
+  let added = 0;
+  for (const entry of entries) {
+    if (typeof entry?.name !== 'string' || typeof entry?.prompt !== 'string') continue;
+    const duplicate = listPersonas().some((p) => p.name === entry.name && p.prompt === entry.prompt);
+    if (duplicate) continue;
+    savePersona({ name: entry.name, prompt: entry.prompt });
+    added++;
+  }
+  return added;
+}
@@ -0,0 +1,174 @@
+/**
+ * Plain-English breakdown of a JavaScript regular expression for the
+ * `explain_regex` tool. The pattern is first compiled with `RegExp`, so
+ * the explanation is only produced for patterns the engine accepts.
+ */
+
+export interface RegexPart {
+  token: string;
+  meaning: string;
+}
+
+export interface RegexExplanation {
+  valid: boolean;
+  error?: string;
+  parts: RegexPart[];
+  flags: string[];
+  /** Matches against the optional test string. */
+  matches?: { match: string; index: number; groups: string[] }[];
+}
+
+const ESCAPES: Record<string, string> = {
+  d: 'a digit (0-9)',
+  D: 'any character except a digit',
+  w: 'a word character (letter, digit or _)',
+  W: 'any character except a word character',
+  s: 'whitespace',
+  S: 'any character except whitespace',
+  b: 'a word boundary',
+  B: 'a position that is not a word boundary',
+  n: 'a newline',
+  r: 'a carriage return',
+  t: 'a tab',
+  '0': 'a NUL character',
+};
+
+const FLAGS: Record<string, string> = {
+  g: 'global: find every match, not just the first',
+  i: 'case-insensitive',
+  m: 'multiline: ^ and $ match at line breaks',
+  s: 'dotAll: . also matches newlines',
+  u: 'unicode: treat the pattern as code points',
+  v: 'unicodeSets: extended character classes',
+  y: 'sticky: match only at lastIndex',
+  d: 'indices: report match positions',
+};
+
+const GROUP_OPENERS: [string, string][] = [
+  ['(?:', 'start of a non-capturing group'],
+  ['(?=', 'start of a lookahead: must be followed by'],
+  ['(?!', 'start of a negative lookahead: must not be followed by'],
+  ['(?<=', 'start of a lookbehind: must be preceded by'],
+  ['(?<!', 'start of a negative lookbehind: must not be preceded by'],
+];
+
+function describeQuantifier(q: string): string {
+  const lazy = q.length > 1 && q.endsWith('?') && q !== '?';
+  const base = lazy ? q.slice(0, -1) : q;
+  let text: string;
+  if (base === '*') text = 'zero or more times';
+  else if (base === '+') text = 'one or more times';
+  else if (base === '?') text = 'optionally (zero or one time)';
+  else {
+    const [, min, comma, max] = base.match(/^\{(\d+)(,?)(\d*)\}$/) ?? [];
+    if (!comma) text = `exactly ${min} times`;
+    else if (!max) text = `${min} or more times`;
+    else text = `between ${min} and ${max} times`;
+  }
+  return `…repeated ${text}${lazy ? ', as few as possible (lazy)' : ''}`;
+}
+
+function describeEscape(seq: string): string {
+  const c = seq[1];
+  if (c in ESCAPES) return ESCAPES[c];
+  if (/[1-9]/.test(c)) return `the same text as capture group ${seq.slice(1)}`;
+  if (c === 'k') return `the same text as the named group ${seq.slice(3, -1)}`;
+  if (c === 'u' || c === 'x') return `the character U+${seq.slice(2).replace(/[{}]/g, '').toUpperCase()}`;
+  if (c === 'p' || c === 'P') return `${c === 'P' ? 'not ' : ''}a character with Unicode property ${seq.slice(3, -1)}`;
+  return `a literal "${c}"`;
+}
+
+const SPECIAL_CHARS: Record<string, string> = {
+  ')': 'end of group',
+  '|': 'or',
+  '^': 'start of the input (or line, with the m flag)',
+  '$': 'end of the input (or line, with the m flag)',
+  '.': 'any character except a newline',
+};
+
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})\??/;
+
+/** Split a pattern into tokens with their meanings. Assumes it compiles. */
+function tokenize(pattern: string): RegexPart[] {
+  const parts: RegexPart[] = [];
+  // Consecutive plain characters are reported as one piece of text
+  let literalRun: RegexPart | null = null;
+  const push = (token: string, meaning: string) => {
+    parts.push({ token, meaning });
+    literalRun = null;
+  };
+  let group = 0;
+  let i = 0;
+
+  while (i < pattern.length) {
+    const rest = pattern.slice(i);
+    let m: RegExpMatchArray | null;
+
+    if ((m = rest.match(QUANTIFIER))) {
+      push(m[0], describeQuantifier(m[0]));
+    } else if ((m = rest.match(/^\\(?:u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|[pP]\{[^}]+\}|k<[^>]+>|\d+|.)/))) {
+      push(m[0], describeEscape(m[0]));
+    } else if ((m = rest.match(/^\[\^?(?:\\.|[^\]\\])*\]/))) {
+      const negated = m[0][1] === '^';
+      push(m[0], `${negated ? 'any character except one of' : 'one of'}: ${m[0].slice(negated ? 2 : 1, -1)}`);
+    } else if ((m = rest.match(/^\(\?<([A-Za-z_$][\w$]*)>/))) {
+      push(m[0], `start of capture group ${++group} named "${m[1]}"`);
+    } else if ((m = rest.match(/^\(\?(?::|=|!|<=|<!)/))) {
+      const opener = m[0];
+      push(opener, GROUP_OPENERS.find(([t]) => t === opener)![1]);
+    } else if (rest[0] === '(') {
+      m = ['('];
+      push('(', `start of capture group ${++group}`);
+    } else {
+      const c = rest[0];
+      m = [c];
+      // A quantified character stands alone so the quantifier reads correctly
+      const quantified = QUANTIFIER.test(rest.slice(1));
+      const run = literalRun as RegexPart | null;
+      if (c in SPECIAL_CHARS) {
+        push(c, SPECIAL_CHARS[c]);
+      } else if (run && !quantified) {
+        run.token += c;
+        run.meaning = `the text "${run.token}"`;
+      } else {
+        push(c, `the character "${c}"`);
+        if (!quantified) literalRun = parts[parts.length - 1];
+      }
+    }
+    i += m[0].length;
+  }
+  return parts;
+}
+
+/** Explain `pattern` (without slashes) and optionally run it against `testString`. */
+export function explainRegex(pattern: string, flags = '', testString?: string): RegexExplanation {
+  // Accept "/.../flags" as well as a bare pattern
+  const literal = pattern.match(/^\/(.*)\/([a-z]*)$/s);
+  if (literal) {
+    pattern = literal[1];
+    flags = flags || literal[2];
+  }
+
+  let re: RegExp;
+  try {
+    re = new RegExp(pattern, flags);
+  } catch (err) {
+    return { valid: false, error: err instanceof Error ? err.message : String(err), parts: [], flags: [] };
+  }
+
+  const explanation: RegexExplanation = {
+    valid: true,
+    parts: tokenize(pattern),
+    flags: [...flags].map((f) => `${f}: ${FLAGS[f] ?? 'unknown flag'}`),
+  };
+
+  if (testString !== undefined) {
+    const global = new RegExp(re.source, re.flags.includes('g') ? re.flags : re.flags + 'g');
+    explanation.matches = [...testString.matchAll(global)].slice(0, 20).map((m) => ({
+      match: m[0],
+      index: m.index ?? 0,
+      groups: m.slice(1).map((g) => g ?? ''),
+    }));
+  }
+  return explanation;
+}
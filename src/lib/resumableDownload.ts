@@ -0,0 +1,283 @@
+/**
+ * Resumable, cancellable model downloads.
+ *
+ * `ModelManager.downloadModel` buffers each file in memory and starts from
+ * zero on every attempt. This module streams each file into a partial file
+ * in OPFS instead, so an interrupted download continues with an HTTP Range
+ * request from the last byte written. Transient failures are retried with
+ * exponential backoff. Once every file is complete it is handed to the SDK
+ * the same way an imported model is: companions via `storeStreamInOPFS`,
+ * the primary file via `ModelManager.importModel`, which marks the model as
+ * downloaded.
+ *
+ * Pausing and cancelling both abort the in-flight request; cancelling also
+ * deletes the partial files.
+ */
+
+import { ModelManager, type ManagedModel } from '@runanywhere/web';
+
+const PARTIAL_DIR = 'partial-downloads';
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+/** Smoothing factor for the transfer-rate moving average. */
+const RATE_SMOOTHING = 0.2;
+
+export interface DownloadStats {
+  bytesDownloaded: number;
+  /** Sum of known file sizes; grows as companion file sizes are discovered. */
+  totalBytes: number;
+  /** 0-1, weighted per file like the SDK's own progress events. */
+  progress: number;
+  bytesPerSecond: number;
+  /**
+   * Seconds remaining for the bytes whose size is known, or null while the
+   * rate or total is unknown. Companion files (e.g. mmproj) only count once
+   * their download starts.
+   */
+  etaSeconds: number | null;
+  /** 1-based attempt number for the current file (>1 means retrying). */
+  attempt: number;
+  currentFile: string;
+}
+
+export interface ResumableDownloadOptions {
+  signal: AbortSignal;
+  onProgress?: (stats: DownloadStats) => void;
+}
+
+interface FilePlan {
+  url: string;
+  filename: string;
+  /** Storage key the SDK expects for this file. */
+  key: string;
+  primary: boolean;
+}
+
+/** Whether this browser can write partial files to OPFS from the main thread. */
+export function supportsResumableDownloads(): boolean {
+  return typeof navigator !== 'undefined'
+    && typeof navigator.storage?.getDirectory === 'function'
+    && typeof FileSystemFileHandle !== 'undefined'
+    && 'createWritable' in FileSystemFileHandle.prototype;
+}
+
+async function partialDir(): Promise<FileSystemDirectoryHandle> {
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(PARTIAL_DIR, { create: true });
+}
+
+const partialName = (key: string) => key.replace(/[^a-zA-Z0-9._-]/g, '_') + '.part';
+
+function planFiles(model: ManagedModel): FilePlan[] {
+  const downloader = ModelManager.getDownloader();
+  return [
+    { url: model.url, filename: model.url.split('/').pop() ?? model.id, key: model.id, primary: true },
+    ...(model.additionalFiles ?? []).map((f) => ({
+      url: f.url,
+      filename: f.filename,
+      key: downloader.additionalFileKey(model.id, f.filename),
+      primary: false,
+    })),
+  ];
+}
+
+/** Bytes already on disk for each file of a model (0 if nothing is partial). */
+export async function getPartialBytes(model: ManagedModel): Promise<number> {
+  if (!supportsResumableDownloads()) return 0;
+  const dir = await partialDir();
+  let total = 0;
+  for (const plan of planFiles(model)) {
+    try {
+      const handle = await dir.getFileHandle(partialName(plan.key));
+      total += (await handle.getFile()).size;
+    } catch {
+      // No partial file for this key
+    }
+  }
+  return total;
+}
+
+/** Delete any partial files left by a paused or failed download. */
+export async function discardPartialDownload(model: ManagedModel): Promise<void> {
+  if (!supportsResumableDownloads()) return;
+  const dir = await partialDir();
+  for (const plan of planFiles(model)) {
+    await dir.removeEntry(partialName(plan.key)).catch(() => { /* not present */ });
+  }
+}
+
+function backoffDelay(attempt: number): number {
+  const exp = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+  // Jitter keeps several tabs from retrying in lockstep
+  return exp / 2 + Math.random() * (exp / 2);
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** HTTP statuses worth retrying; anything else 4xx is a permanent failure. */
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+class HttpError extends Error {
+  constructor(readonly status: number, url: string) {
+    super(`HTTP ${status} for ${url}`);
+  }
+}
+
+/** Total size from a 206 `Content-Range: bytes a-b/total` or a 200 `Content-Length`. */
+function responseTotal(res: Response, offset: number): number {
+  const range = res.headers.get('content-range');
+  const match = range?.match(/\/(\d+)$/);
+  if (match) return Number(match[1]);
+  const length = Number(res.headers.get('content-length') || 0);
+  return length > 0 ? length + (res.status === 206 ? offset : 0) : 0;
+}
+
+/**
+ * Download one file into its partial file, resuming from whatever is
+ * already on disk. Resolves with the completed File.
+ */
+async function downloadFile(
+  plan: FilePlan,
+  signal: AbortSignal,
+  onBytes: (fileBytes: number, fileTotal: number, attempt: number) => void,
+): Promise<File> {
+  if (!plan.url.startsWith('https://')) {
+    throw new Error(`Refusing to download over a non-HTTPS URL: ${plan.url}`);
+  }
+
+  const dir = await partialDir();
+  const handle = await dir.getFileHandle(partialName(plan.key), { create: true });
+
+  for (let attempt = 1; ; attempt++) {
+    let offset = (await handle.getFile()).size;
+    let writable: FileSystemWritableFileStream | null = null;
+
+    try {
+      const res = await fetch(plan.url, {
+        signal,
+        headers: offset > 0 ? { Range: `bytes=${offset}-` } : undefined,
+      });
+
+      // Partial file is already complete
+      if (res.status === 416) {
+        onBytes(offset, offset, attempt);
+        return handle.getFile();
+      }
+      if (!res.ok) throw new HttpError(res.status, plan.url);
+
+      // Server ignored the Range header — start over
+      if (offset > 0 && res.status !== 206) offset = 0;
+
+      const total = responseTotal(res, offset);
+      writable = await handle.createWritable({ keepExistingData: offset > 0 });
+      if (offset > 0) await writable.seek(offset);
+
+      const reader = res.body?.getReader();
+      if (!reader) throw new Error('No response body');
+
+      let received = offset;
+      onBytes(received, total, attempt);
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        await writable.write(value);
+        received += value.length;
+        onBytes(received, total, attempt);
+      }
+
+      await writable.close();
+      writable = null;
+
+      if (total > 0 && received < total) {
+        throw new Error(`Connection closed early (${received} of ${total} bytes)`);
+      }
+      return handle.getFile();
+    } catch (err) {
+      // Keep what was written so far — close() commits it to the partial file
+      await writable?.close().catch(() => { /* stream already errored */ });
+
+      if (signal.aborted) throw signal.reason;
+      if (err instanceof HttpError && !isRetryableStatus(err.status)) throw err;
+      if (attempt >= MAX_ATTEMPTS) throw err;
+
+      await sleep(backoffDelay(attempt), signal);
+    }
+  }
+}
+
+/**
+ * Download every file of a model with resume + retry, then register the
+ * result with the SDK. Rejects with `signal.reason` when aborted.
+ */
+export async function downloadModelResumable(
+  model: ManagedModel,
+  { signal, onProgress }: ResumableDownloadOptions,
+): Promise<void> {
+  const plans = planFiles(model);
+  const fileBytes = new Map<string, number>();
+  const fileTotals = new Map<string, number>();
+
+  let rate = 0;
+  let lastTick = performance.now();
+  let lastBytes = -1;
+
+  const sum = (m: Map<string, number>) => [...m.values()].reduce((a, b) => a + b, 0);
+
+  const completed: { plan: FilePlan; file: File }[] = [];
+  for (const plan of plans) {
+    const file = await downloadFile(plan, signal, (bytes, total, attempt) => {
+      fileBytes.set(plan.key, bytes);
+      if (total > 0) fileTotals.set(plan.key, total);
+
+      const downloaded = sum(fileBytes);
+      const totalBytes = Math.max(sum(fileTotals), downloaded);
+      const now = performance.now();
+      if (lastBytes < 0) lastBytes = downloaded;
+      const dt = (now - lastTick) / 1000;
+      if (dt >= 0.5) {
+        const instant = (downloaded - lastBytes) / dt;
+        rate = rate === 0 ? instant : rate + RATE_SMOOTHING * (instant - rate);
+        lastTick = now;
+        lastBytes = downloaded;
+      }
+
+      const etaSeconds = rate > 0 && totalBytes > 0 ? (totalBytes - downloaded) / rate : null;
+
+      onProgress?.({
+        bytesDownloaded: downloaded,
+        totalBytes,
+        progress: total > 0 ? (completed.length + bytes / total) / plans.length : completed.length / plans.length,
+        bytesPerSecond: rate,
+        etaSeconds,
+        attempt,
+        currentFile: plan.filename,
+      });
+    });
+    completed.push({ plan, file });
+  }
+
+  // Hand the finished files to the SDK — companions first, because
+  // importModel flips the model to "downloaded" as soon as it completes.
+  const downloader = ModelManager.getDownloader();
+  for (const { plan, file } of completed) {
+    if (!plan.primary) await downloader.storeStreamInOPFS(plan.key, file.stream());
+  }
+  const primary = completed.find((c) => c.plan.primary)!;
+  await ModelManager.importModel(primary.file, model.id);
+
+  await discardPartialDownload(model);
+}
@@ -0,0 +1,270 @@
+/**
+ * Screenshot preprocessing for Vision debugging: an OCR pass that reads
+ * the error text verbatim, and the VLM's description of the image.
+ *
+ * The SDK's ONNX backend only runs sherpa-onnx speech models (STT, TTS,
+ * VAD), so there is no text-recognition model to register with it. Text is
+ * read with the browser's Shape Detection `TextDetector` where it exists
+ * (Chromium with experimental web platform features), and otherwise by a
+ * second VLM pass that is only asked to transcribe, over a copy of the
+ * image cropped to its content, converted to grayscale and contrast
+ * stretched.
+ */
+
+import { VLMWorkerBridge } from '@runanywhere/web-llamacpp';
+
+export type OCREngine = 'text-detector' | 'vlm';
+
+export const OCR_ENGINE_LABELS: Record<OCREngine, string> = {
+  'text-detector': 'browser text detection',
+  vlm: 'VLM transcription',
+};
+
+export interface ScreenshotText {
+  /** Text read verbatim from the image; empty if none was found. */
+  text: string;
+  engine: OCREngine;
+  /** What the VLM says the screenshot shows. */
+  description: string;
+}
+
+/** Raw RGBRGB… pixels, the layout `VLMWorkerBridge.process` expects. */
+export interface RGBImage {
+  rgbPixels: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/** CLIP resizes internally, so a larger image is wasted work for the description. */
+const DESCRIBE_DIM = 512;
+/** Transcription benefits from legible glyphs, within what the worker handles comfortably. */
+const TRANSCRIBE_DIM = 1024;
+const TRANSCRIBE_MAX_TOKENS = 512;
+/** Pixels this far from the background luminance count as content when cropping. */
+const CONTENT_THRESHOLD = 40;
+const CROP_PADDING = 8;
+
+const DESCRIBE_PROMPT = 'Analyze this screenshot of a programming error or console output. Describe what you see '
+  + 'and identify any errors or issues visible in the image.';
+const TRANSCRIBE_PROMPT = 'Transcribe all text in this image exactly as written, line by line. Keep error '
+  + 'messages, file names, line numbers and stack frames verbatim. Output only the text, with no commentary.';
+
+interface DetectedText {
+  rawValue: string;
+  boundingBox: DOMRectReadOnly;
+}
+
+type TextDetectorConstructor = new () => { detect(image: ImageBitmapSource): Promise<DetectedText[]> };
+
+/** The Shape Detection API's `TextDetector`, if this browser has it. */
+const textDetector = () => (globalThis as { TextDetector?: TextDetectorConstructor }).TextDetector;
+
+// ---------------------------------------------------------------------------
+// Pixels
+// ---------------------------------------------------------------------------
+
+/** A rectangle in image pixels. */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const luminance = (d: Uint8ClampedArray, i: number) => 0.299 * d[i] + 0.587 * d[i + 1] + 0.114 * d[i + 2];
+
+/** `region` of `source`, scaled so its longer side is at most `maxDim`. */
+function drawScaled(source: HTMLCanvasElement, region: ImageRegion, maxDim: number): ImageData {
+  const scale = Math.min(1, maxDim / Math.max(region.width, region.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(region.width * scale));
+  canvas.height = Math.max(1, Math.round(region.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+function toRGB(image: ImageData): RGBImage {
+  const { data, width, height } = image;
+  const rgbPixels = new Uint8Array(width * height * 3);
+  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+    rgbPixels[j] = data[i];
+    rgbPixels[j + 1] = data[i + 1];
+    rgbPixels[j + 2] = data[i + 2];
+  }
+  return { rgbPixels, width, height };
+}
+
+/** Replace the canvas contents with `region` of them, e.g. a user's crop. */
+export function cropCanvas(canvas: HTMLCanvasElement, region: ImageRegion): void {
+  const copy = document.createElement('canvas');
+  copy.width = canvas.width;
+  copy.height = canvas.height;
+  copy.getContext('2d')?.drawImage(canvas, 0, 0);
+  canvas.width = region.width;
+  canvas.height = region.height;
+  canvas.getContext('2d')?.drawImage(copy, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+}
+
+/** The canvas as RGB for the VLM, downscaled so its longer side is at most `maxDim`. */
+export function canvasToRGB(canvas: HTMLCanvasElement, maxDim = DESCRIBE_DIM): RGBImage {
+  return toRGB(drawScaled(canvas, { x: 0, y: 0, width: canvas.width, height: canvas.height }, maxDim));
+}
+
+/**
+ * Bounding box of everything that differs from the background, taken as
+ * the top-left pixel's luminance. Screenshots of consoles and editors are
+ * mostly flat background, so this drops the empty margins around the text.
+ */
+function contentBounds(image: ImageData): ImageRegion {
+  const { data, width, height } = image;
+  const background = luminance(data, 0);
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (Math.abs(luminance(data, (y * width + x) * 4) - background) < CONTENT_THRESHOLD) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return { x: 0, y: 0, width, height };
+  const x = Math.max(0, minX - CROP_PADDING);
+  const y = Math.max(0, minY - CROP_PADDING);
+  return {
+    x,
+    y,
+    width: Math.min(width, maxX + CROP_PADDING + 1) - x,
+    height: Math.min(height, maxY + CROP_PADDING + 1) - y,
+  };
+}
+
+/**
+ * Grayscale with the 1st–99th luminance percentiles stretched to full
+ * range, inverted when the background is dark so text is always dark on
+ * light (dark-mode consoles read poorly otherwise).
+ */
+function enhanceForText(image: ImageData): ImageData {
+  const { data } = image;
+  const histogram = new Uint32Array(256);
+  const lum = new Uint8Array(data.length / 4);
+  for (let i = 0; i < lum.length; i++) {
+    lum[i] = Math.round(luminance(data, i * 4));
+    histogram[lum[i]]++;
+  }
+  const percentile = (p: number) => {
+    let seen = 0;
+    for (let v = 0; v < 256; v++) {
+      seen += histogram[v];
+      if (seen >= lum.length * p) return v;
+    }
+    return 255;
+  };
+  const lo = percentile(0.01);
+  const hi = Math.max(lo + 1, percentile(0.99));
+  const invert = lum[0] < 128;
+
+  const out = new ImageData(image.width, image.height);
+  for (let i = 0; i < lum.length; i++) {
+    const stretched = Math.min(255, Math.max(0, ((lum[i] - lo) * 255) / (hi - lo)));
+    const v = invert ? 255 - stretched : stretched;
+    out.data[i * 4] = out.data[i * 4 + 1] = out.data[i * 4 + 2] = v;
+    out.data[i * 4 + 3] = 255;
+  }
+  return out;
+}
+
+/** The image prepared for transcription: cropped to content, enhanced and scaled. */
+function textImage(canvas: HTMLCanvasElement): RGBImage {
+  const full = drawScaled(canvas, { x: 0, y: 0, width: canvas.width, height: canvas.height }, TRANSCRIBE_DIM);
+  const bounds = contentBounds(full);
+  const scale = canvas.width / full.width;
+  const region = {
+    x: Math.floor(bounds.x * scale),
+    y: Math.floor(bounds.y * scale),
+    width: Math.ceil(bounds.width * scale),
+    height: Math.ceil(bounds.height * scale),
+  };
+  return toRGB(enhanceForText(drawScaled(canvas, region, TRANSCRIBE_DIM)));
+}
+
+// ---------------------------------------------------------------------------
+// Text
+// ---------------------------------------------------------------------------
+
+/** Detected words joined into lines, top to bottom and left to right. */
+function joinDetections(detections: DetectedText[]): string {
+  const sorted = [...detections].sort((a, b) => a.boundingBox.top - b.boundingBox.top);
+  const lines: DetectedText[][] = [];
+  for (const d of sorted) {
+    const line = lines[lines.length - 1];
+    const mid = d.boundingBox.top + d.boundingBox.height / 2;
+    if (line && Math.abs(mid - (line[0].boundingBox.top + line[0].boundingBox.height / 2)) < line[0].boundingBox.height / 2) {
+      line.push(d);
+    } else {
+      lines.push([d]);
+    }
+  }
+  return lines
+    .map((line) => line.sort((a, b) => a.boundingBox.left - b.boundingBox.left).map((d) => d.rawValue).join(' '))
+    .join('\n');
+}
+
+/** Strip wrapping code fences and surrounding whitespace from a transcription. */
+const cleanTranscription = (text: string) => text.trim().replace(/^```\w*\n([\s\S]*?)\n?```$/, '$1').trim();
+
+/** Read the text in `canvas` verbatim. */
+export async function recognizeText(canvas: HTMLCanvasElement): Promise<{ text: string; engine: OCREngine }> {
+  const Detector = textDetector();
+  if (Detector) {
+    try {
+      const text = joinDetections(await new Detector().detect(canvas));
+      if (text.trim()) return { text, engine: 'text-detector' };
+    } catch (err) {
+      console.warn('[screenshotText] TextDetector failed, falling back to the VLM:', err);
+    }
+  }
+
+  const { rgbPixels, width, height } = textImage(canvas);
+  const result = await VLMWorkerBridge.shared.process(rgbPixels, width, height, TRANSCRIBE_PROMPT, {
+    maxTokens: TRANSCRIBE_MAX_TOKENS,
+    temperature: 0,
+  });
+  return { text: cleanTranscription(result.text), engine: 'vlm' };
+}
+
+/**
+ * Describe the screenshot on `canvas` and read its text. The two run one
+ * after the other because the VLM worker handles one request at a time.
+ */
+export async function readScreenshot(
+  canvas: HTMLCanvasElement,
+  onStage?: (stage: string) => void,
+): Promise<ScreenshotText> {
+  onStage?.('Reading text...');
+  let ocr: { text: string; engine: OCREngine } = { text: '', engine: 'vlm' };
+  try {
+    ocr = await recognizeText(canvas);
+  } catch (err) {
+    // The description alone is still worth analyzing
+    console.warn('[screenshotText] Text recognition failed:', err);
+  }
+
+  onStage?.('Describing screenshot...');
+  const { rgbPixels, width, height } = canvasToRGB(canvas);
+  const result = await VLMWorkerBridge.shared.process(rgbPixels, width, height, DESCRIBE_PROMPT);
+  return { ...ocr, description: result.text.trim() };
+}
+
+/** The error text handed to the analysis: the exact text first, then the description. */
+export function screenshotPrompt(source: string, shot: Pick<ScreenshotText, 'text' | 'description'>): string {
+  const parts = [`[From ${source}]`];
+  if (shot.text.trim()) parts.push(shot.text.trim());
+  if (shot.description) parts.push(`Screenshot description: ${shot.description}`);
+  return parts.join('\n\n');
+}
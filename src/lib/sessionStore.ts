@@ -0,0 +1,157 @@
+/**
+ * IndexedDB-backed store for chat and debug sessions.
+ *
+ * Each session is one record holding its full message array, so `stats`,
+ * `analysis` and any other per-message payload are persisted as-is via
+ * structured clone. Sessions are scoped by `kind` so the Chat and Debug
+ * tabs keep independent histories.
+ */
+
+export type SessionKind = 'chat' | 'debug';
+
+export interface Session<M = unknown> {
+  id: string;
+  kind: SessionKind;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: M[];
+}
+
+/** Lightweight listing entry — avoids shipping message arrays to the picker. */
+export interface SessionSummary {
+  id: string;
+  kind: SessionKind;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+const DB_NAME = 'runanywhere-starter';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let _dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (_dbPromise) return _dbPromise;
+
+  _dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('kind', 'kind');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      _dbPromise = null;
+      reject(req.error);
+    };
+  });
+
+  return _dbPromise;
+}
+
+/** Run a single request inside a transaction and resolve with its result. */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? req.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+function toSummary(s: Session): SessionSummary {
+  return {
+    id: s.id,
+    kind: s.kind,
+    name: s.name,
+    createdAt: s.createdAt,
+    updatedAt: s.updatedAt,
+    messageCount: s.messages.length,
+  };
+}
+
+function defaultName(kind: SessionKind): string {
+  const label = kind === 'chat' ? 'Chat' : 'Debug session';
+  return `${label} ${new Date().toLocaleString()}`;
+}
+
+/** Create and persist an empty session. */
+export async function createSession<M>(kind: SessionKind, name?: string): Promise<Session<M>> {
+  const now = Date.now();
+  const session: Session<M> = {
+    id: crypto.randomUUID(),
+    kind,
+    name: name?.trim() || defaultName(kind),
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+  await withStore('readwrite', (store) => store.put(session));
+  return session;
+}
+
+export async function getSession<M>(id: string): Promise<Session<M> | null> {
+  const session = await withStore<Session<M> | undefined>('readonly', (store) => store.get(id));
+  return session ?? null;
+}
+
+/** List sessions of one kind, most recently updated first. */
+export async function listSessions(kind: SessionKind): Promise<SessionSummary[]> {
+  const all = await withStore<Session[]>('readonly', (store) => store.index('kind').getAll(kind));
+  return all.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Full sessions of one kind, messages included, most recently updated first. */
+export async function getAllSessions<M>(kind: SessionKind): Promise<Session<M>[]> {
+  const all = await withStore<Session<M>[]>('readonly', (store) => store.index('kind').getAll(kind));
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Replace a session's messages and bump `updatedAt`. */
+export async function saveMessages<M>(id: string, messages: M[]): Promise<void> {
+  const session = await getSession<M>(id);
+  if (!session) return;
+  await withStore('readwrite', (store) => store.put({ ...session, messages, updatedAt: Date.now() }));
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+  const session = await getSession(id);
+  if (!session || !name.trim()) return;
+  await withStore('readwrite', (store) => store.put({ ...session, name: name.trim(), updatedAt: Date.now() }));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Case-insensitive search over session names and message contents.
+ * `textOf` extracts the searchable text from a message of this kind.
+ */
+export async function searchSessions<M>(
+  kind: SessionKind,
+  query: string,
+  textOf: (message: M) => string,
+): Promise<SessionSummary[]> {
+  const q = query.trim().toLowerCase();
+  if (!q) return listSessions(kind);
+
+  const all = await withStore<Session<M>[]>('readonly', (store) => store.index('kind').getAll(kind));
+  return all
+    .filter((s) => s.name.toLowerCase().includes(q)
+      || s.messages.some((m) => textOf(m).toLowerCase().includes(q)))
+    .map((s) => toSummary(s as Session))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
@@ -0,0 +1,172 @@
+/**
+ * Source files attached to a Debug analysis.
+ *
+ * Users drop individual files or a zipped folder; when a stack frame points
+ * at one of them, the lines around the frame are added to the prompt. Frames
+ * are matched to files by the longest common path suffix, so
+ * `http://localhost:5173/src/App.tsx` finds `my-app/src/App.tsx` in a zip.
+ * Snippets are taken innermost frame first until the token budget runs out.
+ */
+
+import { estimateTokens } from './chatPrompt';
+import { readZip } from './zip';
+import type { ParsedTrace } from './stackTrace';
+
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+/** A slice of an attached file that was given to the model. */
+export interface ContextSnippet {
+  path: string;
+  /** 1-based line number of `lines[0]`. */
+  startLine: number;
+  lines: string[];
+  /** Lines a stack frame points at. */
+  frameLines: number[];
+}
+
+/** Larger files are almost never hand-written source. */
+const MAX_FILE_BYTES = 512 * 1024;
+const MAX_FILES = 2000;
+const SKIPPED_DIRS = /(^|\/)(node_modules|\.git|dist|build|out|target|vendor|__pycache__|\.next|\.venv|venv)\//;
+const BINARY_EXTENSIONS = /\.(png|jpe?g|gif|webp|ico|bmp|pdf|zip|gz|tar|7z|jar|class|exe|dll|so|dylib|wasm|gguf|onnx|bin|mp[34]|wav|ogg|woff2?|ttf|eot|lock)$/i;
+
+/** Lines of context on each side of a frame, and the fallback when space is tight. */
+const CONTEXT_RADIUS = 8;
+const TIGHT_RADIUS = 2;
+
+const isCandidate = (path: string, size: number) =>
+  size <= MAX_FILE_BYTES && !SKIPPED_DIRS.test(`/${path}`) && !BINARY_EXTENSIONS.test(path);
+
+/** Text that decodes cleanly and has no NUL bytes near the start. */
+function decodeText(data: Uint8Array): string | null {
+  if (data.subarray(0, 8192).includes(0)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read dropped files, expanding `.zip` archives. Binary files, dependency
+ * folders and oversized files are skipped.
+ */
+export async function readSourceFiles(files: File[]): Promise<SourceFile[]> {
+  const out: SourceFile[] = [];
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      for (const entry of await readZip(file, isCandidate)) {
+        const content = decodeText(entry.data);
+        if (content !== null) out.push({ path: entry.path, content });
+      }
+    } else if (isCandidate(file.name, file.size)) {
+      const content = decodeText(new Uint8Array(await file.arrayBuffer()));
+      if (content !== null) out.push({ path: file.webkitRelativePath || file.name, content });
+    }
+    if (out.length >= MAX_FILES) break;
+  }
+  return out.slice(0, MAX_FILES);
+}
+
+/** Path segments with any URL origin, query, `./` and `../` removed. */
+function segments(path: string): string[] {
+  return path
+    .replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, '')
+    .replace(/[?#].*$/, '')
+    .split(/[/\\]/)
+    .filter((s) => s && s !== '.' && s !== '..');
+}
+
+function commonSuffix(a: string[], b: string[]): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+}
+
+/** The attached file sharing the longest path suffix with `path`, if any. */
+export function findSourceFile(path: string, files: SourceFile[]): SourceFile | undefined {
+  const target = segments(path);
+  let best: SourceFile | undefined;
+  let bestScore = 0;
+  for (const file of files) {
+    const score = commonSuffix(target, segments(file.path));
+    if (score > bestScore) {
+      best = file;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+interface Range {
+  file: SourceFile;
+  start: number;
+  end: number;
+  frameLines: number[];
+}
+
+function toSnippet(r: Range): ContextSnippet {
+  return {
+    path: r.file.path,
+    startLine: r.start,
+    lines: r.file.content.split(/\r?\n/).slice(r.start - 1, r.end),
+    frameLines: [...r.frameLines].sort((a, b) => a - b),
+  };
+}
+
+/** Numbered listing for the prompt; frame lines are marked with `>`. */
+export function formatSnippetsForPrompt(snippets: ContextSnippet[]): string {
+  const blocks = snippets.map((s) => {
+    const end = s.startLine + s.lines.length - 1;
+    const body = s.lines.map((line, i) => {
+      const n = s.startLine + i;
+      return `${s.frameLines.includes(n) ? '>' : ' '}${String(n).padStart(5)} | ${line}`;
+    });
+    return [`--- ${s.path} (lines ${s.startLine}-${end}) ---`, ...body].join('\n');
+  });
+  return `Relevant source code from the attached files (">" marks lines in the stack trace):\n\n${blocks.join('\n\n')}`;
+}
+
+/**
+ * Snippets around each application frame that points into `files`, within
+ * `budgetTokens`. Overlapping windows in the same file are merged. When a
+ * full window doesn't fit, a tight one around the frame line is tried.
+ */
+export function collectSnippets(trace: ParsedTrace, files: SourceFile[], budgetTokens: number): ContextSnippet[] {
+  if (files.length === 0 || budgetTokens <= 0) return [];
+  const ranges: Range[] = [];
+  const cost = (list: Range[]) => (list.length ? estimateTokens(formatSnippetsForPrompt(list.map(toSnippet))) : 0);
+
+  for (const frame of trace.frames) {
+    const pos = frame.original ?? frame;
+    if (frame.library || pos.line === undefined) continue;
+    const file = findSourceFile(pos.file, files);
+    if (!file) continue;
+    const lineCount = file.content.split(/\r?\n/).length;
+    if (pos.line > lineCount) continue;
+
+    for (const radius of [CONTEXT_RADIUS, TIGHT_RADIUS]) {
+      const start = Math.max(1, pos.line - radius);
+      const end = Math.min(lineCount, pos.line + radius);
+      const overlap = ranges.find((r) => r.file === file && start <= r.end + 1 && end >= r.start - 1);
+      const merged: Range = overlap
+        ? {
+            file,
+            start: Math.min(start, overlap.start),
+            end: Math.max(end, overlap.end),
+            frameLines: [...new Set([...overlap.frameLines, pos.line])],
+          }
+        : { file, start, end, frameLines: [pos.line] };
+      const next = overlap ? ranges.map((r) => (r === overlap ? merged : r)) : [...ranges, merged];
+      if (cost(next) <= budgetTokens) {
+        ranges.splice(0, ranges.length, ...next);
+        break;
+      }
+    }
+  }
+
+  return ranges.map(toSnippet);
+}
@@ -0,0 +1,181 @@
+/**
+ * Minimal Source Map v3 reader for resolving minified stack frames.
+ *
+ * Decodes the base64-VLQ `mappings` once per map, then looks up generated
+ * positions with a binary search per line. Index maps (`sections`) are not
+ * supported.
+ */
+
+import type { OriginalPosition, ParsedTrace, SourceSnippet, StackFrame } from './stackTrace';
+
+/** [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?], all 0-based. */
+type Segment = [number, number, number, number, number?];
+
+export interface SourceMap {
+  /** Name of the `.map` file the user loaded. */
+  fileName: string;
+  /** The generated file this map describes (`file` field, or the map name minus `.map`). */
+  generatedFile: string;
+  sources: string[];
+  sourcesContent: (string | null)[];
+  names: string[];
+  lines: Segment[][];
+}
+
+const SNIPPET_CONTEXT = 3;
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUE = new Map([...BASE64].map((c, i) => [c, i]));
+
+/** Decode one comma-separated segment of base64 VLQ values. */
+function decodeVLQ(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64_VALUE.get(char);
+    if (digit === undefined) throw new Error(`Invalid character "${char}" in mappings`);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  // Source, original line/column and name are relative across the whole map
+  let source = 0;
+  let origLine = 0;
+  let origCol = 0;
+  let name = 0;
+
+  for (const line of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let genCol = 0;
+    for (const raw of line.split(',')) {
+      if (!raw) continue;
+      const v = decodeVLQ(raw);
+      genCol += v[0];
+      if (v.length < 4) continue; // unmapped segment
+      source += v[1];
+      origLine += v[2];
+      origCol += v[3];
+      if (v.length >= 5) {
+        name += v[4];
+        segments.push([genCol, source, origLine, origCol, name]);
+      } else {
+        segments.push([genCol, source, origLine, origCol]);
+      }
+    }
+    segments.sort((a, b) => a[0] - b[0]);
+    lines.push(segments);
+  }
+  return lines;
+}
+
+const baseName = (path: string) => path.replace(/[?#].*$/, '').split(/[/\\]/).pop() ?? path;
+
+/** Strip bundler prefixes so sources read like project paths. */
+const cleanSource = (source: string) =>
+  source.replace(/^webpack:\/\/[^/]*\/?/, '').replace(/^\.\//, '');
+
+/**
+ * Parse a `.map` file. Throws with a user-facing message if it isn't a
+ * usable v3 source map.
+ */
+export function parseSourceMap(json: string, fileName: string): SourceMap {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error(`${fileName} is not valid JSON`);
+  }
+  if (raw?.version !== 3) throw new Error(`${fileName} is not a version 3 source map`);
+  if (Array.isArray(raw.sections)) throw new Error(`${fileName} is an index map, which isn't supported`);
+  if (typeof raw.mappings !== 'string' || !Array.isArray(raw.sources)) {
+    throw new Error(`${fileName} has no mappings`);
+  }
+
+  const root = typeof raw.sourceRoot === 'string' && raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, '/') : '';
+  const sources = (raw.sources as unknown[]).map((s) => cleanSource(root + String(s ?? '')));
+  const content = Array.isArray(raw.sourcesContent) ? raw.sourcesContent : [];
+
+  return {
+    fileName,
+    generatedFile: typeof raw.file === 'string' && raw.file ? raw.file : fileName.replace(/\.map$/, ''),
+    sources,
+    sourcesContent: sources.map((_, i) => (typeof content[i] === 'string' ? content[i] as string : null)),
+    names: Array.isArray(raw.names) ? raw.names.map(String) : [],
+    lines: decodeMappings(raw.mappings),
+  };
+}
+
+function snippetAt(content: string | null, line: number): SourceSnippet | undefined {
+  if (content === null) return undefined;
+  const all = content.split(/\r?\n/);
+  const start = Math.max(1, line - SNIPPET_CONTEXT);
+  const lines = all.slice(start - 1, line + SNIPPET_CONTEXT);
+  return lines.length > 0 ? { startLine: start, lines } : undefined;
+}
+
+/**
+ * Original position for a 1-based generated line and column. Uses the
+ * nearest mapping at or before the column, as browsers do.
+ */
+export function originalPositionFor(map: SourceMap, line: number, column = 1): OriginalPosition | undefined {
+  const segments = map.lines[line - 1];
+  if (!segments?.length) return undefined;
+
+  const col = column - 1;
+  let lo = 0;
+  let hi = segments.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (segments[mid][0] <= col) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  if (found < 0) return undefined;
+
+  const [, sourceIndex, origLine, origCol, nameIndex] = segments[found];
+  const file = map.sources[sourceIndex];
+  if (file === undefined) return undefined;
+  return {
+    file,
+    line: origLine + 1,
+    column: origCol + 1,
+    fn: nameIndex !== undefined ? map.names[nameIndex] : undefined,
+    snippet: snippetAt(map.sourcesContent[sourceIndex], origLine + 1),
+  };
+}
+
+/** The loaded map whose generated file matches the frame's file name. */
+function mapFor(frame: StackFrame, maps: SourceMap[]): SourceMap | undefined {
+  const name = baseName(frame.file);
+  return maps.find((m) => baseName(m.generatedFile) === name);
+}
+
+/** Resolve every frame that has a matching source map. */
+export function resolveFrames(trace: ParsedTrace, maps: SourceMap[]): ParsedTrace {
+  if (maps.length === 0) return trace;
+  return {
+    ...trace,
+    frames: trace.frames.map((f) => {
+      const map = f.line !== undefined ? mapFor(f, maps) : undefined;
+      const original = map ? originalPositionFor(map, f.line!, f.column) : undefined;
+      if (!original) return f;
+      // Frames inside bundled dependencies stay library frames after mapping
+      return { ...f, original, library: f.library || /node_modules/.test(original.file) };
+    }),
+  };
+}
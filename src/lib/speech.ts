@@ -0,0 +1,64 @@
+/**
+ * Turning model output into text worth synthesizing: Markdown is reduced to
+ * plain sentences, code is left for the screen, and Debug analyses are
+ * summarized to what can be taken in by ear.
+ */
+
+import type { DebugAnalysis } from './debugReport';
+
+/** Markdown reduced to what reads well aloud. Code blocks are dropped. */
+export function speakableText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?(?:```|$)/g, ' ')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s+(.*?)[.:]?$/gm, '$1.')
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|\*|~~)(\S(?:.*?\S)?)\1/g, '$2')
+    // Underscore emphasis only at word boundaries, so snake_case survives
+    .replace(/(^|\s)(__?)(\S(?:.*?\S)?)\2(?=[\s.,;:!?]|$)/g, '$1$3')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** The first `count` sentences of plain text. */
+export function firstSentences(text: string, count: number): string {
+  return text.trim().split(/(?<=[.!?])\s+/).slice(0, count).join(' ');
+}
+
+/** A short spoken version of an analysis: what it is, why, and how to start fixing it. */
+export function spokenAnalysis(analysis: DebugAnalysis): string {
+  const parts = [
+    `${analysis.errorType}, ${analysis.severity} severity.`,
+    firstSentences(speakableText(analysis.rootCause), 2),
+    `To fix it: ${firstSentences(speakableText(analysis.suggestedFix), 2)}`,
+  ];
+  if (analysis.codeExample) parts.push('A code example is on screen.');
+  return parts.join(' ');
+}
+
+/** Shorter pieces are joined to the next one instead of being spoken alone ("e.g.", "1."). */
+const MIN_SENTENCE_CHARS = 12;
+const SENTENCE_END = /[.!?]+["')\]]*\s+|\n+/g;
+const ABBREVIATION = /\b(?:e\.g|i\.e|etc|vs|cf|Mr|Mrs|Ms|Dr)\.\s*$/i;
+
+/**
+ * Split finished sentences off the front of streamed text, for speaking a
+ * reply while it is still being generated. What follows the last boundary
+ * stays in `rest` until more text arrives. Boundaries inside an unclosed
+ * code fence are skipped, so a code block always reaches `speakableText`
+ * whole and is dropped there.
+ */
+export function takeSentences(text: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index + match[0].length;
+    const sentence = text.slice(start, end);
+    if (sentence.trim().length < MIN_SENTENCE_CHARS || ABBREVIATION.test(sentence)) continue;
+    if ((text.slice(0, end).match(/```/g)?.length ?? 0) % 2 === 1) continue;
+    sentences.push(sentence.trim());
+    start = end;
+  }
+  return { sentences, rest: text.slice(start) };
+}
@@ -0,0 +1,126 @@
+/**
+ * Sentence-by-sentence speech for streamed replies. Each sentence is
+ * synthesized as soon as it is complete and scheduled on one AudioContext
+ * right after the audio before it, so playback starts after the first
+ * sentence rather than the whole reply and runs without gaps whenever
+ * synthesis keeps ahead of it.
+ *
+ * `AudioPlayback` plays one buffer at a time and stops the current one
+ * first, so it can't queue; this schedules `AudioBufferSourceNode`s itself.
+ */
+
+import { TTS } from '@runanywhere/web-onnx';
+import { speakableText } from './speech';
+
+export interface SpeechQueue {
+  /** Synthesize `text` and play it after everything queued before it. */
+  say(text: string): void;
+  /** Resolves once everything queued has been spoken (or the queue stopped). */
+  finish(): Promise<void>;
+  /** Silence playback at once and drop whatever is still queued. */
+  stop(): void;
+  /** RMS of the audio playing over the last `windowMs`, for echo suppression. */
+  level(windowMs: number): number;
+}
+
+export interface SpeechQueueOptions {
+  /** Called when the first sentence starts playing. */
+  onStart?: () => void;
+}
+
+interface Scheduled {
+  source: AudioBufferSourceNode;
+  samples: Float32Array;
+  sampleRate: number;
+  /** AudioContext time at which the samples start. */
+  startsAt: number;
+}
+
+export function createSpeechQueue({ onStart }: SpeechQueueOptions = {}): SpeechQueue {
+  let context: AudioContext | null = null;
+  let synthesis = Promise.resolve();
+  let failure: unknown = null;
+  let stopped = false;
+  let nextStart = 0;
+  let wake: (() => void) | null = null;
+  const playing: Scheduled[] = [];
+
+  const schedule = async (samples: Float32Array, sampleRate: number) => {
+    if (!context) context = new AudioContext({ sampleRate });
+    if (context.state === 'suspended') await context.resume();
+    if (stopped) return;
+
+    const buffer = context.createBuffer(1, samples.length, sampleRate);
+    buffer.getChannelData(0).set(samples);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+
+    const first = nextStart === 0;
+    const startsAt = Math.max(context.currentTime, nextStart);
+    nextStart = startsAt + buffer.duration;
+    const entry: Scheduled = { source, samples, sampleRate, startsAt };
+    playing.push(entry);
+    source.onended = () => {
+      const i = playing.indexOf(entry);
+      if (i !== -1) playing.splice(i, 1);
+      wake?.();
+    };
+    source.start(startsAt);
+    if (first) onStart?.();
+  };
+
+  return {
+    say(text) {
+      const speech = speakableText(text);
+      if (!speech) return;
+      synthesis = synthesis.then(async () => {
+        if (stopped || failure) return;
+        try {
+          const { audioData, sampleRate } = await TTS.synthesize(speech);
+          if (!stopped) await schedule(audioData, sampleRate);
+        } catch (err) {
+          failure = err;
+        }
+      });
+    },
+
+    async finish() {
+      await synthesis;
+      while (!stopped && playing.length > 0) {
+        await new Promise<void>((resolve) => { wake = resolve; });
+      }
+      context?.close().catch(() => {});
+      if (failure && !stopped) throw failure;
+    },
+
+    stop() {
+      stopped = true;
+      for (const { source } of playing) {
+        try {
+          source.stop();
+        } catch {
+          // Not started yet or already stopped
+        }
+      }
+      playing.length = 0;
+      context?.close().catch(() => {});
+      wake?.();
+    },
+
+    level(windowMs) {
+      if (!context) return 0;
+      const to = context.currentTime;
+      const from = to - windowMs / 1000;
+      let sum = 0;
+      let count = 0;
+      for (const { samples, sampleRate, startsAt } of playing) {
+        const start = Math.max(0, Math.floor((from - startsAt) * sampleRate));
+        const end = Math.min(samples.length, Math.ceil((to - startsAt) * sampleRate));
+        for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+        count += Math.max(0, end - start);
+      }
+      return count > 0 ? Math.sqrt(sum / count) : 0;
+    },
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Stack-trace parsing for the Debug tab.
+ *
+ * Recognizes the common trace formats — V8 (Chrome, Edge, Node), Firefox and
+ * Safari (`fn@url:line:col`), Python, Java/Kotlin and Go — and normalizes
+ * every frame into file, line, column and function. Frames are always
+ * ordered innermost call first, so Python's "most recent call last" traces
+ * are reversed.
+ */
+
+export type TraceFormat = 'v8' | 'gecko' | 'python' | 'java' | 'go';
+
+export const TRACE_FORMAT_LABELS: Record<TraceFormat, string> = {
+  v8: 'Chrome / Node (V8)',
+  gecko: 'Firefox / Safari',
+  python: 'Python',
+  java: 'Java / Kotlin',
+  go: 'Go',
+};
+
+export interface SourceSnippet {
+  /** 1-based line number of `lines[0]`. */
+  startLine: number;
+  lines: string[];
+}
+
+export interface OriginalPosition {
+  file: string;
+  line: number;
+  column?: number;
+  fn?: string;
+  /** Source lines around the position, when the source map embeds sources. */
+  snippet?: SourceSnippet;
+}
+
+export interface StackFrame {
+  fn?: string;
+  file: string;
+  line?: number;
+  column?: number;
+  /** Dependency or runtime frame rather than application code. */
+  library: boolean;
+  /** Position in the original source, filled in by `resolveFrames`. */
+  original?: OriginalPosition;
+}
+
+export interface ParsedTrace {
+  format: TraceFormat;
+  /** The error line, e.g. `TypeError: x is undefined`. */
+  message?: string;
+  frames: StackFrame[];
+}
+
+const LIBRARY_PATTERNS: Record<TraceFormat, RegExp> = {
+  v8: /node_modules|^node:|^internal\/|^native$|^index \d+$|<anonymous>|webpack\/bootstrap|^chrome-extension:|^\[native code\]/,
+  gecko: /node_modules|^\[native code\]|^resource:|^moz-extension:|webpack\/bootstrap/,
+  python: /site-packages|dist-packages|[/\\]lib[/\\]python\d|^<frozen/,
+  java: /^(java|javax|jdk|sun|com\.sun|kotlin|kotlinx|scala|android|androidx|dalvik)\./,
+  go: /[/\\]go[/\\]src[/\\]|[/\\]pkg[/\\]mod[/\\]|^runtime\//,
+};
+
+// "TypeError: …", "Exception in thread "main" java.lang.NullPointerException", "panic: …"
+const ERROR_LINE = /(?:^|\s)[\w$.]*(?:Error|Exception|Panic)\b(?::|$)|^\s*(?:panic|Uncaught)\b/;
+
+// V8: "    at fn (file:1:2)" or "    at file:1:2"
+const V8_WITH_FN = /^\s*at\s+(?:async\s+)?(.*?)\s+\((.*)\)\s*$/;
+const V8_NO_FN = /^\s*at\s+(?:async\s+)?([^\s()]+)\s*$/;
+// Firefox / Safari: "fn@file:1:2", "@file:1:2", "global code@file:1:2"
+const GECKO = /^\s*([^@\n]*)@(.+?)(?::(\d+))?(?::(\d+))?\s*$/;
+// Python: '  File "app.py", line 3, in main'
+const PYTHON = /^\s*File "(.+)", line (\d+)(?:, in (.+))?\s*$/;
+// Java: "\tat com.example.Foo.bar(Foo.java:42)"
+const JAVA = /^\s*at\s+([\w$.<>/]+)\(([^()]*)\)\s*$/;
+// Go: "main.handler(0xc000, ...)" followed by "\t/app/main.go:42 +0x1d"
+const GO_FN = /^([\w./*()%-]+?)(?:\(.*\))?\s*$/;
+const GO_FILE = /^\s+(\S+\.go):(\d+)(?:\s+\+0x[0-9a-f]+)?\s*$/;
+
+/** Split "file:line:col" (any of line/col optional). */
+function splitLocation(location: string): { file: string; line?: number; column?: number } {
+  const m = location.match(/^(.*?)(?::(\d+))?(?::(\d+))?$/);
+  if (!m) return { file: location };
+  return {
+    file: m[1],
+    line: m[2] ? Number(m[2]) : undefined,
+    column: m[3] ? Number(m[3]) : undefined,
+  };
+}
+
+const cleanFn = (fn: string | undefined) => {
+  const trimmed = fn?.trim();
+  return trimmed && trimmed !== '<anonymous>' ? trimmed : undefined;
+};
+
+function frame(format: TraceFormat, f: Omit<StackFrame, 'library'>): StackFrame {
+  const subject = format === 'java' ? `${f.fn ?? ''}` : f.file;
+  return { ...f, library: LIBRARY_PATTERNS[format].test(subject) };
+}
+
+function parseLine(line: string): { format: TraceFormat; frame: StackFrame } | null {
+  let m = line.match(JAVA);
+  if (m) {
+    const loc = m[2].match(/^(.*?):(\d+)$/);
+    return {
+      format: 'java',
+      frame: frame('java', {
+        fn: m[1],
+        file: loc ? loc[1] : m[2] || 'Unknown Source',
+        line: loc ? Number(loc[2]) : undefined,
+      }),
+    };
+  }
+
+  m = line.match(V8_WITH_FN);
+  if (m) {
+    // "at eval (eval at fn (file:1:2), <anonymous>:3:4)" — keep the outer location
+    const location = m[2].includes(', ') ? m[2].slice(m[2].lastIndexOf(', ') + 2) : m[2];
+    return { format: 'v8', frame: frame('v8', { fn: cleanFn(m[1]), ...splitLocation(location) }) };
+  }
+
+  m = line.match(V8_NO_FN);
+  if (m) return { format: 'v8', frame: frame('v8', splitLocation(m[1])) };
+
+  m = line.match(PYTHON);
+  if (m) {
+    return {
+      format: 'python',
+      frame: frame('python', { fn: cleanFn(m[3]), file: m[1], line: Number(m[2]) }),
+    };
+  }
+
+  m = line.match(GECKO);
+  // Require something that looks like a location so "user@example.com" isn't a frame
+  if (m && (/[/\\:]/.test(m[2]) || m[2] === '[native code]')) {
+    return {
+      format: 'gecko',
+      frame: frame('gecko', {
+        fn: cleanFn(m[1]),
+        file: m[2],
+        line: m[3] ? Number(m[3]) : undefined,
+        column: m[4] ? Number(m[4]) : undefined,
+      }),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parse the first stack trace found in `text`. Returns null if no frames
+ * are recognized. Lines that aren't frames (source excerpts, "Caused by",
+ * "... 3 more") are skipped.
+ */
+export function parseStackTrace(text: string): ParsedTrace | null {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const frames: StackFrame[] = [];
+  const counts: Partial<Record<TraceFormat, number>> = {};
+  const errorLines: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Go frames span two lines: the function, then the indented file
+    const goFile = lines[i + 1]?.match(GO_FILE);
+    const goFn = goFile && !/^\s/.test(line) ? line.match(GO_FN) : null;
+    if (goFile && goFn) {
+      frames.push(frame('go', { fn: goFn[1], file: goFile[1], line: Number(goFile[2]) }));
+      counts.go = (counts.go ?? 0) + 1;
+      i++;
+      continue;
+    }
+
+    const parsed = parseLine(line);
+    if (parsed) {
+      frames.push(parsed.frame);
+      counts[parsed.format] = (counts[parsed.format] ?? 0) + 1;
+      continue;
+    }
+
+    if (ERROR_LINE.test(line)) errorLines.push(line.trim());
+  }
+
+  if (frames.length === 0) return null;
+
+  const format = (Object.keys(counts) as TraceFormat[])
+    .reduce((best, f) => ((counts[f] ?? 0) > (counts[best] ?? 0) ? f : best));
+
+  return {
+    format,
+    // Python prints the exception after the frames; everyone else before
+    message: format === 'python' ? errorLines[errorLines.length - 1] : errorLines[0],
+    frames: format === 'python' ? frames.reverse() : frames,
+  };
+}
+
+/** The first line of `text` that reads like an error message, e.g. `TypeError: x is undefined`. */
+export function findErrorLine(text: string): string | undefined {
+  return text.split(/\r?\n/).find((line) => ERROR_LINE.test(line))?.trim();
+}
+
+/** "file:line:col", using the source-mapped position when there is one. */
+export function frameLocation(f: StackFrame, { preferOriginal = true } = {}): string {
+  const pos = preferOriginal && f.original ? f.original : f;
+  return [pos.file, pos.line, pos.column].filter((p) => p !== undefined).join(':');
+}
+
+/** The innermost application frame, falling back to the innermost frame. */
+export function topAppFrame(trace: ParsedTrace): StackFrame | undefined {
+  return trace.frames.find((f) => !f.library) ?? trace.frames[0];
+}
+
+/**
+ * Compact frame list for the LLM prompt. Runs of library frames are
+ * collapsed, and at most `maxFrames` frames are listed.
+ */
+export function formatTraceForPrompt(trace: ParsedTrace, maxFrames = 12): string {
+  const lines = [`Parsed stack trace (${TRACE_FORMAT_LABELS[trace.format]}, innermost call first):`];
+  if (trace.message) lines.push(`Error: ${trace.message}`);
+
+  let listed = 0;
+  let skipped = 0;
+  const flushSkipped = () => {
+    if (skipped > 0) lines.push(`  … ${skipped} library frame${skipped === 1 ? '' : 's'}`);
+    skipped = 0;
+  };
+
+  for (const f of trace.frames) {
+    if (listed >= maxFrames) break;
+    if (f.library) {
+      skipped++;
+      continue;
+    }
+    flushSkipped();
+    listed++;
+    const fn = f.original?.fn ?? f.fn ?? '<anonymous>';
+    const mapped = f.original ? ` (minified: ${frameLocation(f, { preferOriginal: false })})` : '';
+    lines.push(`  ${listed}. ${fn} at ${frameLocation(f)}${mapped}`);
+  }
+  flushSkipped();
+
+  return lines.join('\n');
+}
@@ -0,0 +1,78 @@
+/**
+ * Browser storage helpers for the model cache: quota estimates, persistence
+ * requests, per-model disk usage and the pre-download quota check.
+ */
+
+import { ModelManager, type ManagedModel } from '@runanywhere/web';
+import { formatBytes } from './format';
+
+export interface StorageEstimate {
+  usedBytes: number;
+  quotaBytes: number;
+  /** Whether the origin has persistent (non-evictable) storage. */
+  persisted: boolean;
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate> {
+  const estimate = await navigator.storage?.estimate?.() ?? {};
+  const persisted = await navigator.storage?.persisted?.() ?? false;
+  return {
+    usedBytes: estimate.usage ?? 0,
+    quotaBytes: estimate.quota ?? 0,
+    persisted,
+  };
+}
+
+/** Ask the browser to exempt this origin from storage eviction. */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
+
+/** Bytes a model occupies on disk (primary file plus companions such as mmproj). */
+export async function getModelDiskUsage(model: ManagedModel): Promise<number> {
+  const downloader = ModelManager.getDownloader();
+  const keys = [
+    model.id,
+    ...(model.additionalFiles ?? []).map((f) => downloader.additionalFileKey(model.id, f.filename)),
+  ];
+  const sizes = await Promise.all(keys.map((k) => downloader.getOPFSFileSize(k).catch(() => null)));
+  return sizes.reduce<number>((sum, size) => sum + (size ?? 0), 0);
+}
+
+/**
+ * Check whether a download fits in the remaining quota and, if not, ask the
+ * user before going ahead. The SDK evicts least-recently-used models to make
+ * room, so the prompt lists what would be removed.
+ *
+ * @param freedBytes - Space the download frees before it starts, e.g. the
+ *                     cached copy of a model being re-downloaded.
+ * @returns true if the download should proceed.
+ */
+export async function confirmDownloadFits(modelId: string, freedBytes = 0): Promise<boolean> {
+  let check;
+  try {
+    check = await ModelManager.checkDownloadFit(modelId);
+  } catch {
+    // Quota APIs unavailable — don't block the download on a failed estimate
+    return true;
+  }
+  const availableBytes = check.availableBytes + freedBytes;
+  if (check.fits || availableBytes >= check.neededBytes) return true;
+
+  const model = ModelManager.getModels().find((m) => m.id === modelId);
+  const evictable = check.evictionCandidates
+    .filter((c) => c.id !== modelId)
+    .map((c) => `  • ${c.name} (${formatBytes(c.sizeBytes)})`);
+  const lines = [
+    `Downloading ${model?.name ?? modelId} needs about ${formatBytes(check.neededBytes)}, `
+      + `but only ${formatBytes(availableBytes)} of browser storage is available.`,
+    '',
+    evictable.length > 0
+      ? `Continuing may remove these cached models:\n${evictable.join('\n')}`
+      : 'The download may fail part-way through.',
+    '',
+    'Download anyway?',
+  ];
+  return confirm(lines.join('\n'));
+}
@@ -0,0 +1,87 @@
+/**
+ * How spoken input is segmented, shared by the Voice tab and Debug voice
+ * mode and persisted in localStorage: by the VAD, or by push-to-talk where
+ * the user holds a key or button for as long as they speak (for noisy
+ * rooms where the VAD never hears silence).
+ */
+
+import { ModelCategory, ModelManager } from '@runanywhere/web';
+import { SherpaONNXBridge, VAD } from '@runanywhere/web-onnx';
+
+export type VoiceInputMode = 'vad' | 'push-to-talk';
+
+export const VOICE_INPUT_MODE_LABELS: Record<VoiceInputMode, string> = {
+  vad: 'Automatic (VAD)',
+  'push-to-talk': 'Push-to-talk (hold Space)',
+};
+
+export interface VoiceInputSettings {
+  mode: VoiceInputMode;
+  /** Silero speech probability above which audio counts as speech (0–1). */
+  vadThreshold: number;
+  /** Utterances shorter than this are ignored as noise. */
+  minSegmentMs: number;
+}
+
+/** Sample rate the mic is captured at for VAD and STT. */
+export const VOICE_SAMPLE_RATE = 16000;
+
+export const DEFAULT_VOICE_INPUT: VoiceInputSettings = {
+  mode: 'vad',
+  vadThreshold: 0.5,
+  // 1600 samples, the cutoff used before this was configurable
+  minSegmentMs: 100,
+};
+
+const INPUT_KEY = 'runanywhere.voice.input';
+
+/** Clamp and fill a possibly partial/stale stored object into valid settings. */
+export function normalizeVoiceInput(raw: Partial<VoiceInputSettings> | null | undefined): VoiceInputSettings {
+  const d = DEFAULT_VOICE_INPUT;
+  const num = (v: unknown, fallback: number, min: number, max: number) =>
+    typeof v === 'number' && Number.isFinite(v) ? Math.min(max, Math.max(min, v)) : fallback;
+
+  return {
+    mode: raw?.mode === 'vad' || raw?.mode === 'push-to-talk' ? raw.mode : d.mode,
+    vadThreshold: num(raw?.vadThreshold, d.vadThreshold, 0.05, 0.95),
+    minSegmentMs: Math.round(num(raw?.minSegmentMs, d.minSegmentMs, 0, 3000)),
+  };
+}
+
+export function loadVoiceInput(): VoiceInputSettings {
+  try {
+    return normalizeVoiceInput(JSON.parse(localStorage.getItem(INPUT_KEY) ?? 'null'));
+  } catch {
+    return { ...DEFAULT_VOICE_INPUT };
+  }
+}
+
+export function saveVoiceInput(settings: VoiceInputSettings): void {
+  localStorage.setItem(INPUT_KEY, JSON.stringify(settings));
+}
+
+/** `minSegmentMs` in samples at `VOICE_SAMPLE_RATE`. */
+export const minSegmentSamples = (settings: VoiceInputSettings) =>
+  Math.round((settings.minSegmentMs / 1000) * VOICE_SAMPLE_RATE);
+
+/**
+ * Re-create the VAD with `threshold`. The SDK loads Silero VAD with its
+ * default threshold and has no setter, so this loads the detector again
+ * from the model file the ONNX provider wrote to the sherpa-onnx file
+ * system (`/models/<id>/<file name>`). Left untouched if that file can't
+ * be found, since a failed load would leave no VAD at all.
+ */
+export async function applyVADThreshold(threshold: number): Promise<void> {
+  const model = ModelManager.getLoadedModel(ModelCategory.Audio);
+  if (!model) return;
+  const modelPath = `/models/${model.id}/${model.url?.split('/').pop() ?? 'silero_vad.onnx'}`;
+  try {
+    if (!SherpaONNXBridge.shared.module.FS.analyzePath(modelPath).exists) {
+      console.warn('[voiceInput] VAD model file not found, keeping the default threshold:', modelPath);
+      return;
+    }
+    await VAD.loadModel({ modelPath, threshold, sampleRate: VOICE_SAMPLE_RATE });
+  } catch (err) {
+    console.warn('[voiceInput] Could not apply the VAD threshold:', err);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Voice tab conversation options, persisted in localStorage: whether the
+ * tab keeps listening between turns, what ends a hands-free session, and
+ * whether speaking interrupts a reply.
+ */
+
+export interface VoiceOptions {
+  /** Resume listening after each reply instead of stopping. */
+  continuous: boolean;
+  /** End a hands-free session after this long without speech. 0 = never. */
+  silenceTimeoutSec: number;
+  /** Saying this ends a hands-free session. Empty = disabled. */
+  stopPhrase: string;
+  /** Keep the mic open while replying, so speaking interrupts the reply. */
+  bargeIn: boolean;
+}
+
+export const DEFAULT_VOICE_OPTIONS: VoiceOptions = {
+  continuous: false,
+  silenceTimeoutSec: 30,
+  stopPhrase: 'stop listening',
+  bargeIn: true,
+};
+
+const OPTIONS_KEY = 'runanywhere.voice.options';
+
+/** Clamp and fill a possibly partial/stale stored object into valid options. */
+export function normalizeVoiceOptions(raw: Partial<VoiceOptions> | null | undefined): VoiceOptions {
+  const d = DEFAULT_VOICE_OPTIONS;
+  return {
+    continuous: typeof raw?.continuous === 'boolean' ? raw.continuous : d.continuous,
+    silenceTimeoutSec: typeof raw?.silenceTimeoutSec === 'number' && Number.isFinite(raw.silenceTimeoutSec)
+      ? Math.round(Math.min(600, Math.max(0, raw.silenceTimeoutSec)))
+      : d.silenceTimeoutSec,
+    stopPhrase: typeof raw?.stopPhrase === 'string' ? raw.stopPhrase : d.stopPhrase,
+    bargeIn: typeof raw?.bargeIn === 'boolean' ? raw.bargeIn : d.bargeIn,
+  };
+}
+
+export function loadVoiceOptions(): VoiceOptions {
+  try {
+    return normalizeVoiceOptions(JSON.parse(localStorage.getItem(OPTIONS_KEY) ?? 'null'));
+  } catch {
+    return { ...DEFAULT_VOICE_OPTIONS };
+  }
+}
+
+export function saveVoiceOptions(options: VoiceOptions): void {
+  localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+}
+
+/** Lowercase words only, so "Stop listening." matches "stop listening". */
+const words = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}']+/gu, ' ').trim();
+
+/**
+ * Whether a transcript contains the stop phrase as whole words. STT often
+ * adds filler around a command ("okay, stop listening"), so an exact match
+ * would miss it.
+ */
+export function isStopPhrase(transcript: string, stopPhrase: string): boolean {
+  const phrase = words(stopPhrase);
+  return !!phrase && ` ${words(transcript)} `.includes(` ${phrase} `);
+}
@@ -0,0 +1,78 @@
+/**
+ * Minimal ZIP reader for attaching zipped source folders.
+ *
+ * Reads the central directory and inflates entries with the browser's
+ * `DecompressionStream('deflate-raw')`. Handles stored and deflated
+ * entries; ZIP64 archives and encrypted entries are not supported.
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+async function inflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus a comment of up to 65535 bytes
+  const min = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= min; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  throw new Error('Not a ZIP archive');
+}
+
+/**
+ * List the file entries of a ZIP archive. `accept` is checked against each
+ * path and uncompressed size before anything is inflated, so unwanted
+ * entries cost nothing.
+ */
+export async function readZip(
+  blob: Blob,
+  accept: (path: string, size: number) => boolean = () => true,
+): Promise<ZipEntry[]> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+
+  const eocd = findEndOfCentralDirectory(view);
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff || count === 0xffff) throw new Error('ZIP64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error('Corrupt ZIP central directory');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const isDirectory = path.endsWith('/');
+    const supported = method === METHOD_STORED || method === METHOD_DEFLATE;
+    if (isDirectory || !supported || flags & FLAG_ENCRYPTED || !accept(path, size)) continue;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new Error(`Corrupt ZIP entry: ${path}`);
+    // The local header's name/extra lengths can differ from the central copy
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    entries.push({ path, data: method === METHOD_DEFLATE ? await inflateRaw(raw) : raw });
+  }
+  return entries;
+}
@@ -4,7 +4,7 @@
  * This module:
  * 1. Initializes the SDK (core TypeScript infrastructure)
  * 2. Registers backends (LlamaCpp for LLM/VLM, ONNX for STT/TTS/VAD)
- * 3. Registers the model catalog
+ * 3. Registers the model catalog (built-ins + user-added custom models)
  * 4. Wires up the VLM Web Worker
  *
  * Import this module once at app startup.
@@ -29,6 +29,13 @@ import { ONNX } from '@runanywhere/web-onnx';
 
 import type { AccelerationMode } from '@runanywhere/web';
 
+import {
+  loadCustomModels,
+  saveCustomModel,
+  removeCustomModel,
+  type CustomModelRecord,
+} from './lib/customModels';
+
 // Vite bundles the worker as a standalone JS chunk and returns its URL.
 // @ts-ignore — Vite-specific ?worker&url query
 import vlmWorkerUrl from './workers/vlm-worker?worker&url';
@@ -48,6 +55,26 @@ const MODELS: CompactModelDef[] = [
     modality: ModelCategory.Language,
     memoryRequirement: 250_000_000,
   },
+  // LLM — Liquid AI LFM2 700M (better answers, ~2x slower)
+  {
+    id: 'lfm2-700m-q4_k_m',
+    name: 'LFM2 700M Q4_K_M',
+    repo: 'LiquidAI/LFM2-700M-GGUF',
+    files: ['LFM2-700M-Q4_K_M.gguf'],
+    framework: LLMFramework.LlamaCpp,
+    modality: ModelCategory.Language,
+    memoryRequirement: 500_000_000,
+  },
+  // LLM — Qwen2.5 0.5B Instruct (strong at code for its size)
+  {
+    id: 'qwen2.5-0.5b-instruct-q4_k_m',
+    name: 'Qwen2.5 0.5B Instruct Q4_K_M',
+    repo: 'Qwen/Qwen2.5-0.5B-Instruct-GGUF',
+    files: ['qwen2.5-0.5b-instruct-q4_k_m.gguf'],
+    framework: LLMFramework.LlamaCpp,
+    modality: ModelCategory.Language,
+    memoryRequirement: 400_000_000,
+  },
   // VLM — Liquid AI LFM2-VL 450M (vision + language)
   {
     id: 'lfm2-vl-450m-q4_0',
@@ -58,6 +85,16 @@ const MODELS: CompactModelDef[] = [
     modality: ModelCategory.Multimodal,
     memoryRequirement: 500_000_000,
   },
+  // VLM — Liquid AI LFM2-VL 1.6B (more accurate OCR, needs ~1.2 GB)
+  {
+    id: 'lfm2-vl-1.6b-q4_0',
+    name: 'LFM2-VL 1.6B Q4_0',
+    repo: 'LiquidAI/LFM2-VL-1.6B-GGUF',
+    files: ['LFM2-VL-1.6B-Q4_0.gguf', 'mmproj-LFM2-VL-1.6B-Q8_0.gguf'],
+    framework: LLMFramework.LlamaCpp,
+    modality: ModelCategory.Multimodal,
+    memoryRequirement: 1_200_000_000,
+  },
   // STT (sherpa-onnx archive)
   {
     id: 'sherpa-onnx-whisper-tiny.en',
@@ -90,6 +127,52 @@ const MODELS: CompactModelDef[] = [
   },
 ];
 
+/** Built-in catalog plus every persisted custom model. */
+function catalog(): CompactModelDef[] {
+  const builtInIds = new Set(MODELS.map((m) => m.id));
+  const custom = loadCustomModels()
+    .map((r) => r.def)
+    .filter((def) => !builtInIds.has(def.id));
+  return [...MODELS, ...custom];
+}
+
+/** Ids already taken in the catalog (used to reject duplicate custom models). */
+export function getCatalogIds(): string[] {
+  return catalog().map((m) => m.id);
+}
+
+/**
+ * Persist and register a user-supplied model. `registerModels` replaces the
+ * whole catalog, so the full list is re-registered and downloaded models are
+ * re-detected from OPFS. Loaded models keep running, and
+ * `ModelManager.getLoadedModel` still returns them, but their listed status
+ * falls back to `downloaded` since the SDK has no way to restore it.
+ * For local models, `file` is streamed into storage under the new id.
+ */
+export async function addCustomModel(record: CustomModelRecord, file?: File): Promise<void> {
+  saveCustomModel(record);
+  RunAnywhere.registerModels(catalog());
+
+  if (file) {
+    try {
+      await RunAnywhere.importModelFromFile(file, { modelId: record.def.id });
+    } catch (err) {
+      removeCustomModel(record.def.id);
+      RunAnywhere.registerModels(catalog());
+      throw err;
+    }
+  }
+}
+
+/** Remove a custom model's definition and any stored files. */
+export async function deleteCustomModel(id: string): Promise<void> {
+  if (ModelManager.getModels().some((m) => m.id === id)) {
+    await ModelManager.deleteModel(id);
+  }
+  removeCustomModel(id);
+  RunAnywhere.registerModels(catalog());
+}
+
 // ---------------------------------------------------------------------------
 // Initialization
 // ---------------------------------------------------------------------------
@@ -118,7 +201,7 @@ export async function initSDK(): Promise<void> {
     await ONNX.register();
 
     // Step 3: Register model catalog
-    RunAnywhere.registerModels(MODELS);
+    RunAnywhere.registerModels(catalog());
 
     // Step 4: Wire up VLM worker
     VLMWorkerBridge.shared.workerUrl = vlmWorkerUrl;